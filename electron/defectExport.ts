@@ -0,0 +1,122 @@
+import { dialog } from 'electron'
+import fs from 'node:fs'
+import path from 'node:path'
+import {
+  BulkExportProgress,
+  BulkExportRequest,
+  defectCsv,
+  defectImageKinds,
+  defectImageName,
+} from '../src/utilities/defectExport'
+import { DefectImageKind } from '../src/utilities/inspectionStore'
+import { pacpTables } from '../src/utilities/pacp'
+import { readDefectImage } from './inspectionStore'
+import { handle, send } from './ipc'
+
+const IMAGE_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg' }
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+type ExportedImages = Record<string, Partial<Record<DefectImageKind, string>>>
+
+// Copies the stored images of the defects into imageDir, reporting progress
+// per defect. Returns the written files by defect id and kind, relative to
+// the data file.
+async function writeImages(
+  request: BulkExportRequest,
+  imageDir: string,
+  progress: (update: BulkExportProgress) => void
+): Promise<ExportedImages> {
+  await fs.promises.mkdir(imageDir, { recursive: true })
+  const files: ExportedImages = {}
+  const total = request.defects.length
+
+  for (const [i, defect] of request.defects.entries()) {
+    const written: Partial<Record<DefectImageKind, string>> = {}
+    // PACP conditions reference the camera frame only
+    const kinds: DefectImageKind[] = request.format === 'pacp' ? ['frame'] : defectImageKinds(defect)
+    for (const kind of kinds) {
+      const image = readDefectImage(defect.id, kind)
+      if (!image) continue
+      const name = `${defectImageName(defect, kind)}.${IMAGE_EXTENSIONS[image.mime] ?? 'png'}`
+      await fs.promises.writeFile(path.join(imageDir, name), image.data)
+      written[kind] = `${path.basename(imageDir)}/${name}`
+    }
+    files[defect.id] = written
+    progress({ done: i + 1, total })
+  }
+  return files
+}
+
+// Data files to write and their contents; base is the chosen path without extension
+function serialize(request: BulkExportRequest, filePath: string, base: string, files: ExportedImages): [string, string][] {
+  if (request.format === 'pacp') {
+    const tables = pacpTables(request.sessions[0], request.path ?? [], request.defects, (defect) => files[defect.id]?.frame ?? '')
+    return [
+      [`${base}_Inspections.csv`, tables.inspections],
+      [`${base}_Conditions.csv`, tables.conditions],
+    ]
+  }
+
+  if (request.format === 'json') {
+    return [[filePath, JSON.stringify({
+      exportedAt: new Date().toISOString(),
+      sessions: request.sessions,
+      defects: request.defects.map((defect) => ({ ...defect, images: files[defect.id] ?? {} })),
+    }, null, 2)]]
+  }
+
+  return [[filePath, defectCsv(
+    request.defects,
+    request.sessions,
+    ['Camera Image', 'Map Top', 'Map Perspective', 'Other Images'],
+    (defect) => {
+      const images = files[defect.id] ?? {}
+      const others = Object.entries(images)
+        .filter(([kind]) => kind !== 'frame' && !kind.startsWith('map-'))
+        .map(([, file]) => file)
+      return [images.frame ?? '', images['map-top'] ?? '', images['map-perspective'] ?? '', others.join(';')]
+    }
+  )]]
+}
+
+const FILE_FILTERS: Record<BulkExportRequest['format'], string> = {
+  csv: 'CSV Files',
+  json: 'JSON Files',
+  pacp: 'PACP Tables (CSV)',
+}
+
+export function registerDefectExport() {
+  handle('export-defects', async (event, request) => {
+    // A PACP inspection without defects is still reported
+    if (request.defects.length === 0 && request.format !== 'pacp') {
+      return { success: false, error: 'No defects to export' }
+    }
+
+    const extension = request.format === 'json' ? 'json' : 'csv'
+    const { filePath } = await dialog.showSaveDialog({
+      defaultPath: `${request.name.replace(/[^A-Za-z0-9_.-]+/g, '_')}.${extension}`,
+      filters: [
+        { name: FILE_FILTERS[request.format], extensions: [extension] },
+        { name: 'All Files', extensions: ['*'] },
+      ],
+    })
+    if (!filePath) return { success: false, error: 'Save cancelled' }
+
+    // Images go in a folder next to the data file, named after it
+    const base = path.join(path.dirname(filePath), path.basename(filePath, path.extname(filePath)))
+    const imageDir = `${base}_images`
+    try {
+      const files = await writeImages(request, imageDir, (update) => send(event.sender, 'defect-export-progress', update))
+      const outputs = serialize(request, filePath, base, files)
+      for (const [outputPath, content] of outputs) {
+        await fs.promises.writeFile(outputPath, content)
+      }
+      const imageCount = Object.values(files).reduce((count, images) => count + Object.keys(images).length, 0)
+      return { success: true, filePath: outputs[0][0], imageDir, imageCount }
+    } catch (error) {
+      console.error('Error exporting defects:', error)
+      return { success: false, error: errorMessage(error) }
+    }
+  })
+}
@@ -0,0 +1,189 @@
+import { BrowserWindow, globalShortcut } from 'electron'
+import { createRequire } from 'node:module'
+import path from 'node:path'
+import { GlobalKeyboardListener, IGlobalKeyDownMap, IGlobalKeyEvent } from 'node-global-key-listener'
+import ROSLIB from 'roslib'
+import { EStopTarget, GLOBAL_ESTOP_ACCELERATOR } from '../src/utilities/globalEStop'
+import { on, send } from './ipc'
+
+// How long the renderer gets to acknowledge before main publishes itself
+const ACK_TIMEOUT_MS = 300
+// Holding the hotkey repeats key-down events, ignore them
+const REPEAT_GUARD_MS = 500
+const STANDBY_RETRY_MS = 5000
+
+let target: EStopTarget | null = null
+let standby: ROSLIB.Ros | null = null
+let standbyConnected = false
+let standbyRetry: ReturnType<typeof setTimeout> | null = null
+let ackTimer: ReturnType<typeof setTimeout> | null = null
+let rendererUnresponsive = false
+let lastTrigger = 0
+let keyListener: GlobalKeyboardListener | null = null
+
+// Keep a rosbridge connection open from main so the fallback doesn't have to
+// wait for a handshake when it is needed
+function connectStandby() {
+  if (standbyRetry) {
+    clearTimeout(standbyRetry)
+    standbyRetry = null
+  }
+  standby?.close()
+  standby = null
+  standbyConnected = false
+  if (!target) return
+
+  const ros = new ROSLIB.Ros({ url: target.url })
+  standby = ros
+
+  ros.on('connection', () => {
+    if (standby !== ros) return
+    standbyConnected = true
+    console.log(`[global-e-stop] Standby rosbridge connection open to ${target?.url}`)
+  })
+  ros.on('error', () => {
+    // 'close' follows and schedules the retry
+  })
+  ros.on('close', () => {
+    if (standby !== ros) return
+    standbyConnected = false
+    standbyRetry = setTimeout(connectStandby, STANDBY_RETRY_MS)
+  })
+}
+
+function publishFromMain(reason: string) {
+  console.warn(`[global-e-stop] Publishing E-stop from main process: ${reason}`)
+  if (!target || !standby || !standbyConnected) {
+    console.error('[global-e-stop] No rosbridge connection from main, E-stop not sent')
+    return
+  }
+
+  if (target.mode === 'topic') {
+    const eStopTopic = new ROSLIB.Topic({
+      ros: standby,
+      name: target.eStopTopic.name,
+      messageType: target.eStopTopic.messageType,
+      latch: true,
+      queue_size: 1,
+    })
+    eStopTopic.publish(new ROSLIB.Message({ data: true }))
+  } else {
+    const service = new ROSLIB.Service({
+      ros: standby,
+      name: target.serviceName,
+      serviceType: target.serviceType,
+    })
+    service.callService(
+      new ROSLIB.ServiceRequest({ data: true }),
+      () => console.log('[global-e-stop] E-stop service accepted'),
+      (error) => console.error('[global-e-stop] E-stop service call failed:', error)
+    )
+  }
+
+  // Zero the velocity as well, same as the renderer's E-stop
+  const cmdVel = new ROSLIB.Topic({
+    ros: standby,
+    name: target.cmdVelTopic.name,
+    messageType: target.cmdVelTopic.messageType,
+  })
+  const stopMsg = new ROSLIB.Message({
+    linear: { x: 0, y: 0, z: 0 },
+    angular: { x: 0, y: 0, z: 0 },
+  })
+  cmdVel.publish(stopMsg)
+  setTimeout(() => cmdVel.publish(stopMsg), 50)
+  setTimeout(() => cmdVel.publish(stopMsg), 100)
+}
+
+function triggerEStop(getWindow: () => BrowserWindow | null) {
+  const now = Date.now()
+  if (now - lastTrigger < REPEAT_GUARD_MS) return
+  lastTrigger = now
+
+  const win = getWindow()
+  if (!win || win.isDestroyed() || win.webContents.isCrashed() || rendererUnresponsive) {
+    publishFromMain('renderer unavailable')
+    return
+  }
+
+  send(win.webContents, 'global-e-stop')
+  if (ackTimer) clearTimeout(ackTimer)
+  ackTimer = setTimeout(() => {
+    ackTimer = null
+    publishFromMain('renderer did not acknowledge')
+  }, ACK_TIMEOUT_MS)
+}
+
+const isHotkey = (event: IGlobalKeyEvent, down: IGlobalKeyDownMap) =>
+  event.state === 'DOWN' &&
+  event.name === 'SPACE' &&
+  (down['LEFT CTRL'] || down['RIGHT CTRL'] || down['LEFT META'] || down['RIGHT META']) &&
+  (down['LEFT SHIFT'] || down['RIGHT SHIFT'])
+
+// The listener reads keys through a native server in the package's bin/.
+// electron-builder unpacks it beside the asar archive, as executables can't
+// run from inside one.
+function keyServerPath(name: string) {
+  const dir = path.dirname(createRequire(import.meta.url).resolve('node-global-key-listener/package.json'))
+  return path.join(dir, 'bin', name).replace(`app.asar${path.sep}`, `app.asar.unpacked${path.sep}`)
+}
+
+// Prefer the low-level key listener, it sees the hotkey even while a modal
+// dialog or another application has focus. Fall back to Electron's global
+// shortcut where the listener can't start (e.g. Wayland, missing permissions).
+function registerHotkey(onPress: () => void) {
+  keyListener = new GlobalKeyboardListener({
+    windows: { serverPath: keyServerPath('WinKeyServer.exe') },
+    mac: { serverPath: keyServerPath('MacKeyServer') },
+    x11: { serverPath: keyServerPath('X11KeyServer') },
+  })
+  keyListener
+    .addListener((event, down) => {
+      if (isHotkey(event, down)) onPress()
+    })
+    .catch((error) => {
+      console.warn('[global-e-stop] Key listener unavailable, using globalShortcut:', error)
+      keyListener?.kill()
+      keyListener = null
+      if (!globalShortcut.register(GLOBAL_ESTOP_ACCELERATOR, onPress)) {
+        console.error(`[global-e-stop] Could not register ${GLOBAL_ESTOP_ACCELERATOR}`)
+      }
+    })
+}
+
+// Track whether the renderer can still act on the forwarded stop
+export function watchEStopWindow(win: BrowserWindow) {
+  rendererUnresponsive = false
+  win.on('unresponsive', () => {
+    rendererUnresponsive = true
+  })
+  win.on('responsive', () => {
+    rendererUnresponsive = false
+  })
+}
+
+export function setupGlobalEStop(getWindow: () => BrowserWindow | null) {
+  on('e-stop-target', (_event, newTarget) => {
+    const urlChanged = newTarget.url !== target?.url
+    target = newTarget
+    if (urlChanged) connectStandby()
+  })
+
+  on('global-e-stop-ack', () => {
+    if (ackTimer) {
+      clearTimeout(ackTimer)
+      ackTimer = null
+    }
+  })
+
+  registerHotkey(() => triggerEStop(getWindow))
+}
+
+export function teardownGlobalEStop() {
+  keyListener?.kill()
+  keyListener = null
+  globalShortcut.unregisterAll()
+  if (standbyRetry) clearTimeout(standbyRetry)
+  standby?.close()
+  standby = null
+}
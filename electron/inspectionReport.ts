@@ -0,0 +1,401 @@
+import { dialog } from 'electron'
+import fs from 'node:fs'
+import PDFDocument from 'pdfkit'
+import { Defect, PathSample, activeDuration, endManhole, startManhole } from '../src/utilities/inspection'
+import { ReportRequest, SEVERITY_ORDER, severityRank } from '../src/utilities/inspectionReport'
+import { defectMapPosition } from '../src/utilities/mapSnapshot'
+import { familyGrades, quickRating } from '../src/utilities/pacp'
+import { formatChainage, formatClock, pathLength } from '../src/utilities/pipePosition'
+import { severityCss } from '../src/utilities/severity'
+import { readDefectImage } from './inspectionStore'
+import { handle } from './ipc'
+
+// A4 in points, with room above and below the content for the page header
+// and footer
+const MARGIN = { top: 80, bottom: 60, left: 50, right: 50 }
+const MUTED = '#6b7280'
+const RULE = '#d1d5db'
+
+type Doc = InstanceType<typeof PDFDocument>
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+// Images the PDF can't decode are left out rather than failing the whole report
+function drawImage(doc: Doc, image: Buffer | null, x: number, y: number, width: number, height: number, caption: string) {
+  doc.rect(x, y, width, height).lineWidth(0.5).stroke(RULE)
+  try {
+    if (!image) throw new Error('missing')
+    doc.image(image, x, y, { fit: [width, height], align: 'center', valign: 'center' })
+  } catch {
+    doc.font('regular').fontSize(9).fillColor(MUTED)
+      .text('No image stored', x, y + height / 2 - 5, { width, align: 'center' })
+  }
+  doc.font('regular').fontSize(8).fillColor(MUTED).text(caption, x, y + height + 4, { width, align: 'center' })
+}
+
+const imageOf = (id: string, kind: Parameters<typeof readDefectImage>[1]) => {
+  try {
+    return readDefectImage(id, kind)?.data ?? null
+  } catch (error) {
+    console.error(`Error reading ${kind} image for ${id}:`, error)
+    return null
+  }
+}
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000)
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`
+}
+
+const formatPosition = (p: { x: number; y: number; z: number } | null) =>
+  p ? `(${p.x.toFixed(2)}, ${p.y.toFixed(2)}, ${p.z.toFixed(2)})` : '—'
+
+// PACP code with its grade, e.g. "FL 3"
+const formatCode = (defect: Defect) =>
+  defect.coding.grade !== null ? `${defect.coding.code} ${defect.coding.grade}` : defect.coding.code
+
+// Two-column label/value list, returns the y below it
+function drawFields(doc: Doc, fields: [string, string][], x: number, y: number, width: number) {
+  const labelWidth = 110
+  fields.forEach(([label, value]) => {
+    doc.font('regular').fontSize(10).fillColor(MUTED).text(label, x, y, { width: labelWidth })
+    doc.fillColor('black').text(value || '—', x + labelWidth, y, { width: width - labelWidth })
+    y = doc.y + 4
+  })
+  return y
+}
+
+function drawCover(doc: Doc, request: ReportRequest, logo: Buffer | null) {
+  const { session, path: samples, defects, settings } = request
+  const { metadata } = session
+  const width = doc.page.width - MARGIN.left - MARGIN.right
+  let y = MARGIN.top + 40
+
+  if (logo) {
+    try {
+      doc.image(logo, MARGIN.left, y, { fit: [width, 90], align: 'center' })
+      y += 110
+    } catch (error) {
+      console.warn('Report logo could not be drawn:', error)
+    }
+  }
+  if (settings.companyName) {
+    doc.font('regular').fontSize(14).fillColor(MUTED).text(settings.companyName, MARGIN.left, y, { width, align: 'center' })
+    y = doc.y + 10
+  }
+
+  doc.font('bold').fontSize(26).fillColor('black').text('Inspection Report', MARGIN.left, y, { width, align: 'center' })
+  doc.font('regular').fontSize(16).text(`Segment ${metadata.segmentId}`, { width, align: 'center' })
+  doc.fontSize(12).fillColor(MUTED)
+    .text(`${metadata.upstreamManhole} to ${metadata.downstreamManhole}`, { width, align: 'center' })
+  y = doc.y + 40
+
+  doc.moveTo(MARGIN.left, y).lineTo(MARGIN.left + width, y).lineWidth(0.5).stroke(RULE)
+  y += 16
+
+  drawFields(doc, [
+    ['Project', metadata.project],
+    ['Survey', `${metadata.direction === 'downstream' ? 'Downstream' : 'Upstream'}, from ${startManhole(metadata)} to ${endManhole(metadata)}`],
+    ['Pipe', [metadata.pipeMaterial, metadata.diameterMm !== null ? `${metadata.diameterMm} mm` : ''].filter(Boolean).join(', ')],
+    ['Operator', metadata.operator],
+    ['Weather', metadata.weather],
+    ['Started', new Date(session.startedAt).toLocaleString()],
+    ['Ended', session.endedAt !== null ? new Date(session.endedAt).toLocaleString() : 'Not ended'],
+    ['Recording time', formatDuration(activeDuration(session, session.endedAt ?? Date.now()))],
+    ['Length surveyed', formatChainage(pathLength(samples))],
+    ['Defects', String(defects.length)],
+    ['Structural rating', quickRating(familyGrades(defects, 'structural'))],
+    ['O&M rating', quickRating(familyGrades(defects, 'om'))],
+    ['Session', session.id],
+  ], MARGIN.left + 60, y, width - 120)
+}
+
+// Defects grouped by severity, worst first, each group in chainage order
+function drawSummary(doc: Doc, defects: Defect[], numbers: Map<string, number>) {
+  doc.addPage()
+  const width = doc.page.width - MARGIN.left - MARGIN.right
+  const bottom = doc.page.height - MARGIN.bottom
+  const columns: [string, number][] = [
+    ['#', 30], ['Defect', 130], ['Chainage', 65], ['Clock', 90], ['Code', 55], ['Type', 85], ['Conf.', 40],
+  ]
+
+  doc.font('bold').fontSize(18).fillColor('black').text('Summary', MARGIN.left, MARGIN.top)
+  let y = doc.y + 10
+
+  const groups = new Map<string, Defect[]>()
+  defects.forEach((defect) => {
+    const key = severityRank(defect.severity) < SEVERITY_ORDER.length ? defect.severity.toLowerCase() : 'other'
+    groups.set(key, [...(groups.get(key) ?? []), defect])
+  })
+  const keys = [...SEVERITY_ORDER, 'other'].filter((key) => groups.has(key))
+
+  if (keys.length === 0) {
+    doc.font('regular').fontSize(11).fillColor(MUTED).text('No defects were recorded in this session.', MARGIN.left, y)
+    return
+  }
+
+  const header = () => {
+    let x = MARGIN.left
+    doc.font('bold').fontSize(9).fillColor(MUTED)
+    columns.forEach(([title, columnWidth]) => {
+      doc.text(title, x, y, { width: columnWidth })
+      x += columnWidth
+    })
+    y += 14
+  }
+
+  keys.forEach((key) => {
+    const group = groups.get(key) ?? []
+    if (y + 50 > bottom) {
+      doc.addPage()
+      y = MARGIN.top
+    }
+    doc.rect(MARGIN.left, y, 6, 14).fill(severityCss(key))
+    doc.font('bold').fontSize(12).fillColor('black')
+      .text(`${key.charAt(0).toUpperCase()}${key.slice(1)} (${group.length})`, MARGIN.left + 12, y + 1)
+    y += 22
+    header()
+
+    group.forEach((defect) => {
+      if (y + 16 > bottom) {
+        doc.addPage()
+        y = MARGIN.top
+        header()
+      }
+      const cells = [
+        String(numbers.get(defect.id)),
+        defect.id,
+        formatChainage(defect.chainage),
+        formatClock(defect.clock),
+        formatCode(defect),
+        defect.type,
+        `${defect.confidence.toFixed(1)}%`,
+      ]
+      let x = MARGIN.left
+      doc.font('regular').fontSize(9).fillColor('black')
+      cells.forEach((cell, i) => {
+        doc.text(cell, x, y, { width: columns[i][1] - 4, lineBreak: false, ellipsis: true })
+        x += columns[i][1]
+      })
+      y += 14
+      doc.moveTo(MARGIN.left, y - 3).lineTo(MARGIN.left + width, y - 3).lineWidth(0.25).stroke(RULE)
+    })
+    y += 12
+  })
+}
+
+// Metres per scale bar that fill about a quarter of the drawing
+const niceScale = (metres: number) =>
+  [0.5, 1, 2, 5, 10, 20, 50, 100, 200, 500].find((step) => step >= metres / 4) ?? 1000
+
+// Path drawn top-down in the map frame, with numbered defect markers
+function drawPathOverview(doc: Doc, request: ReportRequest, defects: Defect[], numbers: Map<string, number>) {
+  doc.addPage()
+  const { metadata } = request.session
+  const width = doc.page.width - MARGIN.left - MARGIN.right
+  doc.font('bold').fontSize(18).fillColor('black').text('Path overview', MARGIN.left, MARGIN.top)
+  const box = { x: MARGIN.left, y: doc.y + 10, width, height: width }
+  doc.rect(box.x, box.y, box.width, box.height).lineWidth(0.5).stroke(RULE)
+
+  const markers = defects
+    .map((defect) => ({ defect, position: defectMapPosition(defect) }))
+    .filter((m): m is { defect: Defect; position: NonNullable<ReturnType<typeof defectMapPosition>> } => m.position !== null)
+  const points: { x: number; y: number }[] = [...request.path, ...markers.map((m) => m.position)]
+  if (points.length === 0) {
+    doc.font('regular').fontSize(11).fillColor(MUTED)
+      .text('No path was recorded for this session.', box.x, box.y + box.height / 2, { width, align: 'center' })
+    return
+  }
+
+  const minX = Math.min(...points.map((p) => p.x))
+  const maxX = Math.max(...points.map((p) => p.x))
+  const minY = Math.min(...points.map((p) => p.y))
+  const maxY = Math.max(...points.map((p) => p.y))
+  const padding = 30
+  const span = Math.max(maxX - minX, maxY - minY, 1)
+  const scale = (box.width - padding * 2) / span
+  const centreX = (minX + maxX) / 2
+  const centreY = (minY + maxY) / 2
+  // Map +x to the right and +y up
+  const toPage = (p: { x: number; y: number }) => ({
+    x: box.x + box.width / 2 + (p.x - centreX) * scale,
+    y: box.y + box.height / 2 - (p.y - centreY) * scale,
+  })
+
+  const samples: PathSample[] = request.path
+  if (samples.length > 1) {
+    const first = toPage(samples[0])
+    doc.moveTo(first.x, first.y)
+    samples.slice(1).forEach((sample) => {
+      const p = toPage(sample)
+      doc.lineTo(p.x, p.y)
+    })
+    doc.lineWidth(1.5).stroke('#ef4444')
+  }
+  if (samples.length > 0) {
+    const start = toPage(samples[0])
+    const end = toPage(samples[samples.length - 1])
+    doc.font('bold').fontSize(9).fillColor('black')
+    doc.circle(start.x, start.y, 4).fill('#111827')
+    doc.text(startManhole(metadata), start.x + 6, start.y - 4, { lineBreak: false })
+    doc.rect(end.x - 4, end.y - 4, 8, 8).fill('#111827')
+    doc.text(endManhole(metadata), end.x + 6, end.y - 4, { lineBreak: false })
+  }
+
+  markers.forEach(({ defect, position }) => {
+    const p = toPage(position)
+    doc.circle(p.x, p.y, 5).fill(severityCss(defect.severity))
+    doc.font('bold').fontSize(8).fillColor('black').text(String(numbers.get(defect.id)), p.x + 6, p.y - 10, { lineBreak: false })
+  })
+
+  const barMetres = niceScale(span)
+  const barX = box.x + 15
+  const barY = box.y + box.height - 20
+  doc.moveTo(barX, barY).lineTo(barX + barMetres * scale, barY).lineWidth(2).stroke('black')
+  doc.font('regular').fontSize(8).fillColor('black').text(`${barMetres} m`, barX, barY + 4, { lineBreak: false })
+
+  doc.font('regular').fontSize(9).fillColor(MUTED).text(
+    `Map frame, x to the right and y up. ${markers.length} of ${defects.length} defects have a location.`,
+    box.x,
+    box.y + box.height + 8,
+    { width }
+  )
+}
+
+function drawDefectPage(doc: Doc, defect: Defect, number: number, total: number) {
+  doc.addPage()
+  const width = doc.page.width - MARGIN.left - MARGIN.right
+
+  doc.font('bold').fontSize(16).fillColor('black').text(`${number}. ${defect.id}`, MARGIN.left, MARGIN.top)
+  const pillWidth = 70
+  doc.roundedRect(MARGIN.left + width - pillWidth, MARGIN.top, pillWidth, 18, 9).fill(severityCss(defect.severity))
+  doc.font('bold').fontSize(9).fillColor('white')
+    .text(defect.severity.toUpperCase(), MARGIN.left + width - pillWidth, MARGIN.top + 5, { width: pillWidth, align: 'center' })
+  doc.font('regular').fontSize(9).fillColor(MUTED).text(`Defect ${number} of ${total}`, MARGIN.left, MARGIN.top + 20)
+
+  const { coding } = defect
+  let y = drawFields(doc, [
+    ['Chainage', formatChainage(defect.chainage)],
+    ['Clock position', formatClock(defect.clock)],
+    ['PACP code', `${formatCode(defect)}, ${defect.type}${coding.operatorCoded ? '' : ' (model suggestion)'}`],
+    ...(coding.continuous ? [['Continuous', coding.continuous] as [string, string]] : []),
+    ...(coding.remarks ? [['Remarks', coding.remarks] as [string, string]] : []),
+    ['Confidence', `${defect.confidence.toFixed(1)}%`],
+    ['Detected', new Date(defect.timestamp).toLocaleString()],
+    ['Robot position', defect.pose ? formatPosition(defect.position) : '—'],
+    ['Defect position', formatPosition(defect.worldPosition)],
+  ], MARGIN.left, MARGIN.top + 40, width)
+
+  y += 8
+  drawImage(doc, imageOf(defect.id, 'frame'), MARGIN.left, y, width, 250, 'Camera frame at detection')
+  y += 250 + 24
+  const half = (width - 15) / 2
+  drawImage(doc, imageOf(defect.id, 'map-top'), MARGIN.left, y, half, 180, 'Map, top-down')
+  drawImage(doc, imageOf(defect.id, 'map-perspective'), MARGIN.left + half + 15, y, half, 180, 'Map, perspective')
+}
+
+// Header with logo and text, and page numbers, drawn once every page exists
+function drawPageDecorations(doc: Doc, headerText: string, logo: Buffer | null) {
+  const { start, count } = doc.bufferedPageRange()
+  for (let i = start; i < start + count; i++) {
+    doc.switchToPage(i)
+    const width = doc.page.width - MARGIN.left - MARGIN.right
+    // Writing inside the margins would otherwise start a new page
+    doc.page.margins = { top: 0, bottom: 0, left: 0, right: 0 }
+
+    if (i > start) {
+      if (logo) {
+        try {
+          doc.image(logo, MARGIN.left, 24, { fit: [90, 30] })
+        } catch {
+          // Already reported on the cover
+        }
+      }
+      doc.font('regular').fontSize(9).fillColor(MUTED)
+        .text(headerText, MARGIN.left, 36, { width, align: 'right', lineBreak: false })
+      doc.moveTo(MARGIN.left, 60).lineTo(MARGIN.left + width, 60).lineWidth(0.5).stroke(RULE)
+    }
+
+    doc.font('regular').fontSize(9).fillColor(MUTED)
+      .text(`Page ${i - start + 1} of ${count}`, MARGIN.left, doc.page.height - 40, { width, align: 'center', lineBreak: false })
+    doc.page.margins = { ...MARGIN }
+  }
+}
+
+function writeReport(request: ReportRequest, filePath: string): Promise<void> {
+  const { session, settings } = request
+
+  let logo: Buffer | null = null
+  if (settings.logoPath) {
+    try {
+      logo = fs.readFileSync(settings.logoPath)
+    } catch (error) {
+      console.warn(`Report logo ${settings.logoPath} could not be read:`, error)
+    }
+  }
+
+  // Along the pipe, defects without a chainage last in detection order
+  const defects = [...request.defects].sort(
+    (a, b) => (a.chainage ?? Infinity) - (b.chainage ?? Infinity) || a.timestamp - b.timestamp
+  )
+  const numbers = new Map(defects.map((defect, i) => [defect.id, i + 1] as const))
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margins: { ...MARGIN },
+    bufferPages: true,
+    font: 'Helvetica',
+    info: {
+      Title: `Inspection report ${session.metadata.segmentId}`,
+      Author: settings.companyName || 'RoboNav',
+    },
+  })
+  doc.registerFont('regular', 'Helvetica')
+  doc.registerFont('bold', 'Helvetica-Bold')
+
+  const stream = fs.createWriteStream(filePath)
+  const finished = new Promise<void>((resolve, reject) => {
+    stream.on('finish', resolve)
+    stream.on('error', reject)
+  })
+  doc.pipe(stream)
+
+  drawCover(doc, request, logo)
+  drawSummary(doc, defects, numbers)
+  drawPathOverview(doc, request, defects, numbers)
+  defects.forEach((defect, i) => drawDefectPage(doc, defect, i + 1, defects.length))
+  drawPageDecorations(doc, settings.headerText, logo)
+
+  doc.end()
+  return finished
+}
+
+export function registerInspectionReport() {
+  handle('save-inspection-report', async (_event, request) => {
+    const { metadata, startedAt } = request.session
+    const { filePath } = await dialog.showSaveDialog({
+      defaultPath: `${metadata.segmentId.replace(/[^A-Za-z0-9_.-]+/g, '_')}_${new Date(startedAt).toISOString().slice(0, 10)}_report.pdf`,
+      filters: [
+        { name: 'PDF Files', extensions: ['pdf'] },
+        { name: 'All Files', extensions: ['*'] },
+      ],
+    })
+    if (!filePath) return { success: false, error: 'Save cancelled' }
+
+    try {
+      await writeReport(request, filePath)
+      return { success: true, filePath }
+    } catch (error) {
+      console.error('Error creating inspection report:', error)
+      return { success: false, error: errorMessage(error) }
+    }
+  })
+
+  handle('select-report-logo', async () => {
+    const { filePaths } = await dialog.showOpenDialog({
+      properties: ['openFile'],
+      filters: [{ name: 'Images', extensions: ['png', 'jpg', 'jpeg'] }],
+    })
+    return filePaths[0] ?? null
+  })
+}
@@ -0,0 +1,156 @@
+import { app } from 'electron'
+import path from 'node:path'
+import fs from 'node:fs'
+import {
+  DefectImageKind,
+  IMAGE_DATA_URL_PATTERN,
+  validateDefect,
+  validateStoredSession,
+} from '../src/utilities/inspectionStore'
+import { handle } from './ipc'
+
+// Inspection data lives under the user data directory:
+//
+// inspection-store/
+// ├── sessions/<session id>.json
+// ├── defects/<defect id>.json
+// ├── frames/<defect id>.png|jpg   camera frame with the detection overlay
+// ├── maps/<defect id>-<view>.png  map snapshots, top-down and perspective
+// ├── evidence/<defect id>-<kind>  source frame, overlay and the clip around it
+// └── corrupt/                     unreadable records, kept for inspection
+const storeRoot = () => path.join(app.getPath('userData'), 'inspection-store')
+const storeDir = (name: 'sessions' | 'defects' | 'frames' | 'maps' | 'evidence' | 'corrupt') => {
+  const dir = path.join(storeRoot(), name)
+  fs.mkdirSync(dir, { recursive: true })
+  return dir
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+// Write to a temporary file first so a crash mid-write never leaves a
+// truncated record behind
+function writeAtomic(filePath: string, data: string | Buffer) {
+  const tmpPath = `${filePath}.tmp`
+  fs.writeFileSync(tmpPath, data)
+  fs.renameSync(tmpPath, filePath)
+}
+
+// Move a bad record aside so it isn't retried on every start but can still be
+// recovered by hand
+function quarantine(filePath: string) {
+  try {
+    const target = path.join(storeDir('corrupt'), `${Date.now()}-${path.basename(filePath)}`)
+    fs.renameSync(filePath, target)
+  } catch (error) {
+    console.error(`[inspection-store] Could not move ${filePath} aside:`, error)
+  }
+}
+
+function loadRecords<T>(dir: string, validate: (raw: unknown) => T | string, errors: string[]): T[] {
+  const records: T[] = []
+  for (const name of fs.readdirSync(dir)) {
+    const filePath = path.join(dir, name)
+    if (name.endsWith('.tmp')) {
+      // Left over from an interrupted write, the previous version is still intact
+      fs.rmSync(filePath, { force: true })
+      continue
+    }
+    if (!name.endsWith('.json')) continue
+
+    let result: T | string
+    try {
+      result = validate(JSON.parse(fs.readFileSync(filePath, 'utf-8')))
+    } catch (error) {
+      result = errorMessage(error)
+    }
+
+    if (typeof result === 'string') {
+      errors.push(`${name}: ${result}, moved to corrupt/`)
+      quarantine(filePath)
+      continue
+    }
+    records.push(result)
+  }
+  return records
+}
+
+// Path of a defect image without its extension
+function imageBase(id: string, kind: DefectImageKind) {
+  if (kind === 'frame') return path.join(storeDir('frames'), id)
+  if (kind.startsWith('map-')) return path.join(storeDir('maps'), `${id}-${kind.slice('map-'.length)}`)
+  return path.join(storeDir('evidence'), `${id}-${kind}`)
+}
+
+// A stored defect image with its type, or null if there is none
+export function readDefectImage(id: string, kind: DefectImageKind): { data: Buffer; mime: string } | null {
+  for (const [extension, mime] of [['png', 'image/png'], ['jpg', 'image/jpeg']]) {
+    const filePath = `${imageBase(id, kind)}.${extension}`
+    if (fs.existsSync(filePath)) return { data: fs.readFileSync(filePath), mime }
+  }
+  return null
+}
+
+export function registerInspectionStore() {
+  handle('load-inspection-sessions', async () => {
+    const errors: string[] = []
+    try {
+      const sessions = loadRecords(storeDir('sessions'), validateStoredSession, errors)
+      errors.forEach((error) => console.warn(`[inspection-store] ${error}`))
+      return { sessions, errors }
+    } catch (error) {
+      console.error('Error loading inspection sessions:', error)
+      return { sessions: [], errors: [`Could not read sessions: ${errorMessage(error)}`] }
+    }
+  })
+
+  handle('save-inspection-session', async (_event, record) => {
+    try {
+      const filePath = path.join(storeDir('sessions'), `${record.session.id}.json`)
+      writeAtomic(filePath, JSON.stringify(record))
+      return { success: true }
+    } catch (error) {
+      console.error('Error saving inspection session:', error)
+      return { success: false, error: errorMessage(error) }
+    }
+  })
+
+  handle('load-defects', async () => {
+    const errors: string[] = []
+    try {
+      const defects = loadRecords(storeDir('defects'), validateDefect, errors)
+      errors.forEach((error) => console.warn(`[inspection-store] ${error}`))
+      defects.sort((a, b) => a.timestamp - b.timestamp)
+      return { defects, errors }
+    } catch (error) {
+      console.error('Error loading defects:', error)
+      return { defects: [], errors: [`Could not read defects: ${errorMessage(error)}`] }
+    }
+  })
+
+  // Images were all checked with the defect, so a bad one never leaves a partial set
+  handle('save-defect', async (_event, defect, images) => {
+    try {
+      for (const [kind, image] of Object.entries(images) as [DefectImageKind, string][]) {
+        const match = image.match(IMAGE_DATA_URL_PATTERN)
+        if (!match) continue
+        const extension = match[1] === 'jpeg' ? 'jpg' : 'png'
+        writeAtomic(`${imageBase(defect.id, kind)}.${extension}`, Buffer.from(image.slice(match[0].length), 'base64'))
+      }
+      writeAtomic(path.join(storeDir('defects'), `${defect.id}.json`), JSON.stringify(defect))
+      return { success: true }
+    } catch (error) {
+      console.error('Error saving defect:', error)
+      return { success: false, error: errorMessage(error) }
+    }
+  })
+
+  handle('load-defect-image', async (_event, id, kind) => {
+    try {
+      const image = readDefectImage(id, kind)
+      return image && `data:${image.mime};base64,${image.data.toString('base64')}`
+    } catch (error) {
+      console.error(`Error reading ${kind} image for ${id}:`, error)
+      return null
+    }
+  })
+}
@@ -0,0 +1,45 @@
+import { IpcMainEvent, IpcMainInvokeEvent, WebContents, ipcMain } from 'electron'
+import {
+  EventChannel,
+  INVOKE_VALIDATORS,
+  InvokeArgs,
+  InvokeChannel,
+  InvokeResult,
+  IpcEventChannels,
+  IpcSendChannels,
+  SEND_VALIDATORS,
+  SendChannel,
+} from '../src/utilities/ipc'
+
+// Registers a handler for a channel of the IPC contract. The payload is
+// validated first; a bad one rejects the renderer's promise with the reason
+// and never reaches the handler.
+export function handle<C extends InvokeChannel>(
+  channel: C,
+  handler: (event: IpcMainInvokeEvent, ...args: InvokeArgs<C>) => Promise<InvokeResult<C>> | InvokeResult<C>
+) {
+  ipcMain.handle(channel, (event, ...raw: unknown[]) => {
+    const args = INVOKE_VALIDATORS[channel](raw)
+    if (typeof args === 'string') {
+      console.warn(`[ipc] Rejected ${channel}: ${args}`)
+      throw new Error(`Invalid ${channel} request: ${args}`)
+    }
+    return handler(event, ...(args as InvokeArgs<C>))
+  })
+}
+
+// Listens on a one-way channel; invalid messages are logged and dropped
+export function on<C extends SendChannel>(channel: C, listener: (event: IpcMainEvent, ...args: IpcSendChannels[C]) => void) {
+  ipcMain.on(channel, (event, ...raw: unknown[]) => {
+    const args = SEND_VALIDATORS[channel](raw)
+    if (typeof args === 'string') {
+      console.warn(`[ipc] Ignored ${channel}: ${args}`)
+      return
+    }
+    listener(event, ...(args as IpcSendChannels[C]))
+  })
+}
+
+export function send<C extends EventChannel>(contents: WebContents, channel: C, ...args: IpcEventChannels[C]) {
+  if (!contents.isDestroyed()) contents.send(channel, ...args)
+}
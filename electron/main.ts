@@ -1,9 +1,14 @@
-import { app, BrowserWindow, ipcMain, dialog } from 'electron'
-import { createRequire } from 'node:module'
+import { app, BrowserWindow, dialog } from 'electron'
 import { fileURLToPath } from 'node:url'
 import path from 'node:path'
 import PDFDocument from 'pdfkit'
 import fs from 'node:fs'
+import { DEFAULT_TOPIC_PROFILE_CONFIG, validateTopicProfileConfig } from '../src/utilities/topicProfile'
+import { setupGlobalEStop, teardownGlobalEStop, watchEStopWindow } from './globalEStop'
+import { registerInspectionStore } from './inspectionStore'
+import { registerInspectionReport } from './inspectionReport'
+import { registerDefectExport } from './defectExport'
+import { handle } from './ipc'
 
 
 // app.disableHardwareAcceleration();
@@ -13,7 +18,6 @@ import fs from 'node:fs'
 // app.commandLine.appendSwitch('disable-gpu-compositing');
 // app.commandLine.appendSwitch('disable-gpu-rasterization');
 // app.commandLine.appendSwitch('disable-gpu-sandbox');
-// const require = createRequire(import.meta.url)
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
 // The built directory structure
@@ -48,10 +52,7 @@ function createWindow() {
 
   win.webContents.openDevTools()  //opens the console
 
-  // Test active push message to Renderer-process.
-  win.webContents.on('did-finish-load', () => {
-    win?.webContents.send('main-process-message', (new Date).toLocaleString())
-  })
+  watchEStopWindow(win)
 
   if (VITE_DEV_SERVER_URL) {
     win.loadURL(VITE_DEV_SERVER_URL)
@@ -79,10 +80,10 @@ app.on('activate', () => {
   }
 })
 
-// In main.js or main.ts of your Electron app
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
 
 // Handle CSV file saving
-ipcMain.handle('save-file', async (event, { content, filename, images }) => {
+handle('save-file', async (_event, { content, filename, images }) => {
   try {
     // Show save dialog
     const { filePath } = await dialog.showSaveDialog({
@@ -93,7 +94,7 @@ ipcMain.handle('save-file', async (event, { content, filename, images }) => {
       ]
     });
     
-    if (!filePath) return { success: false, message: 'Save cancelled' };
+    if (!filePath) return { success: false, error: 'Save cancelled' };
     
     // Write CSV file
     fs.writeFileSync(filePath, content);
@@ -120,16 +121,12 @@ ipcMain.handle('save-file', async (event, { content, filename, images }) => {
     return { success: true, filePath };
   } catch (error) {
     console.error('Error saving file:', error);
-    if (error instanceof Error) {
-      return { success: false, error: error.message };
-  } else {
-      return { success: false, error: String(error) }; // Convert unknown errors to a string
-  }
+    return { success: false, error: errorMessage(error) };
   }
 });
 
 // Handle PDF generation and saving
-ipcMain.handle('saveAsPDF', async (event, { defect, cameraImage, slamMapImage, filename }) => {
+handle('save-as-pdf', async (_event, { defect, cameraImage, slamMapImage, filename }) => {
   try {
     // Show save dialog
     const { filePath } = await dialog.showSaveDialog({
@@ -140,14 +137,11 @@ ipcMain.handle('saveAsPDF', async (event, { defect, cameraImage, slamMapImage, f
       ]
     });
     
-    if (!filePath) return { success: false, message: 'Save cancelled' };
+    if (!filePath) return { success: false, error: 'Save cancelled' };
     
-    // Create PDF document
-    const PDFDocument = require('pdfkit');
-    const doc = new PDFDocument({
-      margin: 50,
-      font: path.join(__dirname, '../node_modules/pdfkit/js/data/Helvetica.afm')
-    });
+    // Create PDF document; the standard fonts' metrics ship with pdfkit, which
+    // stays external to the main bundle so it can find them
+    const doc = new PDFDocument({ margin: 50, font: 'Helvetica' });
     const stream = fs.createWriteStream(filePath);
 
     
@@ -198,14 +192,65 @@ ipcMain.handle('saveAsPDF', async (event, { defect, cameraImage, slamMapImage, f
       stream.on('finish', () => {
         resolve({ success: true, filePath });
       });
+      stream.on('error', (error) => {
+        resolve({ success: false, error: errorMessage(error) });
+      });
     });
   } catch (error) {
     console.error('Error creating PDF:', error);
-    if (error instanceof Error) {
-      return { success: false, error: error.message };
-  } else {
-      return { success: false, error: String(error) }; // Convert unknown errors to a string
-  }
+    return { success: false, error: errorMessage(error) };
   }
 });
-app.whenReady().then(createWindow)
+
+// Topic profiles live in a JSON file in the user data directory so sites can
+// switch or edit them without a rebuild
+const topicProfilesPath = () => path.join(app.getPath('userData'), 'topic-profiles.json')
+
+handle('load-topic-profiles', async () => {
+  const filePath = topicProfilesPath()
+
+  if (!fs.existsSync(filePath)) {
+    // First run: seed the file with the built-in profiles
+    fs.writeFileSync(filePath, JSON.stringify(DEFAULT_TOPIC_PROFILE_CONFIG, null, 2))
+    return { config: DEFAULT_TOPIC_PROFILE_CONFIG, errors: [] }
+  }
+
+  try {
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+    const result = validateTopicProfileConfig(raw)
+    result.errors.forEach((error) => console.warn(`[topic-profiles] ${error}`))
+    return result
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    console.error('Error reading topic profiles:', error)
+    return {
+      config: DEFAULT_TOPIC_PROFILE_CONFIG,
+      errors: [`Could not parse ${filePath}: ${message}`],
+    }
+  }
+})
+
+// Checked against the profile schema before it gets here
+handle('save-topic-profiles', async (_event, config) => {
+  try {
+    const filePath = topicProfilesPath()
+    fs.writeFileSync(filePath, JSON.stringify(config, null, 2))
+    return { success: true, filePath, errors: [] }
+  } catch (error) {
+    console.error('Error saving topic profiles:', error)
+    return { success: false, errors: [errorMessage(error)] }
+  }
+})
+
+registerInspectionStore()
+registerInspectionReport()
+registerDefectExport()
+
+app.on('will-quit', () => {
+  teardownGlobalEStop()
+})
+
+app.whenReady().then(() => {
+  setupGlobalEStop(() => win)
+  createWindow()
+})
@@ -1,28 +1,48 @@
 import { ipcRenderer, contextBridge } from 'electron'
+import type {
+  ElectronAPI,
+  EventChannel,
+  InvokeArgs,
+  InvokeChannel,
+  InvokeResult,
+  IpcEventChannels,
+  IpcSendChannels,
+  SendChannel,
+} from '../src/utilities/ipc'
 
-// --------- Expose some API to the Renderer process ---------
-contextBridge.exposeInMainWorld('ipcRenderer', {
-  on(...args: Parameters<typeof ipcRenderer.on>) {
-    const [channel, listener] = args
-    return ipcRenderer.on(channel, (event, ...args) => listener(event, ...args))
-  },
-  off(...args: Parameters<typeof ipcRenderer.off>) {
-    const [channel, ...omit] = args
-    return ipcRenderer.off(channel, ...omit)
-  },
-  send(...args: Parameters<typeof ipcRenderer.send>) {
-    const [channel, ...omit] = args
-    return ipcRenderer.send(channel, ...omit)
-  },
-  invoke(...args: Parameters<typeof ipcRenderer.invoke>) {
-    const [channel, ...omit] = args
-    return ipcRenderer.invoke(channel, ...omit)
+// Only the channels of the IPC contract are reachable from the renderer
+const invoke = <C extends InvokeChannel>(channel: C, ...args: InvokeArgs<C>): Promise<InvokeResult<C>> =>
+  ipcRenderer.invoke(channel, ...args)
+
+const send = <C extends SendChannel>(channel: C, ...args: IpcSendChannels[C]) =>
+  ipcRenderer.send(channel, ...args)
+
+const subscribe = <C extends EventChannel>(channel: C, callback: (...args: IpcEventChannels[C]) => void) => {
+  const listener = (_event: Electron.IpcRendererEvent, ...args: unknown[]) =>
+    callback(...(args as IpcEventChannels[C]))
+  ipcRenderer.on(channel, listener)
+  return () => {
+    ipcRenderer.off(channel, listener)
   }
-});
+}
+
+const electronAPI: ElectronAPI = {
+  saveFile: (request) => invoke('save-file', request),
+  saveAsPDF: (request) => invoke('save-as-pdf', request),
+  loadTopicProfiles: () => invoke('load-topic-profiles'),
+  saveTopicProfiles: (config) => invoke('save-topic-profiles', config),
+  loadInspectionSessions: () => invoke('load-inspection-sessions'),
+  saveInspectionSession: (record) => invoke('save-inspection-session', record),
+  loadDefects: () => invoke('load-defects'),
+  saveDefect: (defect, images) => invoke('save-defect', defect, images),
+  loadDefectImage: (id, kind) => invoke('load-defect-image', id, kind),
+  saveInspectionReport: (request) => invoke('save-inspection-report', request),
+  selectReportLogo: () => invoke('select-report-logo'),
+  exportDefects: (request) => invoke('export-defects', request),
+  onDefectExportProgress: (callback) => subscribe('defect-export-progress', callback),
+  setEStopTarget: (target) => send('e-stop-target', target),
+  onGlobalEStop: (callback) => subscribe('global-e-stop', callback),
+  ackGlobalEStop: () => send('global-e-stop-ack'),
+}
 
-contextBridge.exposeInMainWorld('electronAPI', {
-  saveFile: (content: string, filename: string, images: any) => 
-    ipcRenderer.invoke('save-file', { content, filename, images }),
-  saveAsPDF: (defect: any, cameraImage: string, slamMapImage: string, filename: string) => 
-    ipcRenderer.invoke('saveAsPDF', { defect, cameraImage, slamMapImage, filename })
-});
+contextBridge.exposeInMainWorld('electronAPI', electronAPI)
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useCallback } from "react";
 import Camera from "./components/Camera";
 // import Camera from "./components/Camera";
 import SewerDetection from "./components/SewerDetection";
@@ -8,6 +8,9 @@ import Dashboard from "./components/Dashboard";
 import ROSLIB, { Ros } from "roslib";
 import DefectQueueTest from "./components/DefectQueueTest";
 import { DataProvider } from "./context/DataProvider";
+import { useRosContext } from "./context/RosContext";
+import { useTopicProfile } from "./context/TopicProfileContext";
+import { desktopAPI } from "./utilities/desktop";
 
 // Define interfaces for your defect data
 interface Position {
@@ -26,53 +29,17 @@ interface Defect {
 }
 
 function App() {
-  const [connected, setConnected] = useState<boolean>(false);
-  const [ros, setRos] = useState<null | Ros>(null);
+  const { ros, connected } = useRosContext();
+  const { topic } = useTopicProfile();
+  const defectsTopic = topic("defects");
   const [defects, setDefects] = useState<Defect[]>([]);
   
-  // Refs to access camera and SLAM components
-  const cameraRef = useRef<any>(null);
-  const slamRef = useRef<any>(null);
-
-  useEffect(() => {
-    // Create a new ROSLIB.Ros object
-    const newRos = new ROSLIB.Ros({
-      url: "ws://localhost:9090",
-    });
-
-    newRos.on("connection", () => {
-      setConnected(true);
-      console.log("Connected to ros websocket");
-      
-      // Subscribe to defect detection topic once connected
-      subscribeToDefects(newRos);
-    });
-
-    newRos.on("error", (error) => {
-      console.log("Error: ", error);
-    });
-
-    newRos.on("close", () => {
-      setConnected(false);
-      console.log("Connection to websocket server closed");
-    });
-
-    setRos(newRos);
-
-    return () => {
-      newRos.close();
-    };
-  }, []);
-
   // Function to subscribe to defect detection ROS topic
-  const subscribeToDefects = (rosInstance: Ros) => {
-    if (!rosInstance) return;
-    
-    // Replace these with your actual topic name and message type
+  const subscribeToDefects = useCallback((rosInstance: Ros) => {
     const defectTopic = new ROSLIB.Topic({
       ros: rosInstance,
-      name: '/defect_detection/results',
-      messageType: 'defect_msgs/DefectArray'
+      name: defectsTopic.name,
+      messageType: defectsTopic.messageType
     });
 
     defectTopic.subscribe((message: any) => {
@@ -105,24 +72,18 @@ function App() {
         return merged;
       });
     });
-  };
 
-  // Functions to get screenshots from components
-  const getCameraScreenshot = async (defectId: string): Promise<string> => {
-    if (cameraRef.current && cameraRef.current.captureScreenshot) {
-      return cameraRef.current.captureScreenshot(defectId);
-    }
-    // Fallback if method not available
-    return '';
-  };
-  
-  const getSlamMapScreenshot = async (position: Position): Promise<string> => {
-    if (slamRef.current && slamRef.current.captureMapView) {
-      return slamRef.current.captureMapView(position);
+    return () => {
+      defectTopic.unsubscribe();
+    };
+  }, [defectsTopic.name, defectsTopic.messageType]);
+
+  // Re-subscribe to defects whenever the connection manager hands us a new socket
+  useEffect(() => {
+    if (ros && connected) {
+      return subscribeToDefects(ros);
     }
-    // Fallback if method not available
-    return '';
-  };
+  }, [ros, connected, subscribeToDefects]);
 
   // Handle export from DefectQueue
   const handleExport = async ({defect, cameraImage, slamMapImage, format}: {
@@ -131,16 +92,9 @@ function App() {
     slamMapImage: string;
     format: 'csv' | 'pdf';
   }) => {
-    // Access Electron's API through the window object
-    // Make sure your preload.js exposes these methods
-    const electronAPI = (window as any).electron;
-    
-    if (!electronAPI) {
-      console.error("Electron API not available");
-      return;
-    }
-    
     try {
+      const electronAPI = desktopAPI("Defect export");
+
       if (format === 'csv') {
         // Generate CSV content
         const csvContent = `Defect ID,${defect.id}
@@ -161,8 +115,7 @@ Confidence,${defect.confidence.toFixed(2)}%
           }
         });
       } else {
-        // For PDF, we'll need to use a PDF generation library
-        // This would typically be handled in the main Electron process
+        // The PDF is laid out by the main process
         await electronAPI.saveAsPDF({
           defect,
           cameraImage,
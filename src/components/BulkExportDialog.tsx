@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import { Download, X } from "lucide-react";
+import { Defect, useDataContext } from "@/context/DataProvider";
+import { useSession } from "@/context/SessionContext";
+import { BulkExportFormat, BulkExportProgress } from "@/utilities/defectExport";
+import { desktopAPI, isDesktop } from "@/utilities/desktop";
+
+const ALL = "all";
+const FILTERED = "filtered";
+
+interface BulkExportDialogProps {
+  filtered?: Defect[]; // Defects shown by the queue filter, when one is set
+  onClose: () => void;
+}
+
+// Exports every defect, the filtered ones or those of one session, as one CSV
+// or JSON file with their frames and map snapshots in a folder beside it
+function BulkExportDialog({ filtered, onClose }: BulkExportDialogProps) {
+  const { sessions } = useSession();
+  const { defects } = useDataContext();
+
+  const ordered = [...sessions].sort((a, b) => b.startedAt - a.startedAt);
+  const [scope, setScope] = useState<string>(filtered ? FILTERED : ALL);
+  const [format, setFormat] = useState<BulkExportFormat>("csv");
+  const [progress, setProgress] = useState<BulkExportProgress | null>(null);
+  const [message, setMessage] = useState<{ error: boolean; text: string } | null>(null);
+
+  const selected =
+    scope === ALL
+      ? defects
+      : scope === FILTERED
+        ? (filtered ?? [])
+        : defects.filter((d) => d.sessionId === scope);
+  const session = sessions.find((s) => s.id === scope);
+  const busy = progress !== null;
+
+  // Main reports progress per defect while the export runs
+  useEffect(() => {
+    if (!busy || !isDesktop()) return;
+    return desktopAPI("Bulk export").onDefectExportProgress(setProgress);
+  }, [busy]);
+
+  const handleExport = async () => {
+    setProgress({ done: 0, total: selected.length });
+    setMessage(null);
+    try {
+      const result = await desktopAPI("Bulk export").exportDefects({
+        defects: selected,
+        sessions: sessions.filter((s) => selected.some((d) => d.sessionId === s.id)),
+        format,
+        name: `${session ? session.id : scope}_defects`,
+      });
+      if (result.success) {
+        setMessage({
+          error: false,
+          text: `Saved ${result.filePath} with ${result.imageCount} image${result.imageCount === 1 ? "" : "s"} in ${result.imageDir}`,
+        });
+      } else if (result.error !== "Save cancelled") {
+        setMessage({ error: true, text: result.error ?? "Export failed" });
+      }
+    } catch (error) {
+      console.error("Bulk export failed:", error);
+      setMessage({ error: true, text: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center">
+      <div className="bg-white text-gray-800 rounded-lg shadow-lg w-[460px] p-5 text-sm">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-semibold">Export defects</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={busy}
+            className="p-2 rounded-full hover:bg-gray-200 disabled:opacity-50 transition-colors"
+            title="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-3 mb-4">
+          <label className="flex flex-col">
+            <span className="text-gray-500">Defects</span>
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value)}
+              disabled={busy}
+              className="border rounded px-2 py-1"
+            >
+              <option value={ALL}>All defects</option>
+              {filtered && <option value={FILTERED}>Current filter</option>}
+              {ordered.map((s) => (
+                <option key={s.id} value={s.id}>
+                  Session {s.metadata.segmentId} · {new Date(s.startedAt).toLocaleString()}
+                </option>
+              ))}
+            </select>
+            <span className="text-gray-500 text-xs mt-1">
+              {selected.length} defect{selected.length === 1 ? "" : "s"}
+            </span>
+          </label>
+
+          <div className="flex flex-col">
+            <span className="text-gray-500">Format</span>
+            <div className="flex gap-4">
+              {(["csv", "json"] as BulkExportFormat[]).map((f) => (
+                <label key={f} className="flex items-center gap-1">
+                  <input
+                    type="radio"
+                    checked={format === f}
+                    onChange={() => setFormat(f)}
+                    disabled={busy}
+                  />
+                  {f.toUpperCase()}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {progress && (
+          <div className="mb-3">
+            <div className="h-2 bg-gray-200 rounded overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-all"
+                style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+            <span className="text-xs text-gray-500">
+              {progress.done} of {progress.total} defects
+            </span>
+          </div>
+        )}
+
+        <button
+          onClick={handleExport}
+          disabled={busy || selected.length === 0}
+          className="flex items-center px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          <Download size={16} className="mr-2" />
+          {busy ? "Exporting…" : "Export"}
+        </button>
+
+        {message && (
+          <p className={`mt-3 p-2 rounded break-all ${message.error ? "bg-red-50 text-red-800" : "bg-green-50 text-green-800"}`}>
+            {message.text}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default BulkExportDialog;
@@ -1,5 +1,6 @@
 import ROSLIB, { Ros } from "roslib";
 import { useEffect, useState } from "react";
+import { useTopicProfile } from "@/context/TopicProfileContext";
 
 interface CameraProps {
   connection: boolean;
@@ -7,10 +8,10 @@ interface CameraProps {
 }
 
 function Camera({ connection, ros }: CameraProps) {
+  const { topic } = useTopicProfile();
   const [imageSrc, setImageSrc] = useState<string | null>(null);
 
-  const CAMERA_TOPIC = "/husky3/camera_0/color/image_raw/compressed"; // Ensure this topic exists
-  const MESSAGE_TYPE = "sensor_msgs/msg/CompressedImage";
+  const { name: CAMERA_TOPIC, messageType: MESSAGE_TYPE } = topic("camera");
 
   useEffect(() => {
     if (ros && connection) {
@@ -34,7 +35,7 @@ function Camera({ connection, ros }: CameraProps) {
         listener.unsubscribe();
       };
     }
-  }, [ros, connection]);
+  }, [ros, connection, CAMERA_TOPIC, MESSAGE_TYPE]);
 
   return (
     <div className="bg-gray-300 w-[100%]">
@@ -0,0 +1,216 @@
+import { useEffect, useRef, useState } from "react";
+import ROSLIB from "roslib";
+import { useRosContext } from "@/context/RosContext";
+import { useTopicProfile } from "@/context/TopicProfileContext";
+import { TopicKey } from "@/utilities/topicProfile";
+
+interface MonitoredTopic {
+  key: TopicKey;
+  label: string;
+  staleAfter: number; // ms without a message before the topic is flagged
+}
+
+interface TopicHealth {
+  rate: number; // messages per second over the last sample window
+  lastReceived: number | null;
+}
+
+// Topics the operators care about when the UI looks frozen
+const MONITORED_TOPICS: MonitoredTopic[] = [
+  { key: "camera", label: "Camera", staleAfter: 2000 },
+  { key: "map", label: "Map", staleAfter: 5000 },
+  { key: "path", label: "Path", staleAfter: 5000 },
+  { key: "currentPose", label: "Pose", staleAfter: 2000 },
+];
+
+const SAMPLE_INTERVAL = 1000; // ms between rate/bandwidth samples
+const PING_INTERVAL = 2000; // ms between latency probes
+const PING_TIMEOUT = 5000;
+
+const formatAge = (lastReceived: number | null, now: number): string => {
+  if (lastReceived === null) return "never";
+  const age = now - lastReceived;
+  if (age < 1000) return `${age}ms ago`;
+  return `${(age / 1000).toFixed(1)}s ago`;
+};
+
+const formatBandwidth = (bytesPerSecond: number): string => {
+  if (bytesPerSecond >= 1024 * 1024) return `${(bytesPerSecond / 1024 / 1024).toFixed(2)} MB/s`;
+  if (bytesPerSecond >= 1024) return `${(bytesPerSecond / 1024).toFixed(1)} KB/s`;
+  return `${Math.round(bytesPerSecond)} B/s`;
+};
+
+function ConnectionHealth() {
+  const { ros, connected } = useRosContext();
+  const { topic } = useTopicProfile();
+  const [latency, setLatency] = useState<number | null>(null);
+  const [bandwidth, setBandwidth] = useState<number>(0);
+  const [topicHealth, setTopicHealth] = useState<Record<string, TopicHealth>>({});
+  const [now, setNow] = useState<number>(Date.now());
+
+  // Raw counters, sampled into state once per SAMPLE_INTERVAL
+  const countsRef = useRef<Record<string, number>>({});
+  const lastReceivedRef = useRef<Record<string, number>>({});
+  const bytesRef = useRef<number>(0);
+
+  // Count messages and bytes flowing over the current socket. Listening on
+  // the Ros emitter piggybacks on the components' own subscriptions.
+  useEffect(() => {
+    if (!ros || !connected) return;
+
+    countsRef.current = {};
+    bytesRef.current = 0;
+
+    const handlers = MONITORED_TOPICS.map((monitored) => {
+      const handler = () => {
+        countsRef.current[monitored.key] = (countsRef.current[monitored.key] || 0) + 1;
+        lastReceivedRef.current[monitored.key] = Date.now();
+      };
+      const name = topic(monitored.key).name;
+      ros.on(name, handler);
+      return { name, handler };
+    });
+
+    const socket = (ros as unknown as { socket?: WebSocket }).socket;
+    const handleSocketMessage = (event: MessageEvent) => {
+      const data = event.data;
+      if (typeof data === "string") {
+        bytesRef.current += data.length;
+      } else if (data instanceof Blob) {
+        bytesRef.current += data.size;
+      } else if (data instanceof ArrayBuffer) {
+        bytesRef.current += data.byteLength;
+      }
+    };
+    socket?.addEventListener?.("message", handleSocketMessage);
+
+    let lastSample = Date.now();
+    const sampler = setInterval(() => {
+      const sampleTime = Date.now();
+      const elapsed = (sampleTime - lastSample) / 1000;
+      lastSample = sampleTime;
+
+      const health: Record<string, TopicHealth> = {};
+      for (const monitored of MONITORED_TOPICS) {
+        health[monitored.key] = {
+          rate: (countsRef.current[monitored.key] || 0) / elapsed,
+          lastReceived: lastReceivedRef.current[monitored.key] ?? null,
+        };
+      }
+      countsRef.current = {};
+
+      setTopicHealth(health);
+      setBandwidth(bytesRef.current / elapsed);
+      bytesRef.current = 0;
+      setNow(sampleTime);
+    }, SAMPLE_INTERVAL);
+
+    return () => {
+      clearInterval(sampler);
+      handlers.forEach(({ name, handler }) => ros.off(name, handler));
+      socket?.removeEventListener?.("message", handleSocketMessage);
+    };
+  }, [ros, connected, topic]);
+
+  // Round-trip latency, measured with a cheap rosapi service call
+  useEffect(() => {
+    if (!ros || !connected) {
+      setLatency(null);
+      return;
+    }
+
+    const timeService = new ROSLIB.Service({
+      ros,
+      name: "/rosapi/get_time",
+      serviceType: "rosapi/GetTime",
+    });
+
+    let pending = false;
+    let stopped = false;
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+    const ping = () => {
+      if (pending) return;
+      pending = true;
+
+      // A probe settles once, by its answer or its timeout; a late answer to a
+      // timed out probe must not overwrite the result or free a newer probe
+      let settled = false;
+      const settle = (result: number | null) => {
+        if (settled || stopped) return;
+        settled = true;
+        if (timeout) clearTimeout(timeout);
+        pending = false;
+        setLatency(result);
+      };
+
+      const sentAt = performance.now();
+      timeout = setTimeout(() => settle(null), PING_TIMEOUT);
+
+      timeService.callService(
+        {},
+        () => settle(performance.now() - sentAt),
+        (error) => {
+          if (!settled) console.warn("Latency probe failed:", error);
+          settle(null);
+        }
+      );
+    };
+
+    ping();
+    const pinger = setInterval(ping, PING_INTERVAL);
+
+    return () => {
+      stopped = true;
+      clearInterval(pinger);
+      if (timeout) clearTimeout(timeout);
+    };
+  }, [ros, connected]);
+
+  return (
+    <div className="rounded-lg bg-gray-200 w-[100%] px-5 py-3 text-sm">
+      <div className="flex justify-between mb-2">
+        <p>
+          <span className="font-semibold">Latency: </span>
+          {connected && latency !== null ? `${latency.toFixed(0)} ms` : "—"}
+        </p>
+        <p>
+          <span className="font-semibold">Bandwidth: </span>
+          {connected ? formatBandwidth(bandwidth) : "—"}
+        </p>
+      </div>
+      <table className="w-[100%]">
+        <thead>
+          <tr className="text-left text-gray-600">
+            <th className="font-medium">Topic</th>
+            <th className="font-medium">Rate</th>
+            <th className="font-medium">Last message</th>
+          </tr>
+        </thead>
+        <tbody>
+          {MONITORED_TOPICS.map((monitored) => {
+            const health = topicHealth[monitored.key];
+            const lastReceived = health?.lastReceived ?? null;
+            const stale = !connected || lastReceived === null || now - lastReceived > monitored.staleAfter;
+
+            return (
+              <tr key={monitored.key} title={topic(monitored.key).name} className={stale ? "text-red-600" : ""}>
+                <td>
+                  {monitored.label}
+                  {stale && (
+                    <span className="ml-2 px-1.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                      stale
+                    </span>
+                  )}
+                </td>
+                <td>{health ? `${health.rate.toFixed(1)} Hz` : "—"}</td>
+                <td>{formatAge(lastReceived, now)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default ConnectionHealth;
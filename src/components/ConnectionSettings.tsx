@@ -0,0 +1,59 @@
+import { FormEvent, useEffect, useState } from "react";
+import { useRosContext, ConnectionStatus } from "@/context/RosContext";
+
+const STATUS_STYLES: Record<ConnectionStatus, string> = {
+  connecting: "bg-yellow-400",
+  connected: "bg-green-400",
+  reconnecting: "bg-orange-400",
+  failed: "bg-red-400",
+};
+
+function ConnectionSettings() {
+  const { status, url, attempt, retryDelay, setUrl, reconnect } = useRosContext();
+  const [draftUrl, setDraftUrl] = useState<string>(url);
+
+  // Keep the field in sync if the URL changes elsewhere
+  useEffect(() => {
+    setDraftUrl(url);
+  }, [url]);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const trimmed = draftUrl.trim();
+    if (!trimmed) return;
+
+    if (trimmed === url) {
+      reconnect();
+    } else {
+      setUrl(trimmed);
+    }
+  };
+
+  let statusText: string = status;
+  if (status === "reconnecting" && retryDelay !== null) {
+    statusText = `reconnecting (attempt ${attempt}, ${Math.round(retryDelay / 1000)}s)`;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center gap-3 text-white">
+      <span className={`h-3.5 w-3.5 rounded-2xl ${STATUS_STYLES[status]}`} />
+      <span className="text-sm w-52">{statusText}</span>
+      <input
+        type="text"
+        value={draftUrl}
+        onChange={(e) => setDraftUrl(e.target.value)}
+        className="bg-indigo-800 border border-indigo-500 rounded px-2 py-1 text-sm w-60"
+        spellCheck={false}
+        aria-label="Rosbridge URL"
+      />
+      <button
+        type="submit"
+        className="bg-indigo-600 hover:bg-indigo-500 rounded px-3 py-1 text-sm font-semibold transition-colors"
+      >
+        {status === "failed" ? "Retry" : "Connect"}
+      </button>
+    </form>
+  );
+}
+
+export default ConnectionSettings;
@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Defect, useDataContext } from "@/context/DataProvider";
+import { DefectImageKind } from "@/utilities/inspectionStore";
+
+interface ClipEntry {
+  kind: DefectImageKind;
+  offsetMs: number;
+}
+
+// Steps through the frames recorded around a detection, starting on the
+// detection frame itself
+function DefectClip({ defect }: { defect: Defect }) {
+  const { getDefectImage } = useDataContext();
+
+  const detectionFrame: ClipEntry = { kind: "frame", offsetMs: 0 };
+  const entries: ClipEntry[] = [
+    detectionFrame,
+    ...defect.clip.map((f, i): ClipEntry => ({ kind: `clip-${i}`, offsetMs: f.offsetMs })),
+  ].sort((a, b) => a.offsetMs - b.offsetMs);
+  const detectionIndex = entries.indexOf(detectionFrame);
+
+  const [index, setIndex] = useState<number>(detectionIndex);
+  const [src, setSrc] = useState<string | null>(null);
+  const entry = entries[index] ?? entries[detectionIndex];
+
+  // Back to the detection frame when another defect is shown or its clip arrives
+  useEffect(() => {
+    setIndex(detectionIndex);
+  }, [defect.id, detectionIndex]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getDefectImage(defect.id, entry.kind)
+      .then((image) => {
+        if (!cancelled) setSrc(image);
+      })
+      .catch((error) => console.error(`Failed to load ${entry.kind} for ${defect.id}:`, error));
+    return () => {
+      cancelled = true;
+    };
+  }, [defect.id, entry.kind, getDefectImage]);
+
+  const buttonStyle = "p-1 rounded hover:bg-gray-200 disabled:opacity-30 transition-colors";
+
+  return (
+    <div className="mb-4">
+      {src ? (
+        <img src={src} alt={`Defect ${defect.id}`} className="w-full rounded" />
+      ) : (
+        <div className="w-full aspect-video rounded bg-gray-200 flex items-center justify-center text-xs text-gray-500">
+          No frame stored
+        </div>
+      )}
+      {entries.length > 1 && (
+        <div className="flex items-center justify-between mt-1 text-xs text-gray-600">
+          <button
+            onClick={() => setIndex((i) => Math.max(0, i - 1))}
+            disabled={index === 0}
+            className={buttonStyle}
+            title="Previous frame"
+          >
+            <ChevronLeft size={16} />
+          </button>
+          <span>
+            {entry.kind === "frame"
+              ? "Detection frame"
+              : `${entry.offsetMs > 0 ? "+" : ""}${(entry.offsetMs / 1000).toFixed(2)} s`}
+            {` · ${index + 1}/${entries.length}`}
+          </span>
+          <button
+            onClick={() => setIndex((i) => Math.min(entries.length - 1, i + 1))}
+            disabled={index === entries.length - 1}
+            className={buttonStyle}
+            title="Next frame"
+          >
+            <ChevronRight size={16} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DefectClip;
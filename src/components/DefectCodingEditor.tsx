@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, Check } from "lucide-react";
+import { Defect, useDataContext } from "@/context/DataProvider";
+import {
+  PACP_CODES,
+  PACP_FAMILY_LABELS,
+  PacpCoding,
+  PacpFamily,
+  continuousIssues,
+  pacpEntry,
+} from "@/utilities/pacp";
+
+const FAMILIES = Object.keys(PACP_FAMILY_LABELS) as PacpFamily[];
+const GRADES = [1, 2, 3, 4, 5];
+
+// PACP code, grade, continuous marker and remarks of one defect, as the
+// operator reviews what the model suggested
+function DefectCodingEditor({ defect }: { defect: Defect }) {
+  const { defects, updateDefectCoding } = useDataContext();
+  const { coding } = defect;
+  const entry = pacpEntry(coding.code);
+
+  // Remarks are saved when the field loses focus, not on every keystroke
+  const [remarks, setRemarks] = useState<string>(coding.remarks);
+  useEffect(() => {
+    setRemarks(coding.remarks);
+  }, [defect.id, coding.remarks]);
+
+  const update = (changes: Partial<PacpCoding>) =>
+    updateDefectCoding(defect.id, { ...coding, ...changes, operatorCoded: true });
+
+  const changeCode = (code: string) => {
+    const next = pacpEntry(code);
+    update({ code, grade: next?.grade ?? null, continuous: next?.continuous ? coding.continuous : null });
+  };
+
+  const marker = coding.continuous?.[0] ?? "";
+  const markerNumber = coding.continuous ? Number(coding.continuous.slice(1)) : 1;
+  const setContinuous = (type: string, number: number) =>
+    update({ continuous: type ? `${type}${String(Math.min(99, Math.max(1, number))).padStart(2, "0")}` : null });
+
+  // Start/finish pairs are checked along the whole session
+  const issues = continuousIssues(defects.filter((d) => d.sessionId === defect.sessionId)).filter((issue) =>
+    issue.startsWith(`${defect.id}:`)
+  );
+
+  return (
+    <div className="mb-4 text-sm border rounded p-2 bg-white">
+      <div className="flex justify-between items-center mb-2">
+        <span className="font-medium">PACP coding</span>
+        {coding.operatorCoded ? (
+          <span className="text-xs text-green-700 flex items-center">
+            <Check size={12} className="mr-1" />
+            Operator coded
+          </span>
+        ) : (
+          <button
+            type="button"
+            onClick={() => update({})}
+            className="text-xs px-2 py-0.5 border rounded hover:bg-gray-100 transition-colors"
+            title="Accept the code suggested by the model"
+          >
+            Confirm suggestion
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col col-span-2">
+          <span className="text-gray-500">Code</span>
+          <select
+            value={coding.code}
+            onChange={(e) => changeCode(e.target.value)}
+            className="border rounded px-2 py-1"
+          >
+            {!entry && <option value={coding.code}>{coding.code}</option>}
+            {FAMILIES.map((family) => (
+              <optgroup key={family} label={PACP_FAMILY_LABELS[family]}>
+                {PACP_CODES.filter((c) => c.family === family).map((c) => (
+                  <option key={c.code} value={c.code}>
+                    {c.code} – {c.description}
+                  </option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col">
+          <span className="text-gray-500">
+            {entry?.family === "om" ? "O&M grade" : entry?.family === "structural" ? "Structural grade" : "Grade"}
+          </span>
+          <select
+            value={coding.grade ?? ""}
+            onChange={(e) => update({ grade: e.target.value ? Number(e.target.value) : null })}
+            disabled={entry?.family === "miscellaneous"}
+            className="border rounded px-2 py-1 disabled:bg-gray-100"
+          >
+            <option value="">Not graded</option>
+            {GRADES.map((grade) => (
+              <option key={grade} value={grade}>
+                {grade}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="flex flex-col">
+          <span className="text-gray-500">Continuous</span>
+          <div className="flex gap-1">
+            <select
+              value={marker}
+              onChange={(e) => setContinuous(e.target.value, markerNumber)}
+              className="border rounded px-1 py-1 flex-1"
+            >
+              <option value="">No</option>
+              <option value="S">Start</option>
+              <option value="F">Finish</option>
+            </select>
+            <input
+              type="number"
+              min={1}
+              max={99}
+              value={markerNumber}
+              onChange={(e) => setContinuous(marker, Number(e.target.value) || 1)}
+              disabled={!marker}
+              className="border rounded px-1 py-1 w-12 disabled:bg-gray-100"
+            />
+          </div>
+        </div>
+
+        <label className="flex flex-col col-span-2">
+          <span className="text-gray-500">Remarks</span>
+          <textarea
+            value={remarks}
+            onChange={(e) => setRemarks(e.target.value)}
+            onBlur={() => remarks !== coding.remarks && update({ remarks })}
+            rows={2}
+            className="border rounded px-2 py-1"
+          />
+        </label>
+      </div>
+
+      {issues.map((issue) => (
+        <p key={issue} className="mt-2 text-xs text-amber-700 flex items-center">
+          <AlertTriangle size={12} className="mr-1 shrink-0" />
+          {issue.slice(defect.id.length + 2)}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export default DefectCodingEditor;
@@ -1,29 +1,44 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
-import React, { useState, useEffect } from 'react';
-import { Download, MapPin, Camera, List, PanelBottomClose, ChevronDown, FileText } from 'lucide-react';
-import { useDataContext } from "@/context/DataProvider";
-
-// TypeScript interfaces
-interface Position {
-  x: number;
-  y: number;
-  z: number;
-}
-
-interface Defect {
-  id: string;
-  timestamp: number;
-  position: Position;
-  severity: string;
-  type: string;
-  confidence: number;
-}
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Download, MapPin, Camera, List, PanelBottomClose, ChevronDown, FileText, FolderDown } from 'lucide-react';
+import { Defect, Position, useDataContext } from "@/context/DataProvider";
+import { useSession } from "@/context/SessionContext";
+import { useVirtualList } from "@/hooks/useVirtualList";
+import {
+  DefectFilter,
+  DefectQueueView,
+  EMPTY_FILTER,
+  NO_SESSION,
+  filterDefects,
+  groupBySegment,
+  isFilterActive,
+  sortDefects,
+  validateQueueView,
+} from "@/utilities/defectFilter";
+import { formatChainage, formatClock } from "@/utilities/pipePosition";
+import { loadSetting, saveSetting } from "@/utilities/settings";
+import BulkExportDialog from "./BulkExportDialog";
+import DefectClip from "./DefectClip";
+import DefectCodingEditor from "./DefectCodingEditor";
+import DefectFilterBar from "./DefectFilterBar";
+import DefectThumbnail from "./DefectThumbnail";
+import ReportDialog from "./ReportDialog";
 
 // Define the minimal props we need
 interface DefectQueueProps {
   className?: string;
 }
 
+const VIEW_SETTINGS_KEY = "defectQueueView";
+
+// Rows have fixed heights so the list can be virtualized without measuring
+const GROUP_ROW_HEIGHT = 28;
+const DEFECT_ROW_HEIGHT = 128;
+
+type QueueRow =
+  | { kind: 'group'; key: string; label: string; count: number }
+  | { kind: 'defect'; defect: Defect };
+
 // Main DefectQueue component
 const DefectQueue: React.FC<DefectQueueProps> = ({
   className = ''
@@ -31,19 +46,64 @@ const DefectQueue: React.FC<DefectQueueProps> = ({
   const { 
     defects, 
     exportCSV,
-    downloadImages
+    downloadImages,
+    storeErrors,
+    selectedDefectId,
+    selectDefect
   } = useDataContext();
+  const { sessions, storeErrors: sessionStoreErrors } = useSession();
+  const restoreErrors = [...sessionStoreErrors, ...storeErrors];
+  const [showReport, setShowReport] = useState<boolean>(false);
+  const [showExport, setShowExport] = useState<boolean>(false);
+  const [filter, setFilter] = useState<DefectFilter>(EMPTY_FILTER);
+  const [view, setView] = useState<DefectQueueView>(() =>
+    validateQueueView(loadSetting<unknown>(VIEW_SETTINGS_KEY, null))
+  );
+  const listRef = useRef<HTMLDivElement>(null);
+  const scrolledToRef = useRef<string | null>(null);
   
-  const [selectedDefect, setSelectedDefect] = useState<Defect | null>(null);
+  const selectedDefect = defects.find(d => d.id === selectedDefectId) ?? null;
+
+  const segmentOf = (defect: Defect): string | null =>
+    sessions.find(s => s.id === defect.sessionId)?.metadata.segmentId ?? null;
+
+  const updateView = (next: DefectQueueView) => {
+    setView(next);
+    saveSetting(VIEW_SETTINGS_KEY, next);
+  };
+
+  // Chip choices come from what is in the queue
+  const types = useMemo(() => [...new Set(defects.map(d => d.type))].sort(), [defects]);
+  const sessionIds = useMemo(() => [...new Set(defects.map(d => d.sessionId ?? NO_SESSION))], [defects]);
+
+  const visible = useMemo(
+    () => sortDefects(filterDefects(defects, filter), view.sort),
+    [defects, filter, view.sort]
+  );
+
+  const rows = useMemo((): QueueRow[] => {
+    if (!view.groupBySegment) return visible.map(defect => ({ kind: 'defect', defect }));
+    return groupBySegment(visible, sessions).flatMap((group): QueueRow[] => [
+      { kind: 'group', key: group.key, label: group.label, count: group.defects.length },
+      ...group.defects.map((defect): QueueRow => ({ kind: 'defect', defect })),
+    ]);
+  }, [visible, view.groupBySegment, sessions]);
+
+  const heights = useMemo(
+    () => rows.map(row => (row.kind === 'group' ? GROUP_ROW_HEIGHT : DEFECT_ROW_HEIGHT)),
+    [rows]
+  );
+  const { start, end, offsetOf, totalHeight, scrollToIndex } = useVirtualList(listRef, heights);
+
+  const selectedRow = rows.findIndex(row => row.kind === 'defect' && row.defect.id === selectedDefectId);
   
-  // Clear selection if defects list changes
+  // Bring the selection into view when it was made from the SLAM view, once
+  // per selection so new defects arriving don't pull the list back
   useEffect(() => {
-    if (defects.length === 0) {
-      setSelectedDefect(null);
-    } else if (selectedDefect && !defects.find(d => d.id === selectedDefect.id)) {
-      setSelectedDefect(null);
-    }
-  }, [defects, selectedDefect]);
+    if (selectedDefectId === scrolledToRef.current || selectedRow === -1) return;
+    scrolledToRef.current = selectedDefectId;
+    scrollToIndex(selectedRow);
+  }, [selectedDefectId, selectedRow, scrollToIndex]);
 
   // Handle export CSV button click
   const handleExportCSV = async (): Promise<void> => {
@@ -75,50 +135,138 @@ const DefectQueue: React.FC<DefectQueueProps> = ({
           <List className="mr-2" size={18} />
           Defects Queue
         </h2>
-        <span className="bg-blue-100 text-blue-800 px-2 py-1 rounded-full text-xs font-medium">
-          {defects.length} detected
-        </span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowReport(true)}
+            className="flex items-center px-2 py-1 text-xs border rounded hover:bg-gray-200 transition-colors"
+            title="Save a PDF report for an inspection session"
+          >
+            <FileText size={14} className="mr-1" />
+            Report
+          </button>
+          <button
+            onClick={() => setShowExport(true)}
+            disabled={defects.length === 0}
+            className="flex items-center px-2 py-1 text-xs border rounded hover:bg-gray-200 disabled:opacity-50 transition-colors"
+            title="Export defects with their images"
+          >
+            <FolderDown size={14} className="mr-1" />
+            Export
+          </button>
+          <span className="bg-blue-100 text-blue-800 px-2 py-1 rounded-full text-xs font-medium">
+            {isFilterActive(filter) ? `${visible.length} of ${defects.length}` : `${defects.length} detected`}
+          </span>
+        </div>
       </div>
+
+      {showReport && <ReportDialog onClose={() => setShowReport(false)} />}
+      {showExport && (
+        <BulkExportDialog
+          filtered={isFilterActive(filter) ? visible : undefined}
+          onClose={() => setShowExport(false)}
+        />
+      )}
       
+      {restoreErrors.length > 0 && (
+        <details className="px-3 py-2 bg-yellow-50 text-yellow-800 text-xs border-b">
+          <summary className="cursor-pointer">
+            {restoreErrors.length} saved record{restoreErrors.length === 1 ? '' : 's'} could not be restored
+          </summary>
+          <ul className="mt-1 list-disc list-inside">
+            {restoreErrors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        </details>
+      )}
+
+      {defects.length > 0 && (
+        <DefectFilterBar
+          filter={filter}
+          onFilterChange={setFilter}
+          view={view}
+          onViewChange={updateView}
+          types={types}
+          sessionIds={sessionIds}
+        />
+      )}
+
       {/* Defects List */}
       <div className="flex flex-col flex-1 overflow-hidden">
-        <div className="overflow-y-auto flex-1">
+        {/* Stays mounted so the virtual list keeps its scroll listener */}
+        <div ref={listRef} className="overflow-y-auto h-80">
           {defects.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-full text-gray-500 p-6">
               <MapPin size={32} />
               <p className="mt-2">No defects detected</p>
             </div>
+          ) : rows.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-full text-gray-500 p-6">
+              <p>No defects match the filters</p>
+              <button
+                onClick={() => setFilter(EMPTY_FILTER)}
+                className="mt-2 text-xs text-blue-600 hover:underline"
+              >
+                Clear filters
+              </button>
+            </div>
           ) : (
-            <ul className="divide-y overflow-y-auto h-80">
-              {defects.map(defect => (
-                <li 
-                  key={defect.id}
-                  className={`p-3 cursor-pointer hover:bg-gray-50 transition-colors ${
-                    selectedDefect?.id === defect.id ? 'bg-blue-50 border-l-4 border-blue-500' : ''
-                  }`}
-                  onClick={() => setSelectedDefect(defect)}
-                >
-                  <div className="flex justify-between items-start">
-                    <div>
-                      <h3 className="font-medium">Defect #{defect.id}</h3>
-                      <p className="text-sm text-gray-600">
-                        {new Date(defect.timestamp).toLocaleString()}
-                      </p>
-                      <p className="text-sm text-gray-500 mt-1">
-                        <span className="flex items-center">
-                          <MapPin size={14} className="mr-1" />
-                          Position: {formatPosition(defect.position)}
-                        </span>
-                      </p>
+            <ul className="relative" style={{ height: totalHeight }}>
+              {rows.slice(start, end).map((row, i) => {
+                const top = offsetOf(start + i);
+                if (row.kind === 'group') {
+                  return (
+                    <li
+                      key={`group-${row.key}`}
+                      className="absolute inset-x-0 px-3 flex items-center justify-between bg-gray-100 border-b text-xs font-semibold text-gray-600"
+                      style={{ top, height: GROUP_ROW_HEIGHT }}
+                    >
+                      <span>{row.label}</span>
+                      <span className="font-normal">{row.count}</span>
+                    </li>
+                  );
+                }
+                const { defect } = row;
+                return (
+                  <li 
+                    key={defect.id}
+                    className={`absolute inset-x-0 p-3 border-b overflow-hidden cursor-pointer hover:bg-gray-50 transition-colors ${
+                      selectedDefect?.id === defect.id ? 'bg-blue-50 border-l-4 border-l-blue-500' : 'bg-white'
+                    }`}
+                    style={{ top, height: DEFECT_ROW_HEIGHT }}
+                    onClick={() => selectDefect(defect.id)}
+                  >
+                    <div className="flex justify-between items-start">
+                      <div className="flex gap-2">
+                        <DefectThumbnail defectId={defect.id} className="w-16 h-12 shrink-0" />
+                        <div>
+                          <h3 className="font-medium">Defect #{defect.id}</h3>
+                          <p className="text-xs text-gray-600">
+                            <span className="font-mono">{defect.coding.code}</span> · {defect.type}
+                          </p>
+                          <p className="text-sm text-gray-600">
+                            {new Date(defect.timestamp).toLocaleString()}
+                          </p>
+                          <p className="text-sm text-gray-500 mt-1">
+                            <span className="flex items-center">
+                              <MapPin size={14} className="mr-1" />
+                              {defect.chainage !== null
+                                ? `${formatChainage(defect.chainage)} · ${formatClock(defect.clock)}`
+                                : `Position: ${formatDefectPosition(defect)}`}
+                            </span>
+                          </p>
+                          {segmentOf(defect) && (
+                            <p className="text-xs text-gray-500">Segment {segmentOf(defect)}</p>
+                          )}
+                        </div>
+                      </div>
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                        getDefectSeverityClass(defect.severity)
+                      }`}>
+                        {defect.severity}
+                      </span>
                     </div>
-                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                      getDefectSeverityClass(defect.severity)
-                    }`}>
-                      {defect.severity}
-                    </span>
-                  </div>
-                </li>
-              ))}
+                  </li>
+                );
+              })}
             </ul>
           )}
         </div>
@@ -128,7 +276,7 @@ const DefectQueue: React.FC<DefectQueueProps> = ({
             <div className="flex justify-between items-center">
               <h3 className="font-medium">#{selectedDefect.id}</h3>
               <button 
-                onClick={() => setSelectedDefect(null)} 
+                onClick={() => selectDefect(null)} 
                 className="flex p-2 rounded-full hover:bg-gray-200 transition-colors"
                 title="Close details"
               >
@@ -143,10 +291,28 @@ const DefectQueue: React.FC<DefectQueueProps> = ({
               </div>
             </div>
 
+            <DefectClip defect={selectedDefect} />
+
+            <DefectCodingEditor defect={selectedDefect} />
+
             <div className="grid grid-cols-2 gap-2 mb-4 text-sm">
               <div>
                 <span className="text-gray-500">Position:</span> 
-                <span className="font-medium ml-1">{formatPosition(selectedDefect.position)}</span>
+                <span className="font-medium ml-1">{formatDefectPosition(selectedDefect)}</span>
+              </div>
+              <div>
+                <span className="text-gray-500">Located at:</span>
+                <span className="font-medium ml-1">
+                  {selectedDefect.worldPosition ? formatPosition(selectedDefect.worldPosition) : 'Not localized'}
+                </span>
+              </div>
+              <div>
+                <span className="text-gray-500">Chainage:</span>
+                <span className="font-medium ml-1">{formatChainage(selectedDefect.chainage)}</span>
+              </div>
+              <div>
+                <span className="text-gray-500">Clock:</span>
+                <span className="font-medium ml-1">{formatClock(selectedDefect.clock)}</span>
               </div>
               <div>
                 <span className="text-gray-500">Detected:</span>
@@ -162,6 +328,10 @@ const DefectQueue: React.FC<DefectQueueProps> = ({
                 <span className="text-gray-500">Confidence:</span>
                 <span className="font-medium ml-1">{selectedDefect.confidence.toFixed(2)}%</span>
               </div>
+              <div className="col-span-2">
+                <span className="text-gray-500">Segment:</span>
+                <span className="font-medium ml-1">{segmentOf(selectedDefect) ?? 'No inspection'}</span>
+              </div>
             </div>
 
             <div className="flex space-x-2">
@@ -193,6 +363,10 @@ const formatPosition = (pos: Position): string => {
   return `(${pos.x.toFixed(2)}, ${pos.y.toFixed(2)}, ${pos.z.toFixed(2)})`;
 };
 
+// Position is only meaningful when a robot pose was available at detection
+const formatDefectPosition = (defect: Defect): string =>
+  defect.pose ? formatPosition(defect.position) : 'Unknown';
+
 const getDefectSeverityClass = (severity: string): string => {
   switch (severity.toLowerCase()) {
     case 'critical':
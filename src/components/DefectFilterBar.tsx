@@ -0,0 +1,231 @@
+import { ReactNode, useState } from "react";
+import { ArrowDown, ArrowUp, Filter, Layers, Search, X } from "lucide-react";
+import { useSession } from "@/context/SessionContext";
+import {
+  DefectFilter,
+  DefectQueueView,
+  DefectSortKey,
+  EMPTY_FILTER,
+  NO_SESSION,
+  SORT_LABELS,
+  isFilterActive,
+} from "@/utilities/defectFilter";
+import { SEVERITY_ORDER } from "@/utilities/inspectionReport";
+
+interface DefectFilterBarProps {
+  filter: DefectFilter;
+  onFilterChange: (filter: DefectFilter) => void;
+  view: DefectQueueView;
+  onViewChange: (view: DefectQueueView) => void;
+  types: string[]; // Types present in the queue
+  sessionIds: string[]; // Sessions present in the queue, NO_SESSION included
+}
+
+// Adds or removes value from a chip selection
+const toggle = (values: string[], value: string): string[] =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+// datetime-local inputs work in local time without seconds
+const toLocalInput = (ms: number | null): string => {
+  if (ms === null) return "";
+  const date = new Date(ms);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string): number | null => {
+  const ms = new Date(value).getTime();
+  return value && Number.isFinite(ms) ? ms : null;
+};
+
+function Chip({ active, onClick, children }: { active: boolean; onClick: () => void; children: ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`px-2 py-0.5 rounded-full border text-xs transition-colors ${
+        active ? "bg-blue-600 border-blue-600 text-white" : "bg-white hover:bg-gray-100"
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+// Search, sort and grouping above the defect queue, with the filter chips folded away
+function DefectFilterBar({ filter, onFilterChange, view, onViewChange, types, sessionIds }: DefectFilterBarProps) {
+  const { sessions } = useSession();
+  const [expanded, setExpanded] = useState<boolean>(false);
+  const active = isFilterActive(filter);
+
+  const update = (changes: Partial<DefectFilter>) => onFilterChange({ ...filter, ...changes });
+
+  const sessionLabel = (id: string): string => {
+    if (id === NO_SESSION) return "No inspection";
+    const session = sessions.find((s) => s.id === id);
+    return session ? `${session.metadata.segmentId} · ${new Date(session.startedAt).toLocaleDateString()}` : id;
+  };
+
+  return (
+    <div className="px-3 py-2 border-b bg-gray-50 text-xs flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <label className="flex items-center flex-1 border rounded bg-white px-2">
+          <Search size={14} className="text-gray-400 shrink-0" />
+          <input
+            type="search"
+            value={filter.search}
+            onChange={(e) => update({ search: e.target.value })}
+            placeholder="Search ID or remarks"
+            className="w-full px-1 py-1 outline-none"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className={`flex items-center px-2 py-1 border rounded transition-colors ${
+            active ? "bg-blue-100 text-blue-800" : "hover:bg-gray-200"
+          }`}
+          title="Filter by severity, type, session, confidence and time"
+        >
+          <Filter size={14} className="mr-1" />
+          Filters
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="text-gray-500">Sort</span>
+        <select
+          value={view.sort.key}
+          onChange={(e) => onViewChange({ ...view, sort: { ...view.sort, key: e.target.value as DefectSortKey } })}
+          className="border rounded px-1 py-0.5 bg-white"
+        >
+          {(Object.keys(SORT_LABELS) as DefectSortKey[]).map((key) => (
+            <option key={key} value={key}>
+              {SORT_LABELS[key]}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => onViewChange({ ...view, sort: { ...view.sort, descending: !view.sort.descending } })}
+          className="p-1 border rounded hover:bg-gray-200 transition-colors"
+          title={view.sort.descending ? "Descending" : "Ascending"}
+        >
+          {view.sort.descending ? <ArrowDown size={14} /> : <ArrowUp size={14} />}
+        </button>
+        <button
+          type="button"
+          onClick={() => onViewChange({ ...view, groupBySegment: !view.groupBySegment })}
+          className={`flex items-center px-2 py-0.5 border rounded transition-colors ${
+            view.groupBySegment ? "bg-blue-100 text-blue-800" : "hover:bg-gray-200"
+          }`}
+          title="Group by pipe segment"
+        >
+          <Layers size={14} className="mr-1" />
+          Segments
+        </button>
+        {active && (
+          <button
+            type="button"
+            onClick={() => onFilterChange(EMPTY_FILTER)}
+            className="flex items-center ml-auto text-gray-500 hover:text-gray-800"
+            title="Clear all filters"
+          >
+            <X size={14} className="mr-0.5" />
+            Clear
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="flex flex-col gap-2 pt-1">
+          <div className="flex flex-wrap gap-1">
+            {SEVERITY_ORDER.map((severity) => (
+              <Chip
+                key={severity}
+                active={filter.severities.includes(severity)}
+                onClick={() => update({ severities: toggle(filter.severities, severity) })}
+              >
+                {severity}
+              </Chip>
+            ))}
+          </div>
+
+          {types.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {types.map((type) => (
+                <Chip key={type} active={filter.types.includes(type)} onClick={() => update({ types: toggle(filter.types, type) })}>
+                  {type}
+                </Chip>
+              ))}
+            </div>
+          )}
+
+          {sessionIds.length > 1 && (
+            <div className="flex flex-wrap gap-1">
+              {sessionIds.map((id) => (
+                <Chip
+                  key={id}
+                  active={filter.sessions.includes(id)}
+                  onClick={() => update({ sessions: toggle(filter.sessions, id) })}
+                >
+                  {sessionLabel(id)}
+                </Chip>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <span className="text-gray-500 w-20">Confidence</span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={filter.minConfidence}
+              onChange={(e) => update({ minConfidence: Math.min(Number(e.target.value), filter.maxConfidence) })}
+              className="flex-1"
+              title="Minimum confidence"
+            />
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={filter.maxConfidence}
+              onChange={(e) => update({ maxConfidence: Math.max(Number(e.target.value), filter.minConfidence) })}
+              className="flex-1"
+              title="Maximum confidence"
+            />
+            <span className="w-16 text-right">
+              {filter.minConfidence}–{filter.maxConfidence}%
+            </span>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <span className="text-gray-500 w-20">Detected</span>
+            <input
+              type="datetime-local"
+              value={toLocalInput(filter.from)}
+              onChange={(e) => update({ from: fromLocalInput(e.target.value) })}
+              className="border rounded px-1 bg-white flex-1 min-w-0"
+              title="From"
+            />
+            <span>–</span>
+            <input
+              type="datetime-local"
+              value={toLocalInput(filter.to)}
+              onChange={(e) => {
+                // Inclusive of the whole minute picked
+                const to = fromLocalInput(e.target.value);
+                update({ to: to === null ? null : to + 59_999 });
+              }}
+              className="border rounded px-1 bg-white flex-1 min-w-0"
+              title="To"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DefectFilterBar;
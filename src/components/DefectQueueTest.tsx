@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import DefectQueue from './DefectExport'; // Import your existing component
 import { Download } from 'lucide-react';
+import { desktopAPI } from '@/utilities/desktop';
 
 // Mock defect data
 const mockDefects = [
@@ -60,20 +61,20 @@ const DefectQueueTest: React.FC = () => {
     try {
       if (data.format === 'csv') {
         // Mock using the electron API
-        const result = await window.electronAPI.saveFile(
-          generateCSV(data.defect),
-          `defect-${data.defect.id}.csv`,
-          { camera: data.cameraImage, map: data.slamMapImage }
-        );
+        const result = await desktopAPI("CSV export").saveFile({
+          content: generateCSV(data.defect),
+          filename: `defect-${data.defect.id}.csv`,
+          images: { camera: data.cameraImage, map: data.slamMapImage }
+        });
         setExportStatus(`CSV Export ${result.success ? 'completed' : 'failed'}`);
       } else {
         // Mock using the electron API for PDF
-        const result = await window.electronAPI.saveAsPDF(
-          data.defect,
-          data.cameraImage,
-          data.slamMapImage,
-          `defect-${data.defect.id}.pdf`
-        );
+        const result = await desktopAPI("PDF export").saveAsPDF({
+          defect: data.defect,
+          cameraImage: data.cameraImage,
+          slamMapImage: data.slamMapImage,
+          filename: `defect-${data.defect.id}.pdf`
+        });
         setExportStatus(`PDF Export ${result.success ? 'completed' : 'failed'}`);
       }
     } catch (error) {
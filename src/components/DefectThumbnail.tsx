@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+import { Camera } from "lucide-react";
+import { useDataContext } from "@/context/DataProvider";
+
+interface DefectThumbnailProps {
+  defectId: string;
+  className?: string;
+}
+
+// The frame the defect was detected in, with its box
+function DefectThumbnail({ defectId, className = "" }: DefectThumbnailProps) {
+  const { getDefectImage } = useDataContext();
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSrc(null);
+    getDefectImage(defectId, "frame")
+      .then((image) => {
+        if (!cancelled) setSrc(image);
+      })
+      .catch((error) => console.error(`Failed to load frame for ${defectId}:`, error));
+    return () => {
+      cancelled = true;
+    };
+  }, [defectId, getDefectImage]);
+
+  return src ? (
+    <img src={src} alt={`Defect ${defectId}`} className={`object-cover rounded ${className}`} />
+  ) : (
+    <div className={`flex items-center justify-center rounded bg-gray-200 text-gray-400 ${className}`}>
+      <Camera size={16} />
+    </div>
+  );
+}
+
+export default DefectThumbnail;
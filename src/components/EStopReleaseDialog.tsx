@@ -0,0 +1,48 @@
+import { useState } from "react";
+import { TriangleAlert } from "lucide-react";
+
+interface EStopReleaseDialogProps {
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Releasing the E-stop lets the robot move again, so it needs a deliberate second step
+function EStopReleaseDialog({ onConfirm, onCancel }: EStopReleaseDialogProps) {
+  const [checked, setChecked] = useState<boolean>(false);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center">
+      <div className="bg-white rounded-lg shadow-lg w-[420px] p-5 text-sm">
+        <div className="flex items-center gap-2 mb-3">
+          <TriangleAlert size={22} color="#e53e3e" />
+          <h2 className="text-lg font-semibold">Release E-stop?</h2>
+        </div>
+        <p className="mb-3 text-gray-700">
+          The robot will accept motion commands again as soon as it confirms the release.
+        </p>
+        <label className="flex items-center gap-2 mb-4">
+          <input type="checkbox" checked={checked} onChange={(e) => setChecked(e.target.checked)} />
+          The area around the robot is clear
+        </label>
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-3 py-2 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+            autoFocus
+          >
+            Keep stopped
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={!checked}
+            className="px-3 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition-colors disabled:bg-gray-400"
+          >
+            Release E-stop
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default EStopReleaseDialog;
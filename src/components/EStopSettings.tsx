@@ -0,0 +1,66 @@
+import { useEStop, EStopMode } from "@/context/EStopContext";
+import { useTopicProfile } from "@/context/TopicProfileContext";
+
+function EStopSettings() {
+  const { config, setConfig } = useEStop();
+  const { topic } = useTopicProfile();
+
+  const inputClass = "bg-white border rounded px-1 font-mono";
+
+  return (
+    <details className="mt-3 mx-auto w-fit text-sm">
+      <summary className="cursor-pointer text-gray-600">E-stop integration</summary>
+      <div className="mt-2 p-3 bg-gray-200 rounded-md flex flex-col gap-2">
+        <label className="flex items-center gap-2">
+          <span className="text-gray-500 w-16">Mode</span>
+          <select
+            value={config.mode}
+            onChange={(e) => setConfig({ ...config, mode: e.target.value as EStopMode })}
+            className="bg-white border rounded px-1"
+          >
+            <option value="topic">Latched topic</option>
+            <option value="service">SetBool service</option>
+          </select>
+        </label>
+        {config.mode === "topic" ? (
+          <p className="text-gray-500">
+            Publishes to <span className="font-mono">{topic("eStop").name}</span>, set in the topic
+            profile.
+          </p>
+        ) : (
+          <>
+            <label className="flex items-center gap-2">
+              <span className="text-gray-500 w-16">Service</span>
+              <input
+                defaultValue={config.serviceName}
+                onBlur={(e) =>
+                  e.target.value.trim() &&
+                  setConfig({ ...config, serviceName: e.target.value.trim() })
+                }
+                className={inputClass}
+                spellCheck={false}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="text-gray-500 w-16">Type</span>
+              <input
+                defaultValue={config.serviceType}
+                onBlur={(e) =>
+                  e.target.value.trim() &&
+                  setConfig({ ...config, serviceType: e.target.value.trim() })
+                }
+                className={inputClass}
+                spellCheck={false}
+              />
+            </label>
+          </>
+        )}
+        <p className="text-gray-500">
+          State is read from <span className="font-mono">{topic("eStopState").name}</span>.
+        </p>
+      </div>
+    </details>
+  );
+}
+
+export default EStopSettings;
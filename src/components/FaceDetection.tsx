@@ -4,6 +4,10 @@ import ROSLIB, { Ros } from "roslib";
 import { useEffect, useState, useRef } from "react";
 import * as ort from "onnxruntime-web";
 import {useDataContext} from "@/context/DataProvider";
+import { useTopicProfile } from "@/context/TopicProfileContext";
+import { useEvidenceBuffer } from "@/hooks/useEvidenceBuffer";
+import { EvidenceFrame } from "@/utilities/detectionEvidence";
+import { DETECTOR_INPUT_SIZE } from "@/utilities/pipePosition";
 
 interface CameraProps {
   connection: boolean;
@@ -18,6 +22,7 @@ interface TrackedFace {
 }
 
 function FaceDetection({ connection, ros }: CameraProps) {
+  const { topic } = useTopicProfile();
   const [imageSrc, setImageSrc] = useState<string | null>(null);
   const [modelLoaded, setModelLoaded] = useState<boolean>(false);
   // Changed to use TrackedFace interface with IDs
@@ -31,26 +36,15 @@ function FaceDetection({ connection, ros }: CameraProps) {
   const imageRef = useRef<HTMLImageElement | null>(null);
   const overlayCanvasRef = useRef<HTMLCanvasElement | null>(null);
 
-  const CAMERA_TOPIC = "/husky3/camera_0/color/image_raw/compressed";
-  const MESSAGE_TYPE = "sensor_msgs/msg/CompressedImage";
+  const { name: CAMERA_TOPIC, messageType: MESSAGE_TYPE } = topic("camera");
   const MODEL_PATH = "./model/faces.onnx";
   const THROTTLE_INTERVAL = 500;
   const THRESHOLD = 0.7; // 70% confidence
   const FACE_PERSISTENCE_TIMEOUT = 2000; // Time in ms to keep faces displayed after detection
   const IOU_THRESHOLD = 0.1; // Minimum IoU to consider the same face
-  const { addDefect, setCurrentCameraImage, setCurrentOverlayCanvas } = useDataContext();
-
-  useEffect(() => {
-    if (imageSrc){
-      setCurrentCameraImage(imageSrc);
-    }
-  }, [imageSrc, setCurrentCameraImage]);
-
-  useEffect(() => {
-    if (overlayCanvasRef.current){
-      setCurrentOverlayCanvas(overlayCanvasRef.current);
-    }
-  }, [trackedFaces, setCurrentOverlayCanvas]);
+  const { addDefect } = useDataContext();
+  // Recent frames, stored with each new face as evidence
+  const { pushFrame, snapshot } = useEvidenceBuffer();
   useEffect(() => {
     console.log(trackedFaces)
   }, [trackedFaces])
@@ -108,7 +102,7 @@ function FaceDetection({ connection, ros }: CameraProps) {
   }
 
   // Preprocess image and run inference
-  async function runInference(imageUrl: string) {
+  async function runInference(source: EvidenceFrame) {
     if (!sessionRef.current || !canvasRef.current) {
       return;
     }
@@ -130,7 +124,7 @@ function FaceDetection({ connection, ros }: CameraProps) {
 
       // Load the image
       const img = new Image();
-      img.src = imageUrl;
+      img.src = source.image;
       await new Promise<void>((resolve, reject) => {
         img.onload = () => resolve();
         img.onerror = () => reject(new Error("Failed to load image"));
@@ -210,7 +204,7 @@ function FaceDetection({ connection, ros }: CameraProps) {
         });
 
         // Update tracked faces using IoU
-        updateTrackedFaces(newDetections);
+        updateTrackedFaces(newDetections, source);
       } else {
         // Check if we should clear faces due to timeout
         checkFaceTimeout();
@@ -223,8 +217,8 @@ function FaceDetection({ connection, ros }: CameraProps) {
     }
   }
 
-  // Update tracked faces using IoU matching
-  function updateTrackedFaces(newDetections: number[][]) {
+  // Update tracked faces using IoU matching; source is the frame they were found in
+  function updateTrackedFaces(newDetections: number[][], source: EvidenceFrame) {
     const currentTime = Date.now();
     let updatedFaces = [...trackedFaces];
     const matchedNewDetections = new Set<number>();
@@ -278,8 +272,16 @@ function FaceDetection({ connection, ros }: CameraProps) {
         };
         updatedFaces.push(newFace);
 
-        // Notify context about the new defect
-        addDefect(newFace);
+        // Notify context about the new defect, with the box in detector pixels
+        // like the other detectors report
+        const [x1, y1, x2, y2, confidence] = newFace.box;
+        addDefect(
+          {
+            ...newFace,
+            box: [x1, y1, x2, y2].map((v) => v * DETECTOR_INPUT_SIZE).concat(confidence),
+          },
+          snapshot(source)
+        );
       }
     }
 
@@ -346,9 +348,11 @@ function FaceDetection({ connection, ros }: CameraProps) {
           const imageUrl = `data:image/${format};base64,${base64}`;
           setImageSrc(imageUrl);
 
+          const frame: EvidenceFrame = { image: imageUrl, timestamp: Date.now() };
+          pushFrame(frame);
           // Run inference if model is loaded
           if (modelLoaded) {
-            runInference(imageUrl);
+            runInference(frame);
           }
         } catch (error) {
           console.error("Error processing image message:", error);
@@ -359,7 +363,7 @@ function FaceDetection({ connection, ros }: CameraProps) {
         listener.unsubscribe();
       };
     }
-  }, [ros, connection, modelLoaded]);
+  }, [ros, connection, modelLoaded, pushFrame, CAMERA_TOPIC, MESSAGE_TYPE]);
 
   const handleImageLoad = () => {
     if (imageRef.current && overlayCanvasRef.current) {
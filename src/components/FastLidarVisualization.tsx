@@ -2,6 +2,7 @@ import { useEffect, useRef, useState, useMemo } from "react";
 import ROSLIB from "roslib";
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import { useTopicProfile } from "@/context/TopicProfileContext";
 
 interface LidarVisualizationProps {
   ros: ROSLIB.Ros | null;
@@ -31,17 +32,20 @@ function FastLidarVisualization({ ros, connection }: LidarVisualizationProps) {
   const [isVisible, setIsVisible] = useState<boolean>(true);
 
   // Topic definitions - moved to useMemo to prevent recreating on each render
+  const { topic } = useTopicProfile();
+  const mapTopic = topic("map");
+  const pathTopic = topic("path");
+  const poseTopic = topic("currentPose");
   const topics = useMemo(
     () => ({
-      //   SLAM_TOPIC: "/husky3/sensors/lidar3d_0/points",
-      SLAM_TOPIC: "/map",
-      MESSAGE_TYPE: "sensor_msgs/msg/PointCloud2",
-      PATH_TOPIC: "/path",
-      PATH_MESSAGE_TYPE: "nav_msgs/Path",
-      CURRENT_POSITION_TOPIC: "/current_pose",
-      CURRENT_POSITION_MESSAGE_TYPE: "geometry_msgs/PoseStamped",
+      SLAM_TOPIC: mapTopic.name,
+      MESSAGE_TYPE: mapTopic.messageType,
+      PATH_TOPIC: pathTopic.name,
+      PATH_MESSAGE_TYPE: pathTopic.messageType,
+      CURRENT_POSITION_TOPIC: poseTopic.name,
+      CURRENT_POSITION_MESSAGE_TYPE: poseTopic.messageType,
     }),
-    []
+    [mapTopic.name, mapTopic.messageType, pathTopic.name, pathTopic.messageType, poseTopic.name, poseTopic.messageType]
   );
 
   // Buffer management for better memory efficiency
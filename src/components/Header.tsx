@@ -1,13 +1,34 @@
+import { useState } from 'react'
+import { ListTree } from 'lucide-react'
 import logo from '../assets/logo.svg'
+import ConnectionSettings from './ConnectionSettings'
+import RobotSelector from './RobotSelector'
+import TopicProfileEditor from './TopicProfileEditor'
+import SessionControls from './SessionControls'
 
 function Header() {
+  const [showTopicEditor, setShowTopicEditor] = useState<boolean>(false);
+
   return (
     <div className="bg-indigo-900 h-25 w-[100%] flex items-center justify-between px-15">
       {/* bg-indigo-900 */}
       <img src={logo} alt="logo" className='h-20'/>
+      <div className="flex items-center gap-6">
+        <SessionControls />
+        <RobotSelector />
+        <ConnectionSettings />
+        <button
+          onClick={() => setShowTopicEditor(true)}
+          className="p-1 rounded text-white hover:bg-indigo-700 transition-colors"
+          title="Topic profiles"
+        >
+          <ListTree size={20} />
+        </button>
+      </div>
       <p className="font-semibold text-4xl text-white">Robo<span className='text-[rgb(232,156,56)]'>Nav</span></p>
+      {showTopicEditor && <TopicProfileEditor onClose={() => setShowTopicEditor(false)} />}
     </div>
   );
 }
 
-export default Header;
\ No newline at end of file
+export default Header;
@@ -1,9 +1,45 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import { useState, useEffect, useRef } from "react";
 import ROSLIB from "roslib";
+import { CircleHelp, Gamepad2, Keyboard } from "lucide-react";
 import Key from "./Key";
 import SpeedIndicator from "./SpeedIndicator";
 import Telemetry from "./Telemetry";
+import { useTopicProfile } from "@/context/TopicProfileContext";
+import { useEStop } from "@/context/EStopContext";
+import { useGamepad, GAMEPAD_BUTTONS } from "@/hooks/useGamepad";
+import { useProximityGuard } from "@/hooks/useProximityGuard";
+import { loadSetting, saveSetting } from "@/utilities/settings";
+import {
+  DEFAULT_RAMP_LIMITS,
+  RampLimits,
+  Velocity2D,
+  ZERO_VELOCITY,
+  createRampState,
+  isRampStopped,
+  stepRamp,
+} from "@/utilities/velocitySmoother";
+import {
+  DEADMAN_KEY,
+  DRIVE_ACTIONS,
+  DriveAction,
+  HELP_KEY,
+  Keymap,
+  SPEED_ACTIONS,
+  SpeedAction,
+  findAction,
+  keyLabel,
+  loadKeyboardLayout,
+  mergeKeymap,
+  normalizeKey,
+} from "@/utilities/keymap";
+import RampSettings from "./RampSettings";
+import KeymapSettings from "./KeymapSettings";
+import ShortcutHelp from "./ShortcutHelp";
+import EStopReleaseDialog from "./EStopReleaseDialog";
+import EStopSettings from "./EStopSettings";
+import VirtualJoystick from "./VirtualJoystick";
+import ProximitySettings from "./ProximitySettings";
 
 interface TwistMessage {
   linear: {
@@ -23,20 +59,58 @@ interface RosIntegrationProps {
   connection: boolean;
 }
 
+const PUBLISH_INTERVAL_MS = 100;
+const WATCHDOG_LIMIT_MS = 250; // Publish loop ticks further apart than this trip the watchdog
+
+const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+const isDriveAction = (action: string | undefined): action is DriveAction =>
+  DRIVE_ACTIONS.includes(action as DriveAction);
+
+const isSpeedAction = (action: string | undefined): action is SpeedAction =>
+  SPEED_ACTIONS.includes(action as SpeedAction);
+
 function Input({ ros, connection }: RosIntegrationProps) {
-  const [direction, setDirection] = useState<string | null>(null);
-  const [removeDirection, setRemoveDirection] = useState<string | null>(null);
+  const { topic } = useTopicProfile();
+  const [direction, setDirection] = useState<DriveAction | null>(null);
+  const [removeDirection, setRemoveDirection] = useState<DriveAction | null>(null);
   const [overallSpeed, setOverallSpeed] = useState<number>(0);
   const [linearSpeed, setLinearSpeed] = useState<number>(1.0);
   const [angularSpeed, setAngularSpeed] = useState<number>(1.0);
   const [keyPressed, setKeyPressed] = useState<Record<string, boolean>>({});
-  const [eStopActive, setEStopActive] = useState<boolean>(false);
+  const eStop = useEStop();
+  // Never drive while either the robot reports a stop or this UI has asked for one
+  const eStopActive = eStop.engaged || eStop.requested;
+  const [showReleaseConfirm, setShowReleaseConfirm] = useState<boolean>(false);
+  const [gamepadEStopButton, setGamepadEStopButton] = useState<number>(() =>
+    loadSetting("gamepadEStopButton", 1)
+  );
+  const [gamepadDeadmanButton, setGamepadDeadmanButton] = useState<number>(() =>
+    loadSetting("gamepadDeadmanButton", 4)
+  );
+  const [keyboardDeadman, setKeyboardDeadman] = useState<boolean>(false);
+  const [pointerHeld, setPointerHeld] = useState<boolean>(false); // On-screen key or joystick touched
+  const [joystickActive, setJoystickActive] = useState<boolean>(false);
+  const joystickRef = useRef<Velocity2D>(ZERO_VELOCITY);
+  const [watchdogTripped, setWatchdogTripped] = useState<boolean>(false);
+  const [rampLimits, setRampLimits] = useState<RampLimits>(() =>
+    loadSetting("rampLimits", DEFAULT_RAMP_LIMITS)
+  );
+  const [commandedVelocity, setCommandedVelocity] = useState<Velocity2D>(ZERO_VELOCITY);
+  const [rampedVelocity, setRampedVelocity] = useState<Velocity2D>(ZERO_VELOCITY);
+  const [keymap, setKeymap] = useState<Keymap>(() =>
+    mergeKeymap(loadSetting<Partial<Keymap> | null>("keymap", null))
+  );
+  const [showKeymapSettings, setShowKeymapSettings] = useState<boolean>(false);
+  const [showHelp, setShowHelp] = useState<boolean>(false);
+  const rampStateRef = useRef(createRampState());
   const intervalRef = useRef<number | null>(null);
   const maxSpeed: number = 4;
 
   // ROS Topic for Cmd Velocity
-  const CMD_VEL_TOPIC = "/husky3/cmd_vel";
-  const CMD_VEL_TYPE = "geometry_msgs/msg/Twist";
+  const { name: CMD_VEL_TOPIC, messageType: CMD_VEL_TYPE } = topic("cmdVel");
 
   // Create a ROS publisher for cmd_vel
   const cmdVelPublisher = ros
@@ -75,21 +149,119 @@ function Input({ ros, connection }: RosIntegrationProps) {
     console.log("E-STOP command sent");
   };
 
-  // Toggle E-Stop state
+  // Engage E-Stop from any input (space bar, gamepad button)
+  const engageEStop = (reason: string) => {
+    eStop.engage(reason);
+    setDirection(null);
+    resetRamp();
+    sendEStopCommand();
+  };
+
+  const {
+    connectedPad,
+    active: gamepadActive,
+    deadmanHeld: gamepadDeadman,
+    commandRef: gamepadCommandRef,
+  } = useGamepad({
+    eStopButton: gamepadEStopButton,
+    deadmanButton: gamepadDeadmanButton,
+    onEStop: () => engageEStop("gamepad button"),
+  });
+
+  // Holding an on-screen control is itself deliberate, so it counts as the dead-man
+  const deadmanHeld = keyboardDeadman || gamepadDeadman || pointerHeld;
+
+  const proximity = useProximityGuard(ros, connection);
+
+  const handleGamepadEStopButtonChange = (button: number) => {
+    saveSetting("gamepadEStopButton", button);
+    setGamepadEStopButton(button);
+  };
+
+  const handleGamepadDeadmanButtonChange = (button: number) => {
+    saveSetting("gamepadDeadmanButton", button);
+    setGamepadDeadmanButton(button);
+  };
+
+  // Toggle E-Stop state, releasing always goes through the confirmation dialog
   const toggleEStop = () => {
-    const newEStopState = !eStopActive;
-    setEStopActive(newEStopState);
+    if (eStopActive) {
+      setShowReleaseConfirm(true);
+    } else {
+      engageEStop("E-stop button");
+    }
+  };
 
-    if (newEStopState) {
-      // Activating E-Stop
-      setDirection(null);
-      sendEStopCommand();
+  const confirmEStopRelease = () => {
+    setShowReleaseConfirm(false);
+    eStop.release();
+  };
+
+  // Target velocity from whichever input is active, before ramping
+  const computeCommandedVelocity = (): Velocity2D => {
+    const command: Velocity2D = { ...ZERO_VELOCITY };
+
+    // Apply speed modifier
+    const speedFactor = Math.max(1, overallSpeed);
+    const currentLinearSpeed = linearSpeed * speedFactor;
+    const currentAngularSpeed = angularSpeed * speedFactor;
+
+    // Modify velocity based on direction
+    if (direction) {
+      switch (direction) {
+        case "forwardLeft":
+          command.linear = currentLinearSpeed;
+          command.angular = currentAngularSpeed;
+          break;
+        case "forward":
+          command.linear = currentLinearSpeed;
+          command.angular = 0;
+          break;
+        case "forwardRight":
+          command.linear = currentLinearSpeed;
+          command.angular = -currentAngularSpeed;
+          break;
+        case "left":
+          command.linear = 0;
+          command.angular = currentAngularSpeed;
+          break;
+        case "stop":
+          command.linear = 0;
+          command.angular = 0;
+          break;
+        case "right":
+          command.linear = 0;
+          command.angular = -currentAngularSpeed;
+          break;
+        case "backwardLeft":
+          command.linear = -currentLinearSpeed;
+          command.angular = currentAngularSpeed;
+          break;
+        case "backward":
+          command.linear = -currentLinearSpeed;
+          command.angular = 0;
+          break;
+        case "backwardRight":
+          command.linear = -currentLinearSpeed;
+          command.angular = -currentAngularSpeed;
+          break;
+      }
+    } else if (gamepadActive) {
+      // Proportional control from the sticks, scaled by the triggers
+      const pad = gamepadCommandRef.current;
+      command.linear = pad.linear * currentLinearSpeed * pad.speedScale;
+      command.angular = pad.angular * currentAngularSpeed * pad.speedScale;
+    } else if (joystickActive) {
+      const stick = joystickRef.current;
+      command.linear = stick.linear * currentLinearSpeed;
+      command.angular = stick.angular * currentAngularSpeed;
     }
-    // When deactivating, don't need to do anything special - just allow commands again
+
+    return command;
   };
 
   // Publish velocity commands to ROS
-  const publishVelocityCommand = () => {
+  const publishVelocityCommand = (velocity: Velocity2D) => {
     if (!ros || !connection || !cmdVelPublisher) {
       console.error("Cannot publish", {
         ros: !!ros,
@@ -99,76 +271,75 @@ function Input({ ros, connection }: RosIntegrationProps) {
       return;
     }
 
-    if (eStopActive) {
+    if (eStopActive || !deadmanHeld) {
       return;
     }
 
     // Create Twist message with explicit typing
     const twistMsg: TwistMessage = {
       linear: {
-        x: 0,
+        x: velocity.linear,
         y: 0,
         z: 0,
       },
       angular: {
         x: 0,
         y: 0,
-        z: 0,
+        z: velocity.angular,
       },
     };
 
-    // Apply speed modifier
-    const speedFactor = Math.max(1, overallSpeed);
-    const currentLinearSpeed = linearSpeed * speedFactor;
-    const currentAngularSpeed = angularSpeed * speedFactor;
-
-    // Modify velocity based on direction
-    if (direction) {
-      switch (direction) {
-        case "u": // Forward-Left
-          twistMsg.linear.x = currentLinearSpeed;
-          twistMsg.angular.z = currentAngularSpeed;
-          break;
-        case "i": // Forward
-          twistMsg.linear.x = currentLinearSpeed;
-          twistMsg.angular.z = 0;
-          break;
-        case "o": // Forward-Right
-          twistMsg.linear.x = currentLinearSpeed;
-          twistMsg.angular.z = -currentAngularSpeed;
-          break;
-        case "j": // Left
-          twistMsg.linear.x = 0;
-          twistMsg.angular.z = currentAngularSpeed;
-          break;
-        case "k": // Stop
-          twistMsg.linear.x = 0;
-          twistMsg.angular.z = 0;
-          break;
-        case "l": // Right
-          twistMsg.linear.x = 0;
-          twistMsg.angular.z = -currentAngularSpeed;
-          break;
-        case "m": // Backward-Left
-          twistMsg.linear.x = -currentLinearSpeed;
-          twistMsg.angular.z = currentAngularSpeed;
-          break;
-        case ",": // Backward
-          twistMsg.linear.x = -currentLinearSpeed;
-          twistMsg.angular.z = 0;
-          break;
-        case ".": // Backward-Right
-          twistMsg.linear.x = -currentLinearSpeed;
-          twistMsg.angular.z = -currentAngularSpeed;
-          break;
-      }
-    }
-
     // Publish the message
     cmdVelPublisher.publish(new ROSLIB.Message(twistMsg));
     console.log("Publishing Command:", JSON.stringify(twistMsg));
   };
 
+  // Advance the ramp by one loop tick and publish the smoothed velocity.
+  // Returns false once a release ramp has come to rest.
+  const publishRampedCommand = (dt: number, released: boolean): boolean => {
+    const commanded = released ? ZERO_VELOCITY : computeCommandedVelocity();
+
+    // The lidar guard only limits forward motion, reversing away stays possible
+    const guard = proximity.stateRef.current;
+    const target =
+      commanded.linear > 0 ? { ...commanded, linear: commanded.linear * guard.scale } : commanded;
+
+    let next = stepRamp(rampStateRef.current, target, dt, rampLimits, released);
+    // Inside the stop zone forward motion is cut at once rather than ramped down
+    if (guard.scale === 0 && next.linear.velocity > 0) {
+      next = { ...next, linear: { velocity: 0, acceleration: 0 } };
+    }
+    rampStateRef.current = next;
+
+    const ramped = { linear: next.linear.velocity, angular: next.angular.velocity };
+    setCommandedVelocity(commanded);
+    setRampedVelocity(ramped);
+    publishVelocityCommand(ramped);
+
+    return !(released && isRampStopped(next));
+  };
+
+  // The publish loop always calls the latest closure so speed changes apply immediately
+  const publishRef = useRef(publishRampedCommand);
+  publishRef.current = publishRampedCommand;
+
+  // Snap the ramp to zero, used by every path that must stop immediately
+  const resetRamp = () => {
+    rampStateRef.current = createRampState();
+    setCommandedVelocity(ZERO_VELOCITY);
+    setRampedVelocity(ZERO_VELOCITY);
+  };
+
+  const handleKeymapSave = (newKeymap: Keymap) => {
+    saveSetting("keymap", newKeymap);
+    setKeymap(newKeymap);
+  };
+
+  const handleRampLimitsChange = (limits: RampLimits) => {
+    saveSetting("rampLimits", limits);
+    setRampLimits(limits);
+  };
+
   // Explicitly send a stop command
   const sendStopCommand = () => {
     if (!ros || !connection || !cmdVelPublisher) return;
@@ -188,6 +359,22 @@ function Input({ ros, connection }: RosIntegrationProps) {
     }, 100);
   };
 
+  // Effects call the latest closure, which holds the current publisher
+  const stopRef = useRef(sendStopCommand);
+  stopRef.current = sendStopCommand;
+
+  // A stop reported by the robot (hardware button, other operator) or the
+  // global hotkey drops held inputs too
+  useEffect(() => {
+    if (eStopActive) {
+      stopRef.current();
+      setDirection(null);
+      rampStateRef.current = createRampState();
+      setCommandedVelocity(ZERO_VELOCITY);
+      setRampedVelocity(ZERO_VELOCITY);
+    }
+  }, [eStopActive]);
+
   // Update interval when direction changes
   useEffect(() => {
     // Clear any existing interval
@@ -200,14 +387,47 @@ function Input({ ros, connection }: RosIntegrationProps) {
       return;
     }
 
-    // If there's a direction, start publishing
-    if (direction) {
+    const driving = !!(direction || gamepadActive || joystickActive);
+    // Letting go of the drive inputs while still enabled ramps down with the release profile
+    const releasing = !driving && !isRampStopped(rampStateRef.current);
+
+    // If there's a direction or a deflected stick and the dead-man is held, start publishing
+    if ((driving || releasing) && deadmanHeld) {
+      let tripped = false;
+      let lastTick = performance.now();
+      setWatchdogTripped(false);
+
       intervalRef.current = window.setInterval(() => {
-        publishVelocityCommand();
-      }, 100) as unknown as number;
+        if (tripped) return;
+
+        const now = performance.now();
+        const elapsed = now - lastTick;
+        lastTick = now;
+
+        // The loop stalled, so the held inputs may be stale. Stop and stay
+        // stopped until the operator lets go and starts again.
+        if (elapsed > WATCHDOG_LIMIT_MS) {
+          tripped = true;
+          console.warn(`Publish loop fell behind (${elapsed.toFixed(0)}ms), refusing to publish`);
+          setWatchdogTripped(true);
+          resetRamp();
+          stopRef.current();
+          return;
+        }
+
+        if (!publishRef.current(elapsed / 1000, releasing)) {
+          // Release ramp finished
+          if (intervalRef.current !== null) {
+            clearInterval(intervalRef.current);
+            intervalRef.current = null;
+          }
+          stopRef.current();
+        }
+      }, PUBLISH_INTERVAL_MS) as unknown as number;
     } else {
-      // If no direction, send a stop command
-      sendStopCommand();
+      // If no direction or the dead-man was released, stop immediately
+      resetRamp();
+      stopRef.current();
     }
 
     // Cleanup on unmount or direction change
@@ -217,47 +437,117 @@ function Input({ ros, connection }: RosIntegrationProps) {
         intervalRef.current = null;
       }
     };
-  }, [direction, connection, ros]);
+  }, [direction, gamepadActive, joystickActive, deadmanHeld, eStopActive, connection, ros]);
+
+  // Drop every held input and stop the robot
+  const releaseAllInputs = (reason: string) => {
+    console.log(`Releasing teleop inputs: ${reason}`);
+    setDirection(null);
+    setKeyboardDeadman(false);
+    setPointerHeld(false);
+    setKeyPressed({});
+    resetRamp();
+    [...DRIVE_ACTIONS, ...SPEED_ACTIONS].forEach((action) => {
+      document.getElementById(action)?.classList.remove("text-red-500", "scale-96", "shadow-inner");
+    });
+    sendStopCommand();
+  };
 
-  // Update when speeds change
-  useEffect(() => {
-    if (direction) {
-      publishVelocityCommand();
+  // Shared by the keyboard and the on-screen keys
+  const pressDriveAction = (action: DriveAction) => {
+    setKeyPressed((prev) => ({ ...prev, [action]: true }));
+    setDirection(action);
+  };
+
+  const releaseDriveAction = (action: DriveAction) => {
+    setKeyPressed((prev) => ({ ...prev, [action]: false }));
+    setRemoveDirection(action);
+    setDirection(null); // This will trigger the effect to ramp the robot down
+  };
+
+  const applySpeedAction = (action: SpeedAction) => {
+    // Overall speed
+    if (action === "overallUp") {
+      setOverallSpeed((prev) => Math.min(prev + 1, maxSpeed));
+    } else if (action === "overallDown") {
+      setOverallSpeed((prev) => Math.max(prev - 1, 0));
+    }
+    // Linear speed
+    else if (action === "linearUp") {
+      setLinearSpeed((prev) => Math.min(prev + 1, maxSpeed));
+    } else if (action === "linearDown") {
+      setLinearSpeed((prev) => Math.max(prev - 1, 0.1));
     }
-  }, [linearSpeed, angularSpeed, overallSpeed]);
+    // Angular speed
+    else if (action === "angularUp") {
+      setAngularSpeed((prev) => Math.min(prev + 1, maxSpeed));
+    } else if (action === "angularDown") {
+      setAngularSpeed((prev) => Math.max(prev - 1, 0.1));
+    }
+  };
+
+  // On-screen direction keys hold while pressed, like the keyboard
+  const pressScreenKey = (action: DriveAction) => {
+    if (eStopActive) return;
+    setPointerHeld(true);
+    pressDriveAction(action);
+  };
+
+  const releaseScreenKey = (action: DriveAction) => {
+    setPointerHeld(false);
+    if (direction === action) releaseDriveAction(action);
+  };
+
+  const handleJoystickMove = (command: Velocity2D) => {
+    joystickRef.current = command;
+    setJoystickActive(command.linear !== 0 || command.angular !== 0);
+  };
 
   const handleKeyUp = (event: KeyboardEvent) => {
-    const key = event.key;
+    const key = normalizeKey(event);
 
-    if (key == " " && eStopActive) {
-      setEStopActive(false);
+    if (event.key === DEADMAN_KEY) {
+      setKeyboardDeadman(false);
       return;
     }
-    if (["u", "i", "o", "j", "k", "l", "m", ",", "."].includes(key)) {
-      setKeyPressed((prev) => ({ ...prev, [key]: false }));
-      setRemoveDirection(key);
-      setDirection(null); // This will trigger the effect to stop the robot
-
-      if (cmdVelPublisher && !eStopActive) {
-        const stopMsg: TwistMessage = {
-          linear: { x: 0, y: 0, z: 0 },
-          angular: { x: 0, y: 0, z: 0 },
-        };
-        cmdVelPublisher.publish(new ROSLIB.Message(stopMsg));
-      }
-    } else if (["q", "z", "w", "x", "e", "c"].includes(key)) {
-      const el = document.getElementById(key);
+
+    const action = findAction(keymap, key);
+    if (isDriveAction(action)) {
+      releaseDriveAction(action);
+    } else if (isSpeedAction(action)) {
+      const el = document.getElementById(action);
       el?.classList.remove("text-red-500", "scale-96", "shadow-inner");
     }
   };
 
   const handleKeyDown = (event: KeyboardEvent) => {
-    const key = event.key;
+    const key = normalizeKey(event);
 
-    if (key == " ") {
-      setEStopActive(true);
-      setDirection(null);
-      sendEStopCommand();
+    if (event.key === DEADMAN_KEY) {
+      setKeyboardDeadman(true);
+      return;
+    }
+
+    // Typing in a text field must not drive or stop the robot; the on-screen
+    // button and the global hotkey still stop it from there
+    if (isEditableTarget(event.target)) {
+      return;
+    }
+
+    const action = findAction(keymap, key);
+    if (action === "eStop") {
+      engageEStop("keyboard");
+      return;
+    }
+
+    // Help is matched on the raw key, and only when that key isn't a binding
+    // and nothing is being driven, so a shifted binding can't open it
+    if (event.key === HELP_KEY && action === undefined && direction === null) {
+      setShowHelp((prev) => !prev);
+      return;
+    }
+    if (event.key === "Escape") {
+      setShowHelp(false);
       return;
     }
 
@@ -266,33 +556,14 @@ function Input({ ros, connection }: RosIntegrationProps) {
     }
 
     // Handle direction keys
-    if (["u", "i", "o", "j", "k", "l", "m", ",", "."].includes(key)) {
-      setKeyPressed((prev) => ({ ...prev, [key]: true }));
-      setDirection(key);
+    if (isDriveAction(action)) {
+      pressDriveAction(action);
     }
     // Handle speed controls
-    else if (["q", "z", "w", "x", "e", "c"].includes(key)) {
-      const el = document.getElementById(key);
+    else if (isSpeedAction(action)) {
+      const el = document.getElementById(action);
       el?.classList.add("text-red-500", "scale-96", "shadow-inner");
-
-      // Overall speed
-      if (key === "q") {
-        setOverallSpeed((prev) => Math.min(prev + 1, maxSpeed));
-      } else if (key === "z") {
-        setOverallSpeed((prev) => Math.max(prev - 1, 0));
-      }
-      // Linear speed
-      else if (key === "w") {
-        setLinearSpeed((prev) => Math.min(prev + 1, maxSpeed));
-      } else if (key === "x") {
-        setLinearSpeed((prev) => Math.max(prev - 1, 0.1));
-      }
-      // Angular speed
-      else if (key === "e") {
-        setAngularSpeed((prev) => Math.min(prev + 1, maxSpeed));
-      } else if (key === "c") {
-        setAngularSpeed((prev) => Math.max(prev - 1, 0.1));
-      }
+      applySpeedAction(action);
     }
   };
 
@@ -312,20 +583,49 @@ function Input({ ros, connection }: RosIntegrationProps) {
     }
   }, [removeDirection]);
 
+  // Listeners are registered once, so route them through a ref to the latest handlers
+  const handlersRef = useRef({ handleKeyDown, handleKeyUp, releaseAllInputs, sendStopCommand });
+  handlersRef.current = { handleKeyDown, handleKeyUp, releaseAllInputs, sendStopCommand };
+
   // Add event listeners
   useEffect(() => {
-    window.addEventListener("keydown", handleKeyDown);
-    window.addEventListener("keyup", handleKeyUp);
+    const onKeyDown = (event: KeyboardEvent) => handlersRef.current.handleKeyDown(event);
+    const onKeyUp = (event: KeyboardEvent) => handlersRef.current.handleKeyUp(event);
+
+    // Keyups are never delivered once focus is gone, so treat it as a release
+    const onBlur = () => handlersRef.current.releaseAllInputs("window lost focus");
+    const onVisibilityChange = () => {
+      if (document.hidden) handlersRef.current.releaseAllInputs("page hidden");
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    window.addEventListener("blur", onBlur);
+    document.addEventListener("visibilitychange", onVisibilityChange);
 
     return () => {
-      window.removeEventListener("keydown", handleKeyDown);
-      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+      window.removeEventListener("blur", onBlur);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
 
       // Make sure to send a stop command when unmounting
-      sendStopCommand();
+      handlersRef.current.sendStopCommand();
     };
   }, []);
 
+  // Punctuation bindings depend on the OS keyboard layout
+  useEffect(() => {
+    loadKeyboardLayout();
+  }, []);
+
+  // A dropped connection must not resume motion when it comes back
+  useEffect(() => {
+    if (!connection) {
+      handlersRef.current.releaseAllInputs("ROS disconnected");
+    }
+  }, [connection]);
+
   //debugging
   useEffect(() => {
     console.log("ROS Connection Status:", connection);
@@ -340,31 +640,63 @@ function Input({ ros, connection }: RosIntegrationProps) {
   return (
     <div className="grid grid-cols-2">
       <div className="col-span-1">
-        <Telemetry connection={connection} direction={direction} />
+        <Telemetry
+          connection={connection}
+          direction={direction}
+          commandedVelocity={commandedVelocity}
+          rampedVelocity={rampedVelocity}
+          proximity={proximity.state}
+        />
       </div>
       <div className="rounded-lg w-[100%] h-80 justify-center p-5 relative">
         <div className="flex items-center justify-between gap-5">
           <div className="w-70 h-60 rounded-lg bg-gray-200 grid grid-cols-3 grid-rows-3 gap-5 p-5 align-middle justify-center">
-            <Key letter="q" />
-            <Key letter="w" />
-            <Key letter="e" />
+            {(["overallUp", "linearUp", "angularUp"] as SpeedAction[]).map((action) => (
+              <Key
+                key={action}
+                id={action}
+                letter={keymap[action]}
+                onPress={() => applySpeedAction(action)}
+              />
+            ))}
             <SpeedIndicator speed={overallSpeed} maxSpeed={maxSpeed} />
-            <SpeedIndicator speed={linearSpeed} maxSpeed={maxSpeed} />
-            <SpeedIndicator speed={angularSpeed} maxSpeed={maxSpeed} />
-            <Key letter="z" />
-            <Key letter="x" />
-            <Key letter="c" />
+            <SpeedIndicator
+              speed={linearSpeed}
+              maxSpeed={maxSpeed}
+              velocity={{
+                commanded: commandedVelocity.linear,
+                ramped: rampedVelocity.linear,
+                max: linearSpeed * Math.max(1, overallSpeed),
+              }}
+            />
+            <SpeedIndicator
+              speed={angularSpeed}
+              maxSpeed={maxSpeed}
+              velocity={{
+                commanded: commandedVelocity.angular,
+                ramped: rampedVelocity.angular,
+                max: angularSpeed * Math.max(1, overallSpeed),
+              }}
+            />
+            {(["overallDown", "linearDown", "angularDown"] as SpeedAction[]).map((action) => (
+              <Key
+                key={action}
+                id={action}
+                letter={keymap[action]}
+                onPress={() => applySpeedAction(action)}
+              />
+            ))}
           </div>
           <div className="w-70 h-60 rounded-lg bg-gray-200 grid grid-cols-3 grid-rows-3 gap-5 p-5 align-middle justify-center">
-            <Key letter="u" />
-            <Key letter="i" />
-            <Key letter="o" />
-            <Key letter="j" />
-            <Key letter="k" />
-            <Key letter="l" />
-            <Key letter="m" />
-            <Key letter="," />
-            <Key letter="." />
+            {DRIVE_ACTIONS.map((action) => (
+              <Key
+                key={action}
+                id={action}
+                letter={keymap[action]}
+                onPress={() => pressScreenKey(action)}
+                onRelease={() => releaseScreenKey(action)}
+              />
+            ))}
           </div>
         </div>
         <div
@@ -378,8 +710,119 @@ function Input({ ros, connection }: RosIntegrationProps) {
         >
           {eStopActive
             ? "E-STOP ACTIVE(CLICK TO RELEASE E-STOP)"
-            : "PRESS SPACE FOR E-STOP"}
+            : `PRESS ${keyLabel(keymap.eStop).toUpperCase()} FOR E-STOP`}
+        </div>
+        <p className="w-72 mx-auto mt-1 text-xs text-center text-gray-600">
+          {eStop.robotState === null
+            ? "Robot E-stop state unknown"
+            : `Robot reports E-stop ${eStop.robotState ? "ENGAGED" : "released"}`}
+          {eStop.pending &&
+            (eStop.requested
+              ? ", waiting for the robot to engage"
+              : ", release not confirmed by robot")}
+        </p>
+        {eStop.error && (
+          <p className="w-72 mx-auto mt-1 text-xs text-center text-red-700">{eStop.error}</p>
+        )}
+        <div
+          className={`h-8 w-72 mx-auto mt-2 rounded-md text-sm font-semibold flex items-center justify-center ${
+            watchdogTripped
+              ? "bg-red-100 text-red-800"
+              : deadmanHeld
+              ? "bg-green-100 text-green-800"
+              : "bg-gray-200 text-gray-600"
+          }`}
+        >
+          {watchdogTripped
+            ? "WATCHDOG: PUBLISH LOOP STALLED, RELEASE TO RESET"
+            : deadmanHeld
+            ? "DRIVE ENABLED"
+            : "HOLD SHIFT, GAMEPAD ENABLE OR A PAD TO DRIVE"}
+        </div>
+        <div className="flex items-center justify-center gap-3 mt-3">
+          <VirtualJoystick
+            disabled={eStopActive}
+            onHoldChange={setPointerHeld}
+            onMove={handleJoystickMove}
+          />
+          <p className="w-32 text-xs text-gray-600">
+            Drag to drive. Up and down set speed, left and right turn. Let go to stop.
+          </p>
+        </div>
+        <div className="flex items-center justify-center gap-2 mt-3 text-sm">
+          <Gamepad2 size={20} color={connectedPad ? "#48bb78" : "#a0aec0"} />
+          <span
+            className={`max-w-48 truncate ${connectedPad ? "text-gray-800" : "text-gray-500"}`}
+            title={connectedPad ?? undefined}
+          >
+            {connectedPad ?? "No controller"}
+          </span>
+          <label className="text-gray-500 ml-2" htmlFor="gamepad-estop">
+            E-stop:
+          </label>
+          <select
+            id="gamepad-estop"
+            value={gamepadEStopButton}
+            onChange={(e) => handleGamepadEStopButtonChange(Number(e.target.value))}
+            className="bg-gray-200 rounded px-1"
+          >
+            {GAMEPAD_BUTTONS.map((button) => (
+              <option key={button.index} value={button.index}>
+                {button.label}
+              </option>
+            ))}
+          </select>
+          <label className="text-gray-500 ml-2" htmlFor="gamepad-deadman">
+            Enable:
+          </label>
+          <select
+            id="gamepad-deadman"
+            value={gamepadDeadmanButton}
+            onChange={(e) => handleGamepadDeadmanButtonChange(Number(e.target.value))}
+            className="bg-gray-200 rounded px-1"
+          >
+            {GAMEPAD_BUTTONS.map((button) => (
+              <option key={button.index} value={button.index}>
+                {button.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center justify-center gap-2 mt-3 text-sm">
+          <button
+            onClick={() => setShowKeymapSettings(true)}
+            className="flex items-center px-2 py-1 rounded bg-gray-200 hover:bg-gray-300 transition-colors"
+            title="Key bindings"
+          >
+            <Keyboard size={16} className="mr-1" />
+            Key bindings
+          </button>
+          <button
+            onClick={() => setShowHelp(true)}
+            className="flex items-center px-2 py-1 rounded bg-gray-200 hover:bg-gray-300 transition-colors"
+            title={`Shortcuts (${HELP_KEY})`}
+          >
+            <CircleHelp size={16} className="mr-1" />
+            Shortcuts
+          </button>
         </div>
+        <RampSettings limits={rampLimits} onChange={handleRampLimitsChange} />
+        <EStopSettings />
+        <ProximitySettings config={proximity.config} onChange={proximity.setConfig} />
+        {showReleaseConfirm && (
+          <EStopReleaseDialog
+            onConfirm={confirmEStopRelease}
+            onCancel={() => setShowReleaseConfirm(false)}
+          />
+        )}
+        {showKeymapSettings && (
+          <KeymapSettings
+            keymap={keymap}
+            onSave={handleKeymapSave}
+            onClose={() => setShowKeymapSettings(false)}
+          />
+        )}
+        {showHelp && <ShortcutHelp keymap={keymap} onClose={() => setShowHelp(false)} />}
       </div>
     </div>
   );
@@ -1,14 +1,30 @@
+import { keyLabel } from "@/utilities/keymap";
+
 interface KeyProps {
   letter: string;
+  id?: string; // Element id used for press highlighting, defaults to the letter
+  onPress?: () => void; // Makes the key clickable and tappable
+  onRelease?: () => void; // Called when the pointer lets go, for keys that hold
 }
 
-function Key({ letter }: KeyProps) {
+function Key({ letter, id, onPress, onRelease }: KeyProps) {
   return (
     <div
-      id={letter}
-      className="h-15 w-15 bg-slate-50 rounded-sm flex justify-center items-center shadow-md transition-transform"
+      id={id ?? letter}
+      className={`h-15 w-15 bg-slate-50 rounded-sm flex justify-center items-center shadow-md transition-transform ${
+        onPress ? "cursor-pointer select-none touch-none active:scale-96 active:shadow-inner" : ""
+      }`}
+      onPointerDown={(e) => {
+        if (!onPress) return;
+        // Keep receiving the release even if the finger slides off the key
+        e.currentTarget.setPointerCapture(e.pointerId);
+        onPress();
+      }}
+      onPointerUp={onRelease}
+      onPointerCancel={onRelease}
+      onLostPointerCapture={onRelease}
     >
-      <p className="font-black">{letter.toUpperCase()}</p>
+      <p className="font-black">{keyLabel(letter)}</p>
     </div>
   );
 }
@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { RotateCcw, Save, X } from "lucide-react";
+import {
+  DEFAULT_KEYMAP,
+  KEY_ACTIONS,
+  KEY_ACTION_LABELS,
+  KeyAction,
+  Keymap,
+  RESERVED_KEYS,
+  WASD_KEYMAP,
+  findConflicts,
+  keyLabel,
+  normalizeKey,
+} from "@/utilities/keymap";
+
+interface KeymapSettingsProps {
+  keymap: Keymap;
+  onSave: (keymap: Keymap) => void;
+  onClose: () => void;
+}
+
+function KeymapSettings({ keymap, onSave, onClose }: KeymapSettingsProps) {
+  const [draft, setDraft] = useState<Keymap>(keymap);
+  const [capturing, setCapturing] = useState<KeyAction | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const conflicts = findConflicts(draft);
+  const conflictKeys = Object.keys(conflicts);
+
+  // Grab the next key press for the action being rebound. Registered in the
+  // capture phase so the teleop handlers never see it.
+  useEffect(() => {
+    if (!capturing) return;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopImmediatePropagation();
+
+      if (event.key === "Escape") {
+        setCapturing(null);
+        return;
+      }
+
+      const key = normalizeKey(event);
+      if (RESERVED_KEYS.includes(event.key) || RESERVED_KEYS.includes(key)) {
+        setStatus(`${keyLabel(key)} is reserved and can't be bound`);
+        return;
+      }
+
+      setDraft((prev) => ({ ...prev, [capturing]: key }));
+      setStatus(null);
+      setCapturing(null);
+    };
+
+    window.addEventListener("keydown", onKeyDown, true);
+    return () => window.removeEventListener("keydown", onKeyDown, true);
+  }, [capturing]);
+
+  const handleSave = () => {
+    if (conflictKeys.length > 0) {
+      setStatus("Resolve the conflicting bindings before saving");
+      return;
+    }
+    onSave(draft);
+    setStatus("Key bindings saved");
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center">
+      <div className="bg-white rounded-lg shadow-lg w-[600px] max-h-[90vh] overflow-y-auto p-5 text-sm">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-semibold">Key bindings</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-gray-200 transition-colors"
+            title="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 mb-4">
+          <span className="text-gray-500">Presets</span>
+          <button
+            onClick={() => setDraft(DEFAULT_KEYMAP)}
+            className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+          >
+            Default (UIO)
+          </button>
+          <button
+            onClick={() => setDraft(WASD_KEYMAP)}
+            className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+          >
+            WASD
+          </button>
+        </div>
+
+        <table className="w-[100%] mb-4">
+          <tbody>
+            {KEY_ACTIONS.map((action) => {
+              const conflicted = conflictKeys.includes(draft[action]);
+              return (
+                <tr key={action}>
+                  <td className="pr-3 py-1">{KEY_ACTION_LABELS[action]}</td>
+                  <td className="py-1 text-right">
+                    <button
+                      onClick={() => setCapturing(action)}
+                      className={`min-w-24 px-2 py-1 rounded border font-mono ${
+                        capturing === action
+                          ? "border-blue-500 bg-blue-50"
+                          : conflicted
+                          ? "border-red-500 bg-red-50 text-red-700"
+                          : "bg-gray-50 hover:bg-gray-100"
+                      }`}
+                      title="Click, then press the new key"
+                    >
+                      {capturing === action ? "Press a key…" : keyLabel(draft[action])}
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <p className="text-gray-500 mb-4">
+          Shift (dead-man) and ? (help) are fixed. Press Escape to cancel a rebind.
+        </p>
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            disabled={conflictKeys.length > 0}
+            className="flex items-center px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+          >
+            <Save size={16} className="mr-2" />
+            Save
+          </button>
+          <button
+            onClick={() => setDraft(keymap)}
+            className="flex items-center px-3 py-2 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+          >
+            <RotateCcw size={16} className="mr-2" />
+            Revert
+          </button>
+        </div>
+
+        {status && <p className="mt-3 text-gray-700">{status}</p>}
+        {conflictKeys.length > 0 && (
+          <ul className="mt-3 p-3 bg-red-50 text-red-800 rounded list-disc list-inside">
+            {conflictKeys.map((key) => (
+              <li key={key}>
+                {keyLabel(key)} is bound to{" "}
+                {conflicts[key].map((action) => KEY_ACTION_LABELS[action]).join(", ")}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default KeymapSettings;
@@ -2,6 +2,7 @@ import { useEffect, useRef } from "react";
 import ROSLIB from "roslib";
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import { useTopicProfile } from "@/context/TopicProfileContext";
 
 interface LidarVisualizationProps {
   ros: ROSLIB.Ros | null;
@@ -9,6 +10,7 @@ interface LidarVisualizationProps {
 }
 
 function LidarVisualization({ ros, connection }: LidarVisualizationProps) {
+  const { topic } = useTopicProfile();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
@@ -17,12 +19,10 @@ function LidarVisualization({ ros, connection }: LidarVisualizationProps) {
   const robotMarkerRef = useRef<THREE.Mesh | null>(null); // For robot position marker
   const statsRef = useRef<HTMLDivElement | null>(null);
 
-  const SLAM_TOPIC = "/husky3/sensors/lidar3d_0/points";
-  const MESSAGE_TYPE = "sensor_msgs/msg/PointCloud2";
-  const PATH_TOPIC = "/path";
-  const PATH_MESSAGE_TYPE = "nav_msgs/Path";
-  const CURRENT_POSITION_TOPIC = "/current_pose";
-  const CURRENT_POSITION_MESSAGE_TYPE = "geometry_msgs/PoseStamped";
+  const { name: SLAM_TOPIC, messageType: MESSAGE_TYPE } = topic("lidarPoints");
+  const { name: PATH_TOPIC, messageType: PATH_MESSAGE_TYPE } = topic("path");
+  const { name: CURRENT_POSITION_TOPIC, messageType: CURRENT_POSITION_MESSAGE_TYPE } =
+    topic("currentPose");
 
   // Initialize Three.js scene
   useEffect(() => {
@@ -169,7 +169,7 @@ function LidarVisualization({ ros, connection }: LidarVisualizationProps) {
     return () => {
       listener.unsubscribe();
     };
-  }, [ros, connection]);
+  }, [ros, connection, SLAM_TOPIC, MESSAGE_TYPE]);
 
   // ROS subscription for robot path
   useEffect(() => {
@@ -193,7 +193,7 @@ function LidarVisualization({ ros, connection }: LidarVisualizationProps) {
     return () => {
       pathListener.unsubscribe();
     };
-  }, [ros, connection]);
+  }, [ros, connection, PATH_TOPIC, PATH_MESSAGE_TYPE]);
 
   // ROS subscription for current robot position
   useEffect(() => {
@@ -217,7 +217,7 @@ function LidarVisualization({ ros, connection }: LidarVisualizationProps) {
     return () => {
       positionListener.unsubscribe();
     };
-  }, [ros, connection]);
+  }, [ros, connection, CURRENT_POSITION_TOPIC, CURRENT_POSITION_MESSAGE_TYPE]);
 
   // Function to update the robot marker position
   function updateRobotMarker(poseMsg: any, marker: THREE.Mesh) {
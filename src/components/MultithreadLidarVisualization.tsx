@@ -2,15 +2,110 @@ import { useEffect, useRef, useState, useMemo, useCallback } from "react";
 import ROSLIB from "roslib";
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import { X } from "lucide-react";
+import { useTopicProfile } from "@/context/TopicProfileContext";
+import { useDataContext } from "@/context/DataProvider";
+import { Navigation } from "@/hooks/useNavigation";
+import { NavPose2D, WaypointStatus } from "@/utilities/navigation";
+import { formatChainage, formatClock } from "@/utilities/pipePosition";
+import {
+  MAP_SNAPSHOT_HEIGHT,
+  MAP_SNAPSHOT_WIDTH,
+  MapSnapshotTarget,
+  MapSnapshots,
+  defectMapPosition,
+} from "@/utilities/mapSnapshot";
+import { severityColor, severityCss } from "@/utilities/severity";
 
 interface LidarVisualizationProps {
   ros: ROSLIB.Ros | null;
   connection: boolean;
+  navigation?: Navigation;
 }
 
+type PlacementMode = "none" | "goal" | "waypoint";
+
+const GOAL_COLOR = 0x00ccff;
+const WAYPOINT_COLORS: Record<WaypointStatus, number> = {
+  pending: 0xaaaaaa,
+  active: 0x3b82f6,
+  reached: 0x22c55e,
+  missed: 0xef4444,
+  cancelled: 0x555555,
+};
+
+const DEFECT_MARKER_RADIUS = 0.08;
+const SELECTED_MARKER_SCALE = 1.8;
+const FLY_DURATION_MS = 600;
+// Distance the camera settles at when flying to a defect
+const FLY_MIN_DISTANCE = 1.5;
+const FLY_MAX_DISTANCE = 4;
+
+// A press that moves less than this is a click, not an orbit drag
+const CLICK_TOLERANCE_PX = 5;
+
+// Map snapshots: the top-down view shows at least this much around the defect
+// and drops anything this far above it, so ceilings don't hide the floor plan
+const SNAPSHOT_MIN_HALF_EXTENT = 3; // m
+const SNAPSHOT_PADDING = 1; // m
+const SNAPSHOT_CEILING = 0.5; // m
+const SNAPSHOT_POINT_SIZE_PX = 2; // Orthographic cameras ignore size attenuation
+// The perspective view looks at the defect from behind and above the robot
+const SNAPSHOT_VIEW_BACK = 3; // m
+const SNAPSHOT_VIEW_UP = 2; // m
+
+// Text sprite that always faces the camera
+function makeDefectLabel(text: string, color: string): THREE.Sprite {
+  const canvas = document.createElement("canvas");
+  canvas.width = 256;
+  canvas.height = 64;
+  const ctx = canvas.getContext("2d");
+  if (ctx) {
+    ctx.fillStyle = "rgba(0, 0, 0, 0.7)";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, 12, canvas.height);
+    ctx.fillStyle = "white";
+    ctx.font = "bold 28px Arial";
+    ctx.textBaseline = "middle";
+    ctx.fillText(text, 24, canvas.height / 2);
+  }
+
+  const sprite = new THREE.Sprite(
+    new THREE.SpriteMaterial({ map: new THREE.CanvasTexture(canvas), depthTest: false })
+  );
+  sprite.scale.set(0.8, 0.2, 1);
+  sprite.position.y = DEFECT_MARKER_RADIUS * 4;
+  sprite.renderOrder = 10; // Drawn over the cloud so labels stay readable
+  return sprite;
+}
+
+const disposeObject = (object: THREE.Object3D) => {
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh || child instanceof THREE.Sprite) {
+      child.geometry.dispose();
+      const material = child.material as THREE.Material & { map?: THREE.Texture | null };
+      material.map?.dispose();
+      material.dispose();
+    }
+  });
+};
+
+// Goal arrows lie on the ground plane, ROS (x, y) maps to Three.js (x, -z)
+const makePoseArrow = (pose: NavPose2D, color: number) =>
+  new THREE.ArrowHelper(
+    new THREE.Vector3(Math.cos(pose.yaw), 0, -Math.sin(pose.yaw)),
+    new THREE.Vector3(pose.x, 0.05, -pose.y),
+    0.6,
+    color,
+    0.2,
+    0.12
+  );
+
 function MultithreadedLidarVisualization({
   ros,
   connection,
+  navigation,
 }: LidarVisualizationProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
@@ -23,6 +118,11 @@ function MultithreadedLidarVisualization({
   const controlsRef = useRef<OrbitControls | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const workerRef = useRef<Worker | null>(null);
+  const navGroupRef = useRef<THREE.Group | null>(null);
+  const previewArrowRef = useRef<THREE.ArrowHelper | null>(null);
+  const placementStartRef = useRef<THREE.Vector3 | null>(null);
+  const defectGroupRef = useRef<THREE.Group | null>(null);
+  const pickStartRef = useRef<{ x: number; y: number } | null>(null);
 
   const fpsCounterRef = useRef<{
     count: number;
@@ -40,22 +140,30 @@ function MultithreadedLidarVisualization({
   const [qualityLevel, setQualityLevel] = useState<string>("medium");
   const [showPath, setShowPath] = useState<boolean>(true);
   const [isVisible, setIsVisible] = useState<boolean>(true);
+  const [placementMode, setPlacementMode] = useState<PlacementMode>("none");
+
+  const { defects, selectedDefectId, selectDefect, registerMapRenderer } = useDataContext();
+  const selectedDefect = defects.find((d) => d.id === selectedDefectId) ?? null;
 
   const MAX_PATH_POINTS = 500;
   const MIN_UPDATE_INTERVAL = 100; // ms between point cloud updates
   const MIN_PATH_UPDATE_INTERVAL = 200; // ms between path updates
 
   // Optimization: Move topic definitions to useMemo
+  const { topic } = useTopicProfile();
+  const mapTopic = topic("map");
+  const pathTopic = topic("path");
+  const poseTopic = topic("currentPose");
   const topics = useMemo(
     () => ({
-      SLAM_TOPIC: "/map",
-      MESSAGE_TYPE: "sensor_msgs/msg/PointCloud2",
-      PATH_TOPIC: "/path",
-      PATH_MESSAGE_TYPE: "nav_msgs/Path",
-      CURRENT_POSITION_TOPIC: "/current_pose",
-      CURRENT_POSITION_MESSAGE_TYPE: "geometry_msgs/PoseStamped",
+      SLAM_TOPIC: mapTopic.name,
+      MESSAGE_TYPE: mapTopic.messageType,
+      PATH_TOPIC: pathTopic.name,
+      PATH_MESSAGE_TYPE: pathTopic.messageType,
+      CURRENT_POSITION_TOPIC: poseTopic.name,
+      CURRENT_POSITION_MESSAGE_TYPE: poseTopic.messageType,
     }),
-    []
+    [mapTopic.name, mapTopic.messageType, pathTopic.name, pathTopic.messageType, poseTopic.name, poseTopic.messageType]
   );
 
   // Path buffer optimization: pre-allocated with circular buffer pattern
@@ -185,6 +293,16 @@ function MultithreadedLidarVisualization({
     scene.add(robotMarker);
     robotMarkerRef.current = robotMarker;
 
+    // Navigation goal and waypoint arrows
+    const navGroup = new THREE.Group();
+    scene.add(navGroup);
+    navGroupRef.current = navGroup;
+
+    // Localized defects, picked by clicking
+    const defectGroup = new THREE.Group();
+    scene.add(defectGroup);
+    defectGroupRef.current = defectGroup;
+
     // Create stats display
     const stats = document.createElement("div");
     stats.style.position = "absolute";
@@ -562,6 +680,327 @@ function MultithreadedLidarVisualization({
     };
   }, [ros, connection, isVisible, topics]);
 
+  // Redraw navigation arrows when the goal, waypoints or their status change
+  const navGoal = navigation?.goal;
+  const navWaypoints = navigation?.waypoints;
+  const navWaypointStatus = navigation?.waypointStatus;
+  useEffect(() => {
+    const group = navGroupRef.current;
+    if (!group) return;
+
+    group.children.forEach((child) => (child as THREE.ArrowHelper).dispose());
+    group.clear();
+
+    if (navGoal) group.add(makePoseArrow(navGoal, GOAL_COLOR));
+    navWaypoints?.forEach((waypoint, i) => {
+      const status = navWaypointStatus?.[i] ?? "pending";
+      group.add(makePoseArrow(waypoint, WAYPOINT_COLORS[status]));
+    });
+  }, [navGoal, navWaypoints, navWaypointStatus, qualityLevel]);
+
+  // Severity-coloured marker and label for each defect with a known location.
+  // Defects only placed at the robot position are drawn see-through.
+  useEffect(() => {
+    const group = defectGroupRef.current;
+    if (!group) return;
+    group.children.forEach(disposeObject);
+    group.clear();
+
+    defects.forEach((defect) => {
+      const position = defectMapPosition(defect);
+      if (!position) return;
+
+      const marker = new THREE.Group();
+      marker.position.set(position.x, position.z, -position.y);
+      marker.userData.defectId = defect.id;
+
+      const color = severityColor(defect.severity);
+      const sphere = new THREE.Mesh(
+        new THREE.SphereGeometry(DEFECT_MARKER_RADIUS, 12, 8),
+        new THREE.MeshBasicMaterial({
+          color,
+          transparent: !defect.worldPosition,
+          opacity: defect.worldPosition ? 1 : 0.4,
+        })
+      );
+      const halo = new THREE.Mesh(
+        new THREE.SphereGeometry(DEFECT_MARKER_RADIUS * 1.6, 16, 12),
+        new THREE.MeshBasicMaterial({ color: 0xffffff, wireframe: true })
+      );
+      halo.name = "halo";
+      halo.visible = false;
+
+      marker.add(sphere, halo, makeDefectLabel(defect.id, severityCss(defect.severity)));
+      group.add(marker);
+    });
+  }, [defects, qualityLevel]);
+
+  // Highlight the selected defect
+  useEffect(() => {
+    defectGroupRef.current?.children.forEach((marker) => {
+      const selected = marker.userData.defectId === selectedDefectId;
+      marker.scale.setScalar(selected ? SELECTED_MARKER_SCALE : 1);
+      const halo = marker.getObjectByName("halo");
+      if (halo) halo.visible = selected;
+    });
+  }, [selectedDefectId, defects, qualityLevel]);
+
+  // Top-down and perspective images of the map around a defect. The main canvas
+  // is resized, drawn and read back within one task and restored before the
+  // browser paints, so the live view never shows the snapshot cameras.
+  const captureMapSnapshots = useCallback((target: MapSnapshotTarget): MapSnapshots | null => {
+    const renderer = rendererRef.current;
+    const scene = sceneRef.current;
+    const points = pointsRef.current;
+    const pathLine = pathLineRef.current;
+    if (!renderer || !scene || !points || !pathLine) return null;
+
+    const focus = new THREE.Vector3(target.position.x, target.position.z, -target.position.y);
+    const robotPosition = robotMarkerRef.current?.position.clone() ?? focus.clone();
+
+    // Always on top, the cloud around a pipe would otherwise bury it
+    const marker = new THREE.Group();
+    marker.position.copy(focus);
+    const sphere = new THREE.Mesh(
+      new THREE.SphereGeometry(DEFECT_MARKER_RADIUS * 1.5, 12, 8),
+      new THREE.MeshBasicMaterial({ color: severityColor(target.severity), depthTest: false })
+    );
+    sphere.renderOrder = 10;
+    marker.add(sphere, makeDefectLabel(target.label, severityCss(target.severity)));
+    scene.add(marker);
+
+    // Fit the top view to the path so far plus the defect
+    const { positions, currentLength } = pathBufferRef.current;
+    const bounds = new THREE.Box3().setFromPoints([focus, robotPosition]);
+    const pathPoint = new THREE.Vector3();
+    for (let i = 0; i < Math.min(currentLength, MAX_PATH_POINTS); i++) {
+      bounds.expandByPoint(pathPoint.fromArray(positions, i * 3));
+    }
+    const center = bounds.getCenter(new THREE.Vector3());
+    const aspect = MAP_SNAPSHOT_WIDTH / MAP_SNAPSHOT_HEIGHT;
+    const halfHeight = Math.max(
+      SNAPSHOT_MIN_HALF_EXTENT,
+      (bounds.max.z - bounds.min.z) / 2 + SNAPSHOT_PADDING,
+      ((bounds.max.x - bounds.min.x) / 2 + SNAPSHOT_PADDING) / aspect
+    );
+    const topCamera = new THREE.OrthographicCamera(
+      -halfHeight * aspect,
+      halfHeight * aspect,
+      halfHeight,
+      -halfHeight,
+      0.1,
+      100
+    );
+    // Map +x to the right and +y up, as on a printed plan
+    topCamera.up.set(0, 0, -1);
+    topCamera.position.set(center.x, focus.y + 20, center.z);
+    topCamera.lookAt(center.x, focus.y, center.z);
+    const ceiling = new THREE.Plane(new THREE.Vector3(0, -1, 0), focus.y + SNAPSHOT_CEILING);
+
+    const perspectiveCamera = new THREE.PerspectiveCamera(60, aspect, 0.05, 50);
+    const back = focus.clone().sub(robotPosition).setY(0);
+    if (back.lengthSq() < 0.01) back.set(1, 0, -1); // Robot on top of the defect
+    back.normalize().multiplyScalar(-SNAPSHOT_VIEW_BACK);
+    perspectiveCamera.position.copy(focus).add(back).setY(focus.y + SNAPSHOT_VIEW_UP);
+    perspectiveCamera.lookAt(focus);
+
+    const pointMaterial = points.material as THREE.PointsMaterial;
+    const pointSize = pointMaterial.size;
+    const pathVisible = pathLine.visible;
+    const size = renderer.getSize(new THREE.Vector2());
+    const pixelRatio = renderer.getPixelRatio();
+
+    pathLine.visible = true;
+    if (pathBufferRef.current.attribute) pathBufferRef.current.attribute.needsUpdate = true;
+    renderer.setPixelRatio(1);
+    renderer.setSize(MAP_SNAPSHOT_WIDTH, MAP_SNAPSHOT_HEIGHT, false);
+
+    try {
+      renderer.clippingPlanes = [ceiling];
+      pointMaterial.size = SNAPSHOT_POINT_SIZE_PX;
+      renderer.render(scene, topCamera);
+      const top = renderer.domElement.toDataURL("image/png");
+
+      renderer.clippingPlanes = [];
+      pointMaterial.size = pointSize;
+      renderer.render(scene, perspectiveCamera);
+      const perspective = renderer.domElement.toDataURL("image/png");
+
+      return { top, perspective };
+    } catch (err) {
+      console.error("Failed to capture map snapshots:", err);
+      return null;
+    } finally {
+      renderer.clippingPlanes = [];
+      pointMaterial.size = pointSize;
+      pathLine.visible = pathVisible;
+      scene.remove(marker);
+      disposeObject(marker);
+      renderer.setPixelRatio(pixelRatio);
+      renderer.setSize(size.x, size.y, false);
+      if (cameraRef.current) renderer.render(scene, cameraRef.current);
+    }
+  }, []);
+
+  useEffect(() => {
+    registerMapRenderer({ capture: captureMapSnapshots });
+    return () => registerMapRenderer(null);
+  }, [registerMapRenderer, captureMapSnapshots]);
+
+  // Fly the camera to a defect selected here or in the queue
+  const selectedPosition = selectedDefect ? defectMapPosition(selectedDefect) : null;
+  const selectedPositionRef = useRef(selectedPosition);
+  selectedPositionRef.current = selectedPosition;
+  // Only fly when the selection or its location changes, not on every defects update
+  const selectedKey = selectedPosition
+    ? `${selectedDefectId}:${selectedPosition.x}:${selectedPosition.y}:${selectedPosition.z}`
+    : null;
+  useEffect(() => {
+    const position = selectedPositionRef.current;
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!selectedKey || !position || !camera || !controls) return;
+
+    const target = new THREE.Vector3(position.x, position.z, -position.y);
+    const startTarget = controls.target.clone();
+    const startPosition = camera.position.clone();
+    // Keep the current viewing direction, just move in to a comfortable distance
+    const offset = startPosition.clone().sub(startTarget);
+    offset.setLength(THREE.MathUtils.clamp(offset.length(), FLY_MIN_DISTANCE, FLY_MAX_DISTANCE));
+    const endPosition = target.clone().add(offset);
+
+    const startTime = performance.now();
+    let frame = 0;
+    const step = (now: number) => {
+      const t = Math.min(1, (now - startTime) / FLY_DURATION_MS);
+      const eased = t * t * (3 - 2 * t);
+      controls.target.lerpVectors(startTarget, target, eased);
+      camera.position.lerpVectors(startPosition, endPosition, eased);
+      if (t < 1) frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [selectedKey]);
+
+  // Orbit controls would fight the drag used to set a heading
+  useEffect(() => {
+    if (controlsRef.current) {
+      controlsRef.current.enabled = placementMode === "none";
+    }
+  }, [placementMode, qualityLevel]);
+
+  // Project a pointer position onto the ground plane
+  const groundPointFromEvent = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    const camera = cameraRef.current;
+    if (!canvas || !camera) return null;
+
+    const rect = canvas.getBoundingClientRect();
+    const ndc = new THREE.Vector2(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    const raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera(ndc, camera);
+
+    const ground = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+    const point = new THREE.Vector3();
+    return raycaster.ray.intersectPlane(ground, point);
+  };
+
+  // Heading from the press point towards the current pointer, in the ROS map frame
+  const poseFromDrag = (start: THREE.Vector3, end: THREE.Vector3 | null): NavPose2D => {
+    const dx = end ? end.x - start.x : 0;
+    const dy = end ? -(end.z - start.z) : 0;
+    const yaw = Math.hypot(dx, dy) > 0.05 ? Math.atan2(dy, dx) : 0;
+    return { x: start.x, y: -start.z, yaw };
+  };
+
+  const clearPreview = () => {
+    if (previewArrowRef.current) {
+      sceneRef.current?.remove(previewArrowRef.current);
+      previewArrowRef.current.dispose();
+      previewArrowRef.current = null;
+    }
+  };
+
+  // Defect marker under the pointer, if any
+  const pickDefect = (event: React.PointerEvent<HTMLCanvasElement>): string | null => {
+    const canvas = canvasRef.current;
+    const camera = cameraRef.current;
+    const group = defectGroupRef.current;
+    if (!canvas || !camera || !group) return null;
+
+    const rect = canvas.getBoundingClientRect();
+    const ndc = new THREE.Vector2(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    const raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera(ndc, camera);
+    // Hits land on the sphere, halo or label; the id is on their parent group
+    const [hit] = raycaster.intersectObjects(group.children, true);
+    return hit ? ((hit.object.parent?.userData.defectId as string | undefined) ?? null) : null;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (placementMode === "none") {
+      pickStartRef.current = { x: event.clientX, y: event.clientY };
+      return;
+    }
+    handlePlacementDown(event);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const pickStart = pickStartRef.current;
+    pickStartRef.current = null;
+    if (pickStart) {
+      // Orbiting ends with a pointer up too; only a click picks
+      if (Math.hypot(event.clientX - pickStart.x, event.clientY - pickStart.y) < CLICK_TOLERANCE_PX) {
+        selectDefect(pickDefect(event));
+      }
+      return;
+    }
+    handlePlacementUp(event);
+  };
+
+  const handlePlacementDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = groundPointFromEvent(event);
+    if (!start) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    placementStartRef.current = start;
+    clearPreview();
+    const preview = makePoseArrow(poseFromDrag(start, null), 0xffffff);
+    sceneRef.current?.add(preview);
+    previewArrowRef.current = preview;
+  };
+
+  const handlePlacementMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = placementStartRef.current;
+    const preview = previewArrowRef.current;
+    if (!start || !preview) return;
+
+    const pose = poseFromDrag(start, groundPointFromEvent(event));
+    preview.setDirection(new THREE.Vector3(Math.cos(pose.yaw), 0, -Math.sin(pose.yaw)));
+  };
+
+  const handlePlacementUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = placementStartRef.current;
+    if (!start || !navigation) return;
+
+    placementStartRef.current = null;
+    clearPreview();
+    const pose = poseFromDrag(start, groundPointFromEvent(event));
+
+    if (placementMode === "goal") {
+      navigation.sendGoal(pose);
+      setPlacementMode("none");
+    } else if (placementMode === "waypoint") {
+      navigation.addWaypoint(pose);
+    }
+  };
+
   // Update path visibility
   useEffect(() => {
     if (pathLineRef.current) {
@@ -764,6 +1203,38 @@ function MultithreadedLidarVisualization({
             <option value={4}>Low</option>
           </select>
         </div>
+        {navigation && (
+          <div style={{ display: "flex", gap: "10px" }}>
+            <button
+              onClick={() => setPlacementMode((prev) => (prev === "goal" ? "none" : "goal"))}
+              title="Click a spot, drag to set the heading"
+              style={{
+                background: placementMode === "goal" ? "#0891b2" : "#555",
+                padding: "3px 6px",
+                borderRadius: "3px",
+                border: "none",
+                cursor: "pointer",
+              }}
+            >
+              Set Goal
+            </button>
+            <button
+              onClick={() =>
+                setPlacementMode((prev) => (prev === "waypoint" ? "none" : "waypoint"))
+              }
+              title="Click spots in order, drag to set each heading"
+              style={{
+                background: placementMode === "waypoint" ? "#0891b2" : "#555",
+                padding: "3px 6px",
+                borderRadius: "3px",
+                border: "none",
+                cursor: "pointer",
+              }}
+            >
+              {placementMode === "waypoint" ? "Done" : "Add Waypoints"}
+            </button>
+          </div>
+        )}
         <div style={{ display: "flex", gap: "10px" }}>
           <button
             onClick={clearPath}
@@ -795,6 +1266,8 @@ function MultithreadedLidarVisualization({
     [
       decimationFactor,
       showPath,
+      navigation,
+      placementMode,
       handleQualityAdjustment,
       clearPath,
       togglePathVisibility,
@@ -811,10 +1284,37 @@ function MultithreadedLidarVisualization({
           display: "block",
           outline: "none",
           touchAction: "none", // Prevents touch actions from interfering with controls
+          cursor: placementMode === "none" ? undefined : "crosshair",
         }}
         tabIndex={0} // Make canvas focusable
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePlacementMove}
+        onPointerUp={handlePointerUp}
       />
       {controlPanel}
+      {selectedDefect && (
+        <div className="absolute bottom-10 right-2.5 w-56 p-2.5 rounded-md bg-black/70 text-white text-xs z-[100]">
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-semibold">{selectedDefect.id}</span>
+            <button onClick={() => selectDefect(null)} title="Close">
+              <X size={12} />
+            </button>
+          </div>
+          <div>
+            {selectedDefect.type} · {selectedDefect.severity} · {selectedDefect.confidence.toFixed(1)}%
+          </div>
+          <div>Chainage: {formatChainage(selectedDefect.chainage)}</div>
+          <div>Clock: {formatClock(selectedDefect.clock)}</div>
+          {selectedPosition ? (
+            <div className="font-mono">
+              ({selectedPosition.x.toFixed(2)}, {selectedPosition.y.toFixed(2)}, {selectedPosition.z.toFixed(2)})
+              {!selectedDefect.worldPosition && " robot"}
+            </div>
+          ) : (
+            <div className="text-gray-300">No location in the map</div>
+          )}
+        </div>
+      )}
     </>
   );
 }
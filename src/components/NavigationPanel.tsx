@@ -0,0 +1,115 @@
+import { ArrowDown, ArrowUp, Play, Square, Trash2, X } from "lucide-react";
+import { Navigation } from "@/hooks/useNavigation";
+import { MissionState, WaypointStatus } from "@/utilities/navigation";
+
+interface NavigationPanelProps {
+  navigation: Navigation;
+}
+
+const MISSION_COLORS: Record<MissionState, string> = {
+  idle: "text-gray-300",
+  pending: "text-yellow-300",
+  active: "text-blue-300",
+  succeeded: "text-green-400",
+  aborted: "text-red-400",
+  rejected: "text-red-400",
+  cancelled: "text-gray-300",
+};
+
+const WAYPOINT_COLORS: Record<WaypointStatus, string> = {
+  pending: "bg-gray-500",
+  active: "bg-blue-500",
+  reached: "bg-green-500",
+  missed: "bg-red-500",
+  cancelled: "bg-gray-700",
+};
+
+const buttonStyle = "flex items-center px-2 py-1 rounded bg-gray-600 hover:bg-gray-500 transition-colors";
+
+function NavigationPanel({ navigation }: NavigationPanelProps) {
+  const { mission, missionActive, waypoints, waypointStatus } = navigation;
+
+  if (!mission && waypoints.length === 0) return null;
+
+  const feedback = mission?.feedback ?? {};
+
+  return (
+    <div className="absolute top-2.5 right-2.5 w-64 p-2.5 rounded-md bg-black/60 text-white text-xs flex flex-col gap-2 z-[100]">
+      {mission && (
+        <div>
+          <div className="flex items-center justify-between">
+            <span className="font-semibold">
+              {mission.kind === "goal" ? "Navigate to goal" : "Waypoint mission"}
+            </span>
+            <span className={`font-semibold uppercase ${MISSION_COLORS[mission.state]}`}>
+              {mission.state}
+            </span>
+          </div>
+          {feedback.distanceRemaining !== undefined && (
+            <div>Remaining: {feedback.distanceRemaining.toFixed(2)} m</div>
+          )}
+          {feedback.etaSeconds !== undefined && <div>ETA: {Math.round(feedback.etaSeconds)} s</div>}
+          {!!feedback.recoveries && <div>Recoveries: {feedback.recoveries}</div>}
+          {feedback.currentWaypoint !== undefined && (
+            <div>
+              Waypoint {feedback.currentWaypoint + 1} of {waypoints.length}
+            </div>
+          )}
+          {mission.message && <div className="text-gray-300">{mission.message}</div>}
+          {missionActive && (
+            <button onClick={navigation.cancel} className={`${buttonStyle} mt-1 bg-red-700 hover:bg-red-600`}>
+              <Square size={12} className="mr-1" />
+              Cancel
+            </button>
+          )}
+        </div>
+      )}
+
+      {waypoints.length > 0 && (
+        <div>
+          <div className="font-semibold mb-1">Waypoints</div>
+          <ol className="max-h-40 overflow-y-auto flex flex-col gap-1">
+            {waypoints.map((waypoint, i) => (
+              <li key={i} className="flex items-center gap-1">
+                <span
+                  className={`h-2.5 w-2.5 rounded-full ${WAYPOINT_COLORS[waypointStatus[i] ?? "pending"]}`}
+                  title={waypointStatus[i] ?? "pending"}
+                />
+                <span className="font-mono flex-1">
+                  {i + 1}. ({waypoint.x.toFixed(1)}, {waypoint.y.toFixed(1)})
+                </span>
+                {!missionActive && (
+                  <>
+                    <button onClick={() => navigation.moveWaypoint(i, -1)} title="Move up">
+                      <ArrowUp size={12} />
+                    </button>
+                    <button onClick={() => navigation.moveWaypoint(i, 1)} title="Move down">
+                      <ArrowDown size={12} />
+                    </button>
+                    <button onClick={() => navigation.removeWaypoint(i)} title="Remove">
+                      <X size={12} />
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ol>
+          {!missionActive && (
+            <div className="flex gap-2 mt-2">
+              <button onClick={navigation.startWaypoints} className={buttonStyle}>
+                <Play size={12} className="mr-1" />
+                Start mission
+              </button>
+              <button onClick={navigation.clearWaypoints} className={buttonStyle}>
+                <Trash2 size={12} className="mr-1" />
+                Clear
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default NavigationPanel;
@@ -0,0 +1,81 @@
+import { RotateCcw } from "lucide-react";
+import { DEFAULT_PROXIMITY_CONFIG, ProximityConfig } from "@/utilities/proximity";
+
+interface ProximitySettingsProps {
+  config: ProximityConfig;
+  onChange: (config: ProximityConfig) => void;
+}
+
+type NumericField = Exclude<keyof ProximityConfig, "enabled">;
+
+const FIELDS: { field: NumericField; label: string; step: number; min?: number }[] = [
+  { field: "slowDistance", label: "Slow zone (m)", step: 0.1, min: 0.1 },
+  { field: "stopDistance", label: "Stop zone (m)", step: 0.05, min: 0.05 },
+  { field: "corridorHalfWidth", label: "Half width (m)", step: 0.05, min: 0.05 },
+  { field: "bumperOffset", label: "Bumper offset (m)", step: 0.05 },
+  { field: "minHeight", label: "Min height (m)", step: 0.05 },
+  { field: "maxHeight", label: "Max height (m)", step: 0.05 },
+  { field: "decimation", label: "Use every nth point", step: 1, min: 1 },
+];
+
+function ProximitySettings({ config, onChange }: ProximitySettingsProps) {
+  const updateField = (field: NumericField, value: string) => {
+    const parsed = parseFloat(value);
+    if (!Number.isFinite(parsed)) return;
+
+    const next = {
+      ...config,
+      [field]: field === "decimation" ? Math.max(1, Math.round(parsed)) : parsed,
+    };
+    // The stop zone has to sit inside the slow zone for the speed fall-off to make sense
+    if (next.stopDistance >= next.slowDistance) return;
+    onChange(next);
+  };
+
+  const inputClass = "bg-white border rounded px-1 w-16 font-mono";
+
+  return (
+    <details className="mt-3 mx-auto w-fit text-sm">
+      <summary className="cursor-pointer text-gray-600">Lidar proximity guard</summary>
+      <div className="mt-2 p-3 bg-gray-200 rounded-md">
+        <label className="flex items-center gap-2 mb-2">
+          <input
+            type="checkbox"
+            checked={config.enabled}
+            onChange={(e) => onChange({ ...config, enabled: e.target.checked })}
+          />
+          Slow and stop forward motion near obstacles
+        </label>
+        {/* Remount on change so the uncontrolled inputs pick up a reset */}
+        <div key={JSON.stringify(config)} className="grid grid-cols-2 gap-2 items-center">
+          {FIELDS.map(({ field, label, step, min }) => (
+            <label key={field} className="contents">
+              <span className="text-gray-500">{label}</span>
+              <input
+                type="number"
+                step={step}
+                min={min}
+                defaultValue={config[field]}
+                onBlur={(e) => updateField(field, e.target.value)}
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </div>
+        <div className="flex items-center justify-between mt-2">
+          <span className="text-gray-500">Distances are measured from the bumper.</span>
+          <button
+            onClick={() => onChange(DEFAULT_PROXIMITY_CONFIG)}
+            className="flex items-center px-2 py-1 rounded hover:bg-gray-300 transition-colors"
+            title="Reset to defaults"
+          >
+            <RotateCcw size={14} className="mr-1" />
+            Reset
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+}
+
+export default ProximitySettings;
@@ -0,0 +1,108 @@
+import { RotateCcw } from "lucide-react";
+import { AxisLimits, DEFAULT_RAMP_LIMITS, RampLimits } from "@/utilities/velocitySmoother";
+
+interface RampSettingsProps {
+  limits: RampLimits;
+  onChange: (limits: RampLimits) => void;
+}
+
+const AXIS_FIELDS: { field: keyof AxisLimits; label: string }[] = [
+  { field: "accel", label: "Accel" },
+  { field: "decel", label: "Decel" },
+  { field: "jerk", label: "Jerk" },
+];
+
+// Ignore empty or negative input instead of saving a limit that would freeze the ramp
+const parseLimit = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+function RampSettings({ limits, onChange }: RampSettingsProps) {
+  const updateAxis = (axis: "linear" | "angular", field: keyof AxisLimits, value: string) => {
+    const parsed = parseLimit(value);
+    if (parsed === null) return;
+    onChange({ ...limits, [axis]: { ...limits[axis], [field]: parsed } });
+  };
+
+  const updateRelease = (field: "releaseLinearDecel" | "releaseAngularDecel", value: string) => {
+    const parsed = parseLimit(value);
+    if (parsed === null) return;
+    onChange({ ...limits, [field]: parsed });
+  };
+
+  const inputClass = "bg-white border rounded px-1 w-16 font-mono";
+
+  return (
+    <details className="mt-3 mx-auto w-fit text-sm">
+      <summary className="cursor-pointer text-gray-600">Velocity ramping</summary>
+      <div className="mt-2 p-3 bg-gray-200 rounded-md">
+        {/* Remount on change so the uncontrolled inputs pick up a reset */}
+        <div key={JSON.stringify(limits)} className="grid grid-cols-5 gap-2 items-center">
+          <span />
+          {AXIS_FIELDS.map(({ field, label }) => (
+            <span key={field} className="text-gray-500">
+              {label}
+            </span>
+          ))}
+          <span className="text-gray-500">Release decel</span>
+
+          <span className="font-semibold">Linear</span>
+          {AXIS_FIELDS.map(({ field }) => (
+            <input
+              key={field}
+              type="number"
+              step="0.1"
+              min="0.1"
+              defaultValue={limits.linear[field]}
+              onBlur={(e) => updateAxis("linear", field, e.target.value)}
+              className={inputClass}
+            />
+          ))}
+          <input
+            type="number"
+            step="0.1"
+            min="0.1"
+            defaultValue={limits.releaseLinearDecel}
+            onBlur={(e) => updateRelease("releaseLinearDecel", e.target.value)}
+            className={inputClass}
+          />
+
+          <span className="font-semibold">Angular</span>
+          {AXIS_FIELDS.map(({ field }) => (
+            <input
+              key={field}
+              type="number"
+              step="0.1"
+              min="0.1"
+              defaultValue={limits.angular[field]}
+              onBlur={(e) => updateAxis("angular", field, e.target.value)}
+              className={inputClass}
+            />
+          ))}
+          <input
+            type="number"
+            step="0.1"
+            min="0.1"
+            defaultValue={limits.releaseAngularDecel}
+            onBlur={(e) => updateRelease("releaseAngularDecel", e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex items-center justify-between mt-2">
+          <span className="text-gray-500">Linear in m/s², m/s³. Angular in rad/s², rad/s³.</span>
+          <button
+            onClick={() => onChange(DEFAULT_RAMP_LIMITS)}
+            className="flex items-center px-2 py-1 rounded hover:bg-gray-300 transition-colors"
+            title="Reset to defaults"
+          >
+            <RotateCcw size={14} className="mr-1" />
+            Reset
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+}
+
+export default RampSettings;
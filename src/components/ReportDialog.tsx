@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { FileSpreadsheet, FileText, ImagePlus, X } from "lucide-react";
+import { useDataContext } from "@/context/DataProvider";
+import { useSession } from "@/context/SessionContext";
+import { BulkExportProgress } from "@/utilities/defectExport";
+import { desktopAPI, isDesktop } from "@/utilities/desktop";
+import { ReportSettings, validateReportSettings } from "@/utilities/inspectionReport";
+import { loadSetting, saveSetting } from "@/utilities/settings";
+
+const SETTINGS_KEY = "reportSettings";
+
+// Picks a session and the report branding, then has main write the PDF
+function ReportDialog({ onClose }: { onClose: () => void }) {
+  const { sessions, activeSession, getSessionPath } = useSession();
+  const { defects } = useDataContext();
+
+  const ordered = [...sessions].sort((a, b) => b.startedAt - a.startedAt);
+  const [sessionId, setSessionId] = useState<string>(activeSession?.id ?? ordered[0]?.id ?? "");
+  const [settings, setSettings] = useState<ReportSettings>(() =>
+    validateReportSettings(loadSetting<unknown>(SETTINGS_KEY, null))
+  );
+  const [busy, setBusy] = useState<boolean>(false);
+  const [progress, setProgress] = useState<BulkExportProgress | null>(null);
+  const [message, setMessage] = useState<{ error: boolean; text: string } | null>(null);
+
+  const session = sessions.find((s) => s.id === sessionId);
+  const sessionDefects = defects.filter((d) => d.sessionId === sessionId);
+
+  const exporting = progress !== null;
+
+  // Main reports progress per defect while the PACP export copies images
+  useEffect(() => {
+    if (!exporting || !isDesktop()) return;
+    return desktopAPI("PACP export").onDefectExportProgress(setProgress);
+  }, [exporting]);
+
+  const update = (next: ReportSettings) => {
+    setSettings(next);
+    saveSetting(SETTINGS_KEY, next);
+  };
+
+  const chooseLogo = async () => {
+    try {
+      const logoPath = await desktopAPI("Choosing a logo").selectReportLogo();
+      if (logoPath) update({ ...settings, logoPath });
+    } catch (error) {
+      setMessage({ error: true, text: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!session) return;
+
+    setBusy(true);
+    setMessage(null);
+    try {
+      const result = await desktopAPI("Saving PDF reports").saveInspectionReport({
+        session,
+        path: getSessionPath(session.id),
+        defects: sessionDefects,
+        settings,
+      });
+      if (result.success) {
+        setMessage({ error: false, text: `Saved ${result.filePath}` });
+      } else if (result.error !== "Save cancelled") {
+        setMessage({ error: true, text: result.error ?? "Report could not be saved" });
+      }
+    } catch (error) {
+      console.error("Report generation failed:", error);
+      setMessage({ error: true, text: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Inspection and condition tables with the defect frames, written by main
+  const handleExportPACP = async () => {
+    if (!session) return;
+
+    setProgress({ done: 0, total: sessionDefects.length });
+    setMessage(null);
+    try {
+      const result = await desktopAPI("PACP export").exportDefects({
+        defects: sessionDefects,
+        sessions: [session],
+        path: getSessionPath(session.id),
+        format: "pacp",
+        name: `${session.id}_PACP`,
+      });
+      if (result.success) {
+        setMessage({ error: false, text: `Saved ${result.filePath} and the conditions table, images in ${result.imageDir}` });
+      } else if (result.error !== "Save cancelled") {
+        setMessage({ error: true, text: result.error ?? "PACP export failed" });
+      }
+    } catch (error) {
+      console.error("PACP export failed:", error);
+      setMessage({ error: true, text: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center">
+      <div className="bg-white text-gray-800 rounded-lg shadow-lg w-[500px] max-h-[90vh] overflow-y-auto p-5 text-sm">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-semibold">Inspection report</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-gray-200 transition-colors"
+            title="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {ordered.length === 0 ? (
+          <p className="mb-4 text-gray-500">Start an inspection to record a session for the report.</p>
+        ) : (
+          <label className="flex flex-col mb-4">
+            <span className="text-gray-500">Session</span>
+            <select
+              value={sessionId}
+              onChange={(e) => setSessionId(e.target.value)}
+              className="border rounded px-2 py-1"
+            >
+              {ordered.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.metadata.segmentId} · {new Date(s.startedAt).toLocaleString()}
+                  {s.status !== "ended" ? " (open)" : ""}
+                </option>
+              ))}
+            </select>
+            <span className="text-gray-500 text-xs mt-1">
+              {sessionDefects.length} defect{sessionDefects.length === 1 ? "" : "s"}
+            </span>
+          </label>
+        )}
+
+        <div className="flex flex-col gap-3 mb-4">
+          <label className="flex flex-col">
+            <span className="text-gray-500">Company</span>
+            <input
+              value={settings.companyName}
+              onChange={(e) => update({ ...settings, companyName: e.target.value })}
+              className="border rounded px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-gray-500">Page header</span>
+            <input
+              value={settings.headerText}
+              onChange={(e) => update({ ...settings, headerText: e.target.value })}
+              className="border rounded px-2 py-1"
+            />
+          </label>
+          <div className="flex flex-col">
+            <span className="text-gray-500">Logo</span>
+            <div className="flex items-center gap-2">
+              <span className="flex-1 truncate font-mono text-xs" title={settings.logoPath ?? undefined}>
+                {settings.logoPath ?? "None"}
+              </span>
+              <button
+                type="button"
+                onClick={chooseLogo}
+                className="flex items-center px-2 py-1 border rounded hover:bg-gray-100 transition-colors"
+              >
+                <ImagePlus size={14} className="mr-1" />
+                Choose
+              </button>
+              {settings.logoPath && (
+                <button
+                  type="button"
+                  onClick={() => update({ ...settings, logoPath: null })}
+                  className="p-1 rounded hover:bg-gray-200 transition-colors"
+                  title="Remove logo"
+                >
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleGenerate}
+            disabled={!session || busy || exporting}
+            className="flex items-center px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            <FileText size={16} className="mr-2" />
+            {busy ? "Generating…" : "Save PDF report"}
+          </button>
+          <button
+            onClick={handleExportPACP}
+            disabled={!session || busy || exporting}
+            className="flex items-center px-3 py-2 border rounded hover:bg-gray-100 disabled:opacity-50 transition-colors"
+            title="Inspection and condition tables in the PACP exchange layout"
+          >
+            <FileSpreadsheet size={16} className="mr-2" />
+            {exporting ? "Exporting…" : "Export PACP"}
+          </button>
+        </div>
+
+        {progress && (
+          <div className="mt-3">
+            <div className="h-2 bg-gray-200 rounded overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-all"
+                style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+            <span className="text-xs text-gray-500">
+              {progress.done} of {progress.total} defects
+            </span>
+          </div>
+        )}
+
+        {message && (
+          <p className={`mt-3 p-2 rounded break-all ${message.error ? "bg-red-50 text-red-800" : "bg-green-50 text-green-800"}`}>
+            {message.text}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ReportDialog;
@@ -0,0 +1,137 @@
+import { FormEvent, useState } from "react";
+import { Plus, Settings, Trash2 } from "lucide-react";
+import { useRosContext, RobotConfig, DEFAULT_ROSBRIDGE_URL } from "@/context/RosContext";
+
+const emptyRobot = (): RobotConfig => ({
+  id: `robot-${Date.now()}`,
+  name: "",
+  namespace: "",
+  url: DEFAULT_ROSBRIDGE_URL,
+});
+
+function RobotSelector() {
+  const { robots, activeRobot, selectRobot, saveRobot, removeRobot } = useRosContext();
+  const [editing, setEditing] = useState<RobotConfig | null>(null);
+
+  const isNew = editing !== null && !robots.some((r) => r.id === editing.id);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!editing || !editing.name.trim() || !editing.url.trim()) return;
+
+    saveRobot({
+      ...editing,
+      name: editing.name.trim(),
+      namespace: editing.namespace.trim(),
+      url: editing.url.trim(),
+    });
+    if (isNew) selectRobot(editing.id);
+    setEditing(null);
+  };
+
+  const handleRemove = () => {
+    if (!editing) return;
+    removeRobot(editing.id);
+    if (editing.id === activeRobot.id) {
+      const fallback = robots.find((r) => r.id !== editing.id);
+      if (fallback) selectRobot(fallback.id);
+    }
+    setEditing(null);
+  };
+
+  return (
+    <div className="relative flex items-center gap-2 text-white">
+      <select
+        value={activeRobot.id}
+        onChange={(e) => selectRobot(e.target.value)}
+        className="bg-indigo-800 border border-indigo-500 rounded px-2 py-1 text-sm"
+        aria-label="Active robot"
+      >
+        {robots.map((robot) => (
+          <option key={robot.id} value={robot.id}>
+            {robot.name} ({robot.namespace || "/"})
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() => setEditing({ ...activeRobot })}
+        className="p-1 rounded hover:bg-indigo-700 transition-colors"
+        title="Edit robot"
+      >
+        <Settings size={18} />
+      </button>
+      <button
+        onClick={() => setEditing(emptyRobot())}
+        className="p-1 rounded hover:bg-indigo-700 transition-colors"
+        title="Add robot"
+      >
+        <Plus size={18} />
+      </button>
+
+      {editing && (
+        <form
+          onSubmit={handleSubmit}
+          className="absolute top-10 left-0 z-50 w-80 bg-white text-gray-800 rounded-lg shadow-lg border p-4 flex flex-col gap-2 text-sm"
+        >
+          <h3 className="font-semibold">{isNew ? "Add robot" : `Edit ${editing.name}`}</h3>
+          <label className="flex flex-col">
+            <span className="text-gray-500">Name</span>
+            <input
+              value={editing.name}
+              onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+              className="border rounded px-2 py-1"
+              required
+            />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-gray-500">Namespace</span>
+            <input
+              value={editing.namespace}
+              onChange={(e) => setEditing({ ...editing, namespace: e.target.value })}
+              className="border rounded px-2 py-1"
+              placeholder="/husky3"
+              spellCheck={false}
+            />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-gray-500">Rosbridge URL</span>
+            <input
+              value={editing.url}
+              onChange={(e) => setEditing({ ...editing, url: e.target.value })}
+              className="border rounded px-2 py-1"
+              spellCheck={false}
+              required
+            />
+          </label>
+          <div className="flex gap-2 mt-2">
+            <button
+              type="submit"
+              className="flex-1 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditing(null)}
+              className="flex-1 py-1 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+            {!isNew && robots.length > 1 && (
+              <button
+                type="button"
+                onClick={handleRemove}
+                className="p-1 text-red-600 rounded hover:bg-red-50 transition-colors"
+                title="Remove robot"
+              >
+                <Trash2 size={18} />
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
+
+export default RobotSelector;
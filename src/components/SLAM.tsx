@@ -2,6 +2,8 @@ import { Ros } from "roslib";
 import LidarVisualization from "./LidarVisualization";
 import FastLidarVisualization from "./FastLidarVisualization";
 import MultithreadLidarVisualization from "./MultithreadLidarVisualization";
+import NavigationPanel from "./NavigationPanel";
+import { useNavigation } from "@/hooks/useNavigation";
 
 interface SLAMProps {
   connection?: boolean;
@@ -9,6 +11,8 @@ interface SLAMProps {
 }
 
 function SLAM({ connection = false, ros = null }: SLAMProps) {
+  const navigation = useNavigation(ros, connection);
+
   return (
     <div className="rounded-lg bg-gray-100 w-[100%] aspect-video relative">
       {!connection ? (
@@ -18,7 +22,10 @@ function SLAM({ connection = false, ros = null }: SLAMProps) {
       ) : (
         // <LidarVisualization ros={ros} connection={connection} />
         // <FastLidarVisualization ros={ros} connection={connection} />
-        <MultithreadLidarVisualization ros={ros} connection={connection} />
+        <>
+          <MultithreadLidarVisualization ros={ros} connection={connection} navigation={navigation} />
+          <NavigationPanel navigation={navigation} />
+        </>
       )}
     </div>
   );
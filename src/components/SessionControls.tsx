@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { ClipboardList, Pause, Pencil, Play, Square } from "lucide-react";
+import { useSession } from "@/context/SessionContext";
+import SessionDialog from "./SessionDialog";
+
+// Header widget showing the active inspection with start/pause/end controls
+function SessionControls() {
+  const { activeSession, pauseSession, resumeSession, endSession } = useSession();
+  const [dialog, setDialog] = useState<"start" | "edit" | null>(null);
+
+  const handleEnd = () => {
+    if (!activeSession) return;
+    if (window.confirm(`End inspection of segment ${activeSession.metadata.segmentId}?`)) {
+      endSession();
+    }
+  };
+
+  const buttonStyle = "p-1 rounded hover:bg-indigo-700 transition-colors";
+
+  return (
+    <div className="flex items-center gap-2 text-white text-sm">
+      {activeSession ? (
+        <>
+          <span
+            className={`h-2.5 w-2.5 rounded-full ${
+              activeSession.status === "active" ? "bg-red-500 animate-pulse" : "bg-yellow-400"
+            }`}
+            title={activeSession.status === "active" ? "Recording" : "Paused"}
+          />
+          <span className="flex flex-col leading-tight">
+            <span className="font-semibold">{activeSession.metadata.segmentId}</span>
+            <span className="text-indigo-200 text-xs">
+              {activeSession.metadata.upstreamManhole} → {activeSession.metadata.downstreamManhole}
+              {activeSession.status === "paused" && " · paused"}
+            </span>
+          </span>
+          {activeSession.status === "active" ? (
+            <button onClick={pauseSession} className={buttonStyle} title="Pause inspection">
+              <Pause size={18} />
+            </button>
+          ) : (
+            <button onClick={resumeSession} className={buttonStyle} title="Resume inspection">
+              <Play size={18} />
+            </button>
+          )}
+          <button onClick={handleEnd} className={buttonStyle} title="End inspection">
+            <Square size={18} />
+          </button>
+          <button onClick={() => setDialog("edit")} className={buttonStyle} title="Edit segment details">
+            <Pencil size={18} />
+          </button>
+        </>
+      ) : (
+        <span className="text-indigo-200">No inspection</span>
+      )}
+      <button onClick={() => setDialog("start")} className={buttonStyle} title="New inspection">
+        <ClipboardList size={20} />
+      </button>
+      {dialog && <SessionDialog mode={dialog} onClose={() => setDialog(null)} />}
+    </div>
+  );
+}
+
+export default SessionControls;
@@ -0,0 +1,158 @@
+import { FormEvent, useState } from "react";
+import { Play, Save, X } from "lucide-react";
+import { useSession } from "@/context/SessionContext";
+import {
+  PIPE_MATERIALS,
+  SegmentMetadata,
+  SurveyDirection,
+  WEATHER_CONDITIONS,
+  validateSegment,
+} from "@/utilities/inspection";
+
+interface SessionDialogProps {
+  mode: "start" | "edit"; // Start a new segment, or edit the active session's metadata
+  onClose: () => void;
+}
+
+type TextField = "project" | "segmentId" | "upstreamManhole" | "downstreamManhole" | "operator";
+
+const TEXT_FIELDS: { field: TextField; label: string; placeholder?: string }[] = [
+  { field: "project", label: "Project" },
+  { field: "segmentId", label: "Segment ID", placeholder: "MH12-MH13" },
+  { field: "upstreamManhole", label: "Upstream manhole", placeholder: "MH12" },
+  { field: "downstreamManhole", label: "Downstream manhole", placeholder: "MH13" },
+  { field: "operator", label: "Operator" },
+];
+
+function SessionDialog({ mode, onClose }: SessionDialogProps) {
+  const { activeSession, lastMetadata, startSession, updateMetadata } = useSession();
+  const [draft, setDraft] = useState<SegmentMetadata>(
+    mode === "edit" && activeSession ? activeSession.metadata : lastMetadata
+  );
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const update = <K extends keyof SegmentMetadata>(field: K, value: SegmentMetadata[K]) => {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const problems = validateSegment(draft);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    if (mode === "edit") {
+      updateMetadata(draft);
+    } else {
+      startSession(draft);
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white text-gray-800 rounded-lg shadow-lg w-[600px] max-h-[90vh] overflow-y-auto p-5 text-sm"
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-semibold">
+            {mode === "edit" ? "Edit inspection" : "New inspection"}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-gray-200 transition-colors"
+            title="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {mode === "start" && activeSession && (
+          <p className="mb-3 p-2 bg-yellow-50 text-yellow-800 rounded">
+            Starting a new inspection ends segment {activeSession.metadata.segmentId}.
+          </p>
+        )}
+
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          {TEXT_FIELDS.map(({ field, label, placeholder }) => (
+            <label key={field} className="flex flex-col">
+              <span className="text-gray-500">{label}</span>
+              <input
+                value={draft[field]}
+                onChange={(e) => update(field, e.target.value)}
+                placeholder={placeholder}
+                className="border rounded px-2 py-1"
+                spellCheck={false}
+              />
+            </label>
+          ))}
+          <label className="flex flex-col">
+            <span className="text-gray-500">Survey direction</span>
+            <select
+              value={draft.direction}
+              onChange={(e) => update("direction", e.target.value as SurveyDirection)}
+              className="border rounded px-2 py-1"
+            >
+              <option value="downstream">Downstream (with flow)</option>
+              <option value="upstream">Upstream (against flow)</option>
+            </select>
+          </label>
+          <label className="flex flex-col">
+            <span className="text-gray-500">Pipe material</span>
+            <select
+              value={draft.pipeMaterial}
+              onChange={(e) => update("pipeMaterial", e.target.value)}
+              className="border rounded px-2 py-1"
+            >
+              {PIPE_MATERIALS.map((material) => (
+                <option key={material}>{material}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col">
+            <span className="text-gray-500">Diameter (mm)</span>
+            <input
+              type="number"
+              min={1}
+              value={draft.diameterMm ?? ""}
+              onChange={(e) => update("diameterMm", e.target.value === "" ? null : Number(e.target.value))}
+              className="border rounded px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-gray-500">Weather</span>
+            <select
+              value={draft.weather}
+              onChange={(e) => update("weather", e.target.value)}
+              className="border rounded px-2 py-1"
+            >
+              {WEATHER_CONDITIONS.map((weather) => (
+                <option key={weather}>{weather}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <button
+          type="submit"
+          className="flex items-center px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+        >
+          {mode === "edit" ? <Save size={16} className="mr-2" /> : <Play size={16} className="mr-2" />}
+          {mode === "edit" ? "Save" : "Start inspection"}
+        </button>
+
+        {errors.length > 0 && (
+          <ul className="mt-3 p-3 bg-red-50 text-red-800 rounded list-disc list-inside">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+      </form>
+    </div>
+  );
+}
+
+export default SessionDialog;
@@ -2,6 +2,10 @@ import ROSLIB, { Ros } from "roslib";
 import { useEffect, useState, useRef } from "react";
 import * as ort from "onnxruntime-web";
 import { useDataContext } from "@/context/DataProvider"; // Import the data context
+import { useTopicProfile } from "@/context/TopicProfileContext";
+import { useEvidenceBuffer } from "@/hooks/useEvidenceBuffer";
+import { EvidenceFrame } from "@/utilities/detectionEvidence";
+import { codingFromClass } from "@/utilities/pacp";
 
 interface CameraProps {
   connection: boolean;
@@ -10,13 +14,16 @@ interface CameraProps {
 
 interface TrackedDefect {
   id: number;
-  box: number[]; // [x1, y1, x2, y2, confidence]
+  box: number[]; // [x1, y1, x2, y2, confidence, class]
   lastSeen: number;
 }
 
 function SewerDetection({ connection, ros }: CameraProps) {
   // Get functions from the data context
-  const { addDefect, setCurrentCameraImage, setCurrentOverlayCanvas } = useDataContext();
+  const { addDefect } = useDataContext();
+  const { topic } = useTopicProfile();
+  // Recent frames, stored with each new defect as evidence
+  const { pushFrame, snapshot } = useEvidenceBuffer();
 
   const [imageSrc, setImageSrc] = useState<string | null>(null);
   const [modelLoaded, setModelLoaded] = useState<boolean>(false);
@@ -31,8 +38,7 @@ function SewerDetection({ connection, ros }: CameraProps) {
   const imageRef = useRef<HTMLImageElement | null>(null);
   const overlayCanvasRef = useRef<HTMLCanvasElement | null>(null);
 
-  const CAMERA_TOPIC = "/husky3/camera_0/color/image_raw/compressed";
-  const MESSAGE_TYPE = "sensor_msgs/msg/CompressedImage";
+  const { name: CAMERA_TOPIC, messageType: MESSAGE_TYPE } = topic("camera");
   const MODEL_PATH = "./model/sewer_light_320.onnx";
   const THROTTLE_INTERVAL = 1000;
   const THRESHOLD = 0.1; // 70% confidence
@@ -88,7 +94,7 @@ function SewerDetection({ connection, ros }: CameraProps) {
   }
 
   // Process YOLO output and extract bounding boxes
-  function processYoloOutput(outputData: Float32Array, outputShape: number[]) {
+  function processYoloOutput(outputData: Float32Array, outputShape: number[], source: EvidenceFrame) {
     // YOLOv8 output format is [batch, values_per_point, num_points]
     if (outputShape.length === 3) {
       const [batch, values_per_point, num_points] = outputShape;
@@ -142,8 +148,8 @@ function SewerDetection({ connection, ros }: CameraProps) {
           //     )}, Class: ${maxClassIdx}, Final score: ${score.toFixed(4)}`
           // );
 
-          // Add detection if it passes our threshold
-          detections.push([x1, y1, x2, y2, confidence]);
+          // Add detection if it passes our threshold; the class picks its PACP code
+          detections.push([x1, y1, x2, y2, confidence, maxClassIdx]);
         }
       }
 
@@ -153,14 +159,14 @@ function SewerDetection({ connection, ros }: CameraProps) {
 
       // Update tracked defects if any were found
       if (detections.length > 0) {
-        updateTrackedDefects(detections);
+        updateTrackedDefects(detections, source);
       } else {
         checkDefectTimeout();
       }
     }
   }
   // Run inference with the YOLO model
-  async function runInference(imageUrl: string) {
+  async function runInference(source: EvidenceFrame) {
     if (!sessionRef.current || !canvasRef.current) {
       return;
     }
@@ -179,7 +185,7 @@ function SewerDetection({ connection, ros }: CameraProps) {
 
       // Load the image
       const img = new Image();
-      img.src = imageUrl;
+      img.src = source.image;
       await new Promise<void>((resolve, reject) => {
         img.onload = () => resolve();
         img.onerror = () => reject(new Error("Failed to load image"));
@@ -236,7 +242,7 @@ function SewerDetection({ connection, ros }: CameraProps) {
         const outputShape = outputTensor.dims;
 
         // Process the output to get bounding boxes
-        processYoloOutput(outputData, outputShape);
+        processYoloOutput(outputData, outputShape, source);
       }
 
       // Always redraw tracked defects
@@ -247,7 +253,8 @@ function SewerDetection({ connection, ros }: CameraProps) {
   }
 
   // Update tracked defects using IoU matching
-  function updateTrackedDefects(newDetections: number[][]) {
+  // source is the frame the detections were made on
+  function updateTrackedDefects(newDetections: number[][], source: EvidenceFrame) {
     const currentTime = Date.now();
     let updatedDefs = [...trackedDefects];
     const matchedNewDetections = new Set<number>();
@@ -305,8 +312,8 @@ function SewerDetection({ connection, ros }: CameraProps) {
         // Add to local tracked defects
         updatedDefs.push(newDefect);
         
-        // Also add to the defect queue through context
-        addDefect(newDefect);
+        // Also add to the defect queue through context, with the frame it was seen in
+        addDefect(newDefect, snapshot(source));
       }
     }
 
@@ -338,20 +345,6 @@ function SewerDetection({ connection, ros }: CameraProps) {
     return () => clearInterval(timer);
   }, [trackedDefects]);
 
-  // Share current camera image with context whenever it changes
-  useEffect(() => {
-    if (imageSrc) {
-      setCurrentCameraImage(imageSrc);
-    }
-  }, [imageSrc, setCurrentCameraImage]);
-
-  // Share overlay canvas with context whenever tracked defects change
-  useEffect(() => {
-    if (overlayCanvasRef.current) {
-      setCurrentOverlayCanvas(overlayCanvasRef.current);
-    }
-  }, [trackedDefects, setCurrentOverlayCanvas]);
-
   // Subscribe to ROS camera topic
   useEffect(() => {
     if (ros && connection) {
@@ -381,8 +374,10 @@ function SewerDetection({ connection, ros }: CameraProps) {
           const imageUrl = `data:image/${format};base64,${base64}`;
           setImageSrc(imageUrl);
 
+          const frame: EvidenceFrame = { image: imageUrl, timestamp: Date.now() };
+          pushFrame(frame);
           if (modelLoaded) {
-            runInference(imageUrl);
+            runInference(frame);
           }
         } catch (error) {
           console.error("Error processing image message:", error);
@@ -393,7 +388,7 @@ function SewerDetection({ connection, ros }: CameraProps) {
         listener.unsubscribe();
       };
     }
-  }, [ros, connection, modelLoaded, setCurrentCameraImage]);
+  }, [ros, connection, modelLoaded, pushFrame, CAMERA_TOPIC, MESSAGE_TYPE]);
 
   // Handle image load and setup canvas
   const handleImageLoad = () => {
@@ -438,7 +433,7 @@ function SewerDetection({ connection, ros }: CameraProps) {
 
     // Draw each tracked defect
     for (const defect of trackedDefects) {
-      const [x1, y1, x2, y2, confidence] = defect.box;
+      const [x1, y1, x2, y2, confidence, classId] = defect.box;
 
       // IMPORTANT CHANGE: Don't multiply by origWidth/origHeight
       // as coordinates are already in pixel space
@@ -463,11 +458,11 @@ function SewerDetection({ connection, ros }: CameraProps) {
       ctx.rect(displayX1, displayY1, displayWidth, displayHeight);
       ctx.stroke();
 
-      // Add label with ID and confidence score
+      // Add label with ID, suggested code and confidence score
       ctx.fillStyle = "rgba(255, 0, 0, 0.9)"; // Red text
       ctx.font = "bold 16px Arial";
       ctx.fillText(
-        `Defect #${defect.id}: ${(confidence * 100).toFixed(1)}%`,
+        `Defect #${defect.id} ${codingFromClass(classId).code}: ${(confidence * 100).toFixed(1)}%`,
         displayX1 + 5,
         displayY1 + 20
       );
@@ -0,0 +1,91 @@
+import { X } from "lucide-react";
+import {
+  DEADMAN_KEY,
+  DRIVE_ACTIONS,
+  HELP_KEY,
+  KEY_ACTION_LABELS,
+  KeyAction,
+  Keymap,
+  SPEED_ACTIONS,
+  keyLabel,
+} from "@/utilities/keymap";
+import { GLOBAL_ESTOP_LABEL } from "@/utilities/globalEStop";
+
+interface ShortcutHelpProps {
+  keymap: Keymap;
+  onClose: () => void;
+}
+
+function ShortcutRow({ keys, label }: { keys: string; label: string }) {
+  return (
+    <tr>
+      <td className="pr-4 py-0.5">
+        <kbd className="px-2 py-0.5 bg-gray-100 border rounded font-mono">{keys}</kbd>
+      </td>
+      <td className="py-0.5">{label}</td>
+    </tr>
+  );
+}
+
+function ShortcutHelp({ keymap, onClose }: ShortcutHelpProps) {
+  const actionRows = (actions: KeyAction[]) =>
+    actions.map((action) => (
+      <ShortcutRow key={action} keys={keyLabel(keymap[action])} label={KEY_ACTION_LABELS[action]} />
+    ));
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-lg p-5 text-sm"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-semibold">Keyboard shortcuts</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-gray-200 transition-colors"
+            title="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+        <div className="grid grid-cols-2 gap-8">
+          <table>
+            <tbody>
+              <tr>
+                <td colSpan={2} className="font-semibold pb-1">
+                  Drive (hold {DEADMAN_KEY})
+                </td>
+              </tr>
+              {actionRows(DRIVE_ACTIONS)}
+            </tbody>
+          </table>
+          <table>
+            <tbody>
+              <tr>
+                <td colSpan={2} className="font-semibold pb-1">
+                  Speed
+                </td>
+              </tr>
+              {actionRows(SPEED_ACTIONS)}
+              <tr>
+                <td colSpan={2} className="font-semibold pt-3 pb-1">
+                  Safety and help
+                </td>
+              </tr>
+              {actionRows(["eStop"])}
+              <ShortcutRow keys={GLOBAL_ESTOP_LABEL} label="Emergency stop, from any application" />
+              <ShortcutRow keys={DEADMAN_KEY} label="Dead-man, hold to drive" />
+              <ShortcutRow keys={HELP_KEY} label="Show or hide this help" />
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ShortcutHelp;
@@ -1,9 +1,19 @@
 interface SpeedIndicatorProps {
   speed: number;
   maxSpeed: number;
+  // Optional live velocity bar, commanded target vs ramped output
+  velocity?: {
+    commanded: number;
+    ramped: number;
+    max: number;
+  };
 }
 
-function SpeedIndicator({ speed, maxSpeed }: SpeedIndicatorProps) {
+// Fraction of the bar height for a velocity magnitude
+const barFraction = (value: number, max: number): number =>
+  max > 0 ? Math.min(1, Math.abs(value) / max) : 0;
+
+function SpeedIndicator({ speed, maxSpeed, velocity }: SpeedIndicatorProps) {
   const speeds = [];
 
   for (let i = 0; i < speed + 1; i++) {
@@ -13,7 +23,7 @@ function SpeedIndicator({ speed, maxSpeed }: SpeedIndicatorProps) {
   //NOTE: grid-rows-maxSpeed is hardcoded
 
   return (
-    <div className="w-15 h-15 flex justify-center">
+    <div className="w-15 h-15 flex justify-center gap-1">
       <div className={`w-6 h-15 bg-slate-50 grid grid-rows-5 grid-cols-1`}>
         {speeds.map((row_id) => {
           return (
@@ -25,6 +35,21 @@ function SpeedIndicator({ speed, maxSpeed }: SpeedIndicatorProps) {
           );
         })}
       </div>
+      {velocity && (
+        <div
+          className="w-1.5 h-15 bg-slate-50 relative"
+          title={`Commanded ${velocity.commanded.toFixed(2)}, ramped ${velocity.ramped.toFixed(2)}`}
+        >
+          <div
+            className="absolute bottom-0 w-[100%] bg-blue-400"
+            style={{ height: `${barFraction(velocity.ramped, velocity.max) * 100}%` }}
+          />
+          <div
+            className="absolute w-[100%] h-0.5 bg-gray-800"
+            style={{ bottom: `${barFraction(velocity.commanded, velocity.max) * 100}%` }}
+          />
+        </div>
+      )}
     </div>
   );
 }
@@ -5,22 +5,74 @@ import {
   ArrowBigLeftDash,
   ArrowBigDownDash,
 } from "lucide-react";
+import { useRosContext } from "@/context/RosContext";
+import { Velocity2D } from "@/utilities/velocitySmoother";
+import { DriveAction } from "@/utilities/keymap";
+import { ProximityState, ProximityZone } from "@/utilities/proximity";
+import ConnectionHealth from "./ConnectionHealth";
 
 interface TelemetryProps {
-  direction: string | null;
+  direction: DriveAction | null;
   connection: boolean;
+  commandedVelocity: Velocity2D; // What the operator is asking for
+  rampedVelocity: Velocity2D; // What is actually published after ramping
+  proximity: ProximityState;
 }
 
-function Telemetry({ direction, connection }: TelemetryProps) {
+const ZONE_STYLES: Record<ProximityZone, { label: string; className: string }> = {
+  disabled: { label: "GUARD OFF", className: "bg-gray-300 text-gray-700" },
+  clear: { label: "CLEAR", className: "bg-green-100 text-green-800" },
+  slow: { label: "SLOW ZONE", className: "bg-amber-100 text-amber-800" },
+  stop: { label: "STOP ZONE, FORWARD BLOCKED", className: "bg-red-100 text-red-800" },
+  stale: { label: "NO LIDAR DATA, FORWARD BLOCKED", className: "bg-red-100 text-red-800" },
+};
+
+function Telemetry({
+  direction,
+  connection,
+  commandedVelocity,
+  rampedVelocity,
+  proximity,
+}: TelemetryProps) {
+  const { status } = useRosContext();
+
   return (
     <div className=" rounded-lg w-[100%] h-[100%] flex flex-col gap-5">
       <div className="h-10 rounded-lg bg-gray-200 w-[100%] flex items-center px-5">
         <p className="font-semibold ">{"Connection:"}</p>
         {connection ? (
           <span className="h-3.5 w-3.5 rounded-2xl bg-green-400 mx-2" />
-        ) : (
+        ) : status === "failed" ? (
           <span className="h-3.5 w-3.5 rounded-2xl bg-red-400 mx-2" />
+        ) : (
+          <span className="h-3.5 w-3.5 rounded-2xl bg-orange-400 mx-2" />
         )}
+        <p className="text-sm text-gray-600">{status}</p>
+      </div>
+      <ConnectionHealth />
+      <div className="rounded-lg bg-gray-200 w-[100%] px-5 py-2 text-sm grid grid-cols-3 gap-x-3">
+        <span />
+        <span className="text-gray-500">Commanded</span>
+        <span className="text-gray-500">Ramped</span>
+        <span className="font-semibold">Linear (m/s)</span>
+        <span className="font-mono">{commandedVelocity.linear.toFixed(2)}</span>
+        <span className="font-mono">{rampedVelocity.linear.toFixed(2)}</span>
+        <span className="font-semibold">Angular (rad/s)</span>
+        <span className="font-mono">{commandedVelocity.angular.toFixed(2)}</span>
+        <span className="font-mono">{rampedVelocity.angular.toFixed(2)}</span>
+      </div>
+      <div
+        className={`h-10 rounded-lg w-[100%] flex items-center justify-between px-5 text-sm font-semibold ${
+          ZONE_STYLES[proximity.zone].className
+        }`}
+      >
+        <span>{ZONE_STYLES[proximity.zone].label}</span>
+        <span className="font-mono">
+          {proximity.distance !== null
+            ? `Obstacle ahead ${proximity.distance.toFixed(2)} m`
+            : "Nothing ahead"}
+          {proximity.zone === "slow" && ` · ${Math.round(proximity.scale * 100)}% speed`}
+        </span>
       </div>
       <div className="rounded-lg bg-gray-200 h-full">
         <div className="w-80 m-auto  rounded-md grid grid-cols-5 grid-rows-7">
@@ -28,7 +80,7 @@ function Telemetry({ direction, connection }: TelemetryProps) {
             <ArrowBigUpDash
               size={30}
               color={
-                direction && ["i", "o", "u"].includes(direction)
+                direction && ["forward", "forwardRight", "forwardLeft"].includes(direction)
                   ? "#f56565"
                   : "#000"
               }
@@ -38,7 +90,7 @@ function Telemetry({ direction, connection }: TelemetryProps) {
             <ArrowBigLeftDash
               size={30}
               color={
-                direction && ["u", "j", "m"].includes(direction)
+                direction && ["forwardLeft", "left", "backwardLeft"].includes(direction)
                   ? "#f56565"
                   : "#000"
               }
@@ -51,7 +103,7 @@ function Telemetry({ direction, connection }: TelemetryProps) {
             <ArrowBigRightDash
               size={30}
               color={
-                direction && ["o", "l", "."].includes(direction)
+                direction && ["forwardRight", "right", "backwardRight"].includes(direction)
                   ? "#f56565"
                   : "#000"
               }
@@ -61,7 +113,7 @@ function Telemetry({ direction, connection }: TelemetryProps) {
             <ArrowBigDownDash
               size={30}
               color={
-                direction && ["m", ",", "."].includes(direction)
+                direction && ["backwardLeft", "backward", "backwardRight"].includes(direction)
                   ? "#f56565"
                   : "#000"
               }
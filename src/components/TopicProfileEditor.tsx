@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { Copy, Save, Trash2, X } from "lucide-react";
+import { useTopicProfile } from "@/context/TopicProfileContext";
+import { TOPIC_KEYS, TOPIC_LABELS, TopicKey, TopicProfile } from "@/utilities/topicProfile";
+
+interface TopicProfileEditorProps {
+  onClose: () => void;
+}
+
+function TopicProfileEditor({ onClose }: TopicProfileEditorProps) {
+  const { profiles, activeProfile, errors, selectProfile, saveProfiles } = useTopicProfile();
+  const [draft, setDraft] = useState<TopicProfile>(activeProfile);
+  const [status, setStatus] = useState<string | null>(null);
+
+  // Start editing whichever profile becomes active
+  useEffect(() => {
+    setDraft(activeProfile);
+  }, [activeProfile]);
+
+  const updateTopic = (key: TopicKey, field: "name" | "messageType", value: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      topics: { ...prev.topics, [key]: { ...prev.topics[key], [field]: value } },
+    }));
+  };
+
+  const handleSave = async () => {
+    const isNew = !profiles.some((p) => p.id === draft.id);
+    const newProfiles = isNew
+      ? [...profiles, draft]
+      : profiles.map((p) => (p.id === draft.id ? draft : p));
+
+    const success = await saveProfiles({ activeProfile: draft.id, profiles: newProfiles });
+    setStatus(success ? `Saved profile "${draft.name}"` : "Profile not saved, see errors below");
+  };
+
+  const handleDuplicate = () => {
+    const id = `${draft.id}-copy-${Date.now().toString().slice(-4)}`;
+    setDraft({ ...draft, id, name: `${draft.name} (copy)` });
+    setStatus("Editing a new unsaved profile");
+  };
+
+  const handleDelete = async () => {
+    const remaining = profiles.filter((p) => p.id !== draft.id);
+    if (remaining.length === 0) return;
+
+    const success = await saveProfiles({ activeProfile: remaining[0].id, profiles: remaining });
+    setStatus(success ? `Deleted profile "${draft.name}"` : "Profile not deleted, see errors below");
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center">
+      <div className="bg-white rounded-lg shadow-lg w-[900px] max-h-[90vh] overflow-y-auto p-5 text-sm">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-semibold">Topic profiles</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-gray-200 transition-colors"
+            title="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3 mb-4">
+          <label className="text-gray-500">Active profile</label>
+          <select
+            value={activeProfile.id}
+            onChange={(e) => selectProfile(e.target.value)}
+            className="border rounded px-2 py-1"
+          >
+            {profiles.map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 mb-4">
+          <label className="flex flex-col">
+            <span className="text-gray-500">Id</span>
+            <input value={draft.id} disabled className="border rounded px-2 py-1 bg-gray-100" />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-gray-500">Name</span>
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className="border rounded px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-gray-500">ROS version</span>
+            <select
+              value={draft.rosVersion}
+              onChange={(e) => setDraft({ ...draft, rosVersion: Number(e.target.value) === 1 ? 1 : 2 })}
+              className="border rounded px-2 py-1"
+            >
+              <option value={1}>ROS 1</option>
+              <option value={2}>ROS 2</option>
+            </select>
+          </label>
+        </div>
+
+        <table className="w-[100%] mb-4">
+          <thead>
+            <tr className="text-left text-gray-600">
+              <th className="font-medium py-1">Topic</th>
+              <th className="font-medium py-1">Name</th>
+              <th className="font-medium py-1">Message type</th>
+            </tr>
+          </thead>
+          <tbody>
+            {TOPIC_KEYS.map((key) => (
+              <tr key={key}>
+                <td className="pr-3 py-1">{TOPIC_LABELS[key]}</td>
+                <td className="pr-3 py-1">
+                  <input
+                    value={draft.topics[key].name}
+                    onChange={(e) => updateTopic(key, "name", e.target.value)}
+                    className="border rounded px-2 py-1 w-[100%] font-mono"
+                    spellCheck={false}
+                  />
+                </td>
+                <td className="py-1">
+                  <input
+                    value={draft.topics[key].messageType}
+                    onChange={(e) => updateTopic(key, "messageType", e.target.value)}
+                    className="border rounded px-2 py-1 w-[100%] font-mono"
+                    spellCheck={false}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-gray-500 mb-4">
+          Names without a leading "/" are resolved against the active robot's namespace.
+        </p>
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            className="flex items-center px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+          >
+            <Save size={16} className="mr-2" />
+            Save
+          </button>
+          <button
+            onClick={handleDuplicate}
+            className="flex items-center px-3 py-2 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+          >
+            <Copy size={16} className="mr-2" />
+            Duplicate
+          </button>
+          {profiles.length > 1 && profiles.some((p) => p.id === draft.id) && (
+            <button
+              onClick={handleDelete}
+              className="flex items-center px-3 py-2 text-red-600 rounded hover:bg-red-50 transition-colors"
+            >
+              <Trash2 size={16} className="mr-2" />
+              Delete
+            </button>
+          )}
+        </div>
+
+        {status && <p className="mt-3 text-gray-700">{status}</p>}
+        {errors.length > 0 && (
+          <ul className="mt-3 p-3 bg-red-50 text-red-800 rounded list-disc list-inside">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default TopicProfileEditor;
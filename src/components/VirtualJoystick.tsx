@@ -0,0 +1,88 @@
+import { useRef, useState } from "react";
+import { Velocity2D, ZERO_VELOCITY } from "@/utilities/velocitySmoother";
+
+interface VirtualJoystickProps {
+  disabled: boolean;
+  onHoldChange: (held: boolean) => void; // Touching the pad acts as the dead-man
+  onMove: (command: Velocity2D) => void; // -1..1 per axis, forward and left positive
+}
+
+const BASE_SIZE = 160;
+const KNOB_SIZE = 56;
+const RADIUS = (BASE_SIZE - KNOB_SIZE) / 2;
+const DEADZONE = 0.1;
+
+const applyDeadzone = (value: number): number => {
+  if (Math.abs(value) < DEADZONE) return 0;
+  return (Math.sign(value) * (Math.abs(value) - DEADZONE)) / (1 - DEADZONE);
+};
+
+function VirtualJoystick({ disabled, onHoldChange, onMove }: VirtualJoystickProps) {
+  const baseRef = useRef<HTMLDivElement>(null);
+  const [knob, setKnob] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
+  const [held, setHeld] = useState<boolean>(false);
+
+  const updateFromPointer = (clientX: number, clientY: number) => {
+    const rect = baseRef.current?.getBoundingClientRect();
+    if (!rect) return;
+
+    let dx = clientX - (rect.left + rect.width / 2);
+    let dy = clientY - (rect.top + rect.height / 2);
+
+    // Keep the knob inside the base
+    const distance = Math.hypot(dx, dy);
+    if (distance > RADIUS) {
+      dx = (dx / distance) * RADIUS;
+      dy = (dy / distance) * RADIUS;
+    }
+
+    setKnob({ x: dx, y: dy });
+    onMove({
+      linear: applyDeadzone(-dy / RADIUS),
+      angular: applyDeadzone(-dx / RADIUS),
+    });
+  };
+
+  const release = () => {
+    if (!held) return;
+    setHeld(false);
+    setKnob({ x: 0, y: 0 });
+    onMove(ZERO_VELOCITY);
+    onHoldChange(false);
+  };
+
+  return (
+    <div
+      ref={baseRef}
+      className={`relative rounded-full border-2 touch-none select-none ${
+        disabled ? "bg-gray-300 border-gray-400" : "bg-slate-50 border-gray-400 cursor-grab"
+      }`}
+      style={{ width: BASE_SIZE, height: BASE_SIZE }}
+      onPointerDown={(e) => {
+        if (disabled) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setHeld(true);
+        onHoldChange(true);
+        updateFromPointer(e.clientX, e.clientY);
+      }}
+      onPointerMove={(e) => {
+        if (held) updateFromPointer(e.clientX, e.clientY);
+      }}
+      onPointerUp={release}
+      onPointerCancel={release}
+      onLostPointerCapture={release}
+    >
+      <div
+        className={`absolute rounded-full shadow-md ${held ? "bg-amber-400" : "bg-amber-300"}`}
+        style={{
+          width: KNOB_SIZE,
+          height: KNOB_SIZE,
+          left: BASE_SIZE / 2 - KNOB_SIZE / 2 + knob.x - 2,
+          top: BASE_SIZE / 2 - KNOB_SIZE / 2 + knob.y - 2,
+        }}
+      />
+    </div>
+  );
+}
+
+export default VirtualJoystick;
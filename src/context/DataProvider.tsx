@@ -1,25 +1,22 @@
-import { createContext, useContext, ReactNode, useState, useRef, useCallback } from "react";
+import { createContext, useContext, ReactNode, useState, useRef, useCallback, useEffect } from "react";
+import { useSession } from "@/context/SessionContext";
+import { useDefectLocalizer } from "@/hooks/useDefectLocalizer";
+import { defectCsv, defectFileBase, defectImageName } from "@/utilities/defectExport";
+import { desktopAPI, isDesktop } from "@/utilities/desktop";
+import { DetectionEvidence, loadImage, renderEvidence } from "@/utilities/detectionEvidence";
+import { ClipFrame, Defect, InspectionSession, Position } from "@/utilities/inspection";
+import { DefectImageKind, DefectImages } from "@/utilities/inspectionStore";
+import { MAP_VIEWS, MapSnapshotRenderer, MapView, defectMapPosition } from "@/utilities/mapSnapshot";
+import { PacpCoding, codeDescription, codingFromClass, severityFromGrade } from "@/utilities/pacp";
+import { clockPositionFromBox, formatChainage, formatClock } from "@/utilities/pipePosition";
 
-// Define all the required types
-export interface Position {
-  x: number;
-  y: number;
-  z: number;
-}
-
-export interface Defect {
-  id: string;
-  timestamp: number;
-  position: Position;
-  severity: string;
-  type: string;
-  confidence: number;
-}
+// Defects are shared with the Electron store, re-exported for existing imports
+export type { Defect, Position };
 
 // Update to match SewerDetection component's format
 export interface TrackedDefect {
   id: number;
-  box: number[]; // [x1, y1, x2, y2, confidence]
+  box: number[]; // [x1, y1, x2, y2, confidence, class?]; the class is left out by detectors without one
   lastSeen: number;
 }
 
@@ -32,14 +29,20 @@ export interface ExportData {
 
 export interface DataContextType {
   defects: Defect[];
-  addDefect: (defectData: TrackedDefect) => void; 
+  loaded: boolean; // Stored defects have been read back
+  storeErrors: string[]; // Records that could not be restored
+  selectedDefectId: string | null; // Shared by the queue and the SLAM view
+  selectDefect: (defectId: string | null) => void;
+  // Detectors pass the frame they ran on and the frames around it
+  addDefect: (defectData: TrackedDefect, evidence: DetectionEvidence) => void; 
+  updateDefectCoding: (defectId: string, coding: PacpCoding) => void; // Operator coding, also sets type and severity
   handleExport: (data: ExportData) => void; 
   exportCSV: (defect: Defect) => Promise<void>;
   downloadImages: (defect: Defect) => Promise<void>;
   getCameraScreenshot: (defectId: string) => Promise<string>;
-  getSlamMapScreenshot: (position: Position) => Promise<string>;
-  setCurrentCameraImage: (image: string) => void;
-  setCurrentOverlayCanvas: (canvas: HTMLCanvasElement | null) => void;
+  getSlamMapScreenshot: (defectId: string, view?: MapView) => Promise<string>;
+  getDefectImage: (defectId: string, kind: DefectImageKind) => Promise<string | null>;
+  registerMapRenderer: (renderer: MapSnapshotRenderer | null) => void; // Called by the SLAM view
 }
 
 // Create the context with a default undefined value
@@ -48,14 +51,75 @@ const DataContext = createContext<DataContextType | undefined>(undefined);
 export function DataProvider({ children }: { children: ReactNode }) {
   // Defects management
   const [defects, setDefects] = useState<Defect[]>([]);
-  
-  // References to current camera state for screenshots
-  const currentCameraImageRef = useRef<string | null>(null);
-  const currentOverlayCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [loaded, setLoaded] = useState<boolean>(false);
+  const [storeErrors, setStoreErrors] = useState<string[]>([]);
+  const [selectedDefectId, setSelectedDefectId] = useState<string | null>(null);
+  // Latest defects for callbacks that finish after an operator may have edited one
+  const defectsRef = useRef<Defect[]>(defects);
+  defectsRef.current = defects;
+
+  // Inspection session that new defects are tagged with
+  const { activeSession, sessions, getPoseSnapshot } = useSession();
+  const activeSessionRef = useRef<InspectionSession | null>(activeSession);
+  activeSessionRef.current = activeSession;
+  const getPoseSnapshotRef = useRef(getPoseSnapshot);
+  getPoseSnapshotRef.current = getPoseSnapshot;
+
+  // Places detections in the map from the camera calibration and lidar
+  const { localize } = useDefectLocalizer();
   
   // Track processed defect boxes instead of just IDs
   const processedBoxesRef = useRef<number[][]>([]);
-  
+
+  // Boxes are compared in image space, so they only mark duplicates within one
+  // inspection; the same spot in the frame is a different defect elsewhere
+  const activeSessionId = activeSession?.id ?? null;
+  useEffect(() => {
+    processedBoxesRef.current = [];
+  }, [activeSessionId]);
+
+  // Camera frames and map snapshots captured at detection, by defect id
+  const imagesRef = useRef<Record<string, DefectImages>>({});
+
+  // Offscreen renderer of the SLAM view, while it is mounted
+  const mapRendererRef = useRef<MapSnapshotRenderer | null>(null);
+  const registerMapRenderer = useCallback((renderer: MapSnapshotRenderer | null) => {
+    mapRendererRef.current = renderer;
+  }, []);
+
+  // Restore defects saved by previous runs
+  useEffect(() => {
+    if (!isDesktop()) {
+      console.warn("Electron API not available, defects will not be saved");
+      setLoaded(true);
+      return;
+    }
+
+    desktopAPI("Defect storage")
+      .loadDefects()
+      .then((result) => {
+        setDefects(prev => [...result.defects.filter(d => !prev.some(p => p.id === d.id)), ...prev]);
+        setStoreErrors(result.errors);
+      })
+      .catch((error) => {
+        console.error("Failed to load defects:", error);
+        setStoreErrors([`Failed to load defects: ${error}`]);
+      })
+      .finally(() => setLoaded(true));
+  }, []);
+
+  // Save a defect and its images; failures are logged and the defect stays in memory
+  const persistDefect = useCallback((defect: Defect, images?: DefectImages) => {
+    if (!isDesktop()) return;
+
+    desktopAPI("Defect storage")
+      .saveDefect(defect, images ?? {})
+      .then((result) => {
+        if (!result.success) console.error(`Failed to save defect ${defect.id}:`, result.error);
+      })
+      .catch((error) => console.error(`Failed to save defect ${defect.id}:`, error));
+  }, []);
+
   // Add a cooldown to prevent rapid additions
   const lastAddTimeRef = useRef<number>(0);
   const COOLDOWN_MS = 2000; // 2 seconds cooldown between additions
@@ -92,8 +156,14 @@ export function DataProvider({ children }: { children: ReactNode }) {
   };
   
   // Add a new defect to the queue - updated to work with SewerDetection
-  const addDefect = useCallback((defectData: TrackedDefect) => {
+  const addDefect = useCallback((defectData: TrackedDefect, evidence: DetectionEvidence) => {
     const now = Date.now();
+
+    // Nothing is recorded while the inspection is paused
+    const session = activeSessionRef.current;
+    if (session?.status === "paused") {
+      return;
+    }
     
     // Apply cooldown to prevent rapid additions
     if (now - lastAddTimeRef.current < COOLDOWN_MS) {
@@ -116,88 +186,166 @@ export function DataProvider({ children }: { children: ReactNode }) {
     // Update the last add time
     lastAddTimeRef.current = now;
     
+    // Where the robot is in the map and along the pipe right now
+    const { pose, chainage } = getPoseSnapshotRef.current();
+    if (!pose) {
+      console.warn("No recent robot pose, defect recorded without a location");
+    }
+
+    // The detector's class suggests a PACP code; the operator can recode it later
+    const coding = codingFromClass(defectData.box[5]);
+
     // Transform defect detection into defect format for the queue
     const newDefect: Defect = {
-      id: `DEF-${defectData.id}-${now.toString().slice(-4)}`, // Make IDs more unique
+      // Names the stored record and its images. Tracker ids restart every run,
+      // the full timestamp keeps ids from colliding with earlier runs, and the
+      // cooldown keeps two defects from sharing a millisecond.
+      id: `DEF-${defectData.id}-${now}`,
       timestamp: now,
-      position: {
-        // Map the box coordinates [x1, y1, x2, y2] to position
-        // Use center coordinates for position
-        x: (defectData.box[0] + defectData.box[2]) / 2 / 640, // Normalize to 0-1 range, assuming 640x640 input
-        y: (defectData.box[1] + defectData.box[3]) / 2 / 640,
-        z: 0 // Placeholder until you have real Z data
-      },
-      severity: determineSeverity(defectData.box[4]), // Based on confidence
-      type: "Sewer Defect", // Default type for sewer defects
-      confidence: defectData.box[4] * 100 // Convert to percentage
+      // Robot position in the map frame at detection
+      position: pose ? { ...pose.position } : { x: 0, y: 0, z: 0 },
+      severity: severityFromGrade(coding.grade),
+      type: codeDescription(coding.code),
+      confidence: defectData.box[4] * 100, // Convert to percentage
+      sessionId: session?.id ?? null,
+      box: [...defectData.box],
+      pose,
+      chainage,
+      clock: clockPositionFromBox(defectData.box),
+      worldPosition: null,
+      clip: [],
+      coding
     };
     
     // Add to defects state
     setDefects(prev => [...prev, newDefect]);
+
+    // Draw the box over the frame it was detected in and locate the defect
+    // against the current cloud; then snapshot the map around it and persist
+    // everything together
+    const frameRequest: Promise<DefectImages> = renderEvidence(
+      evidence.source.image,
+      defectData.box,
+      `Defect #${defectData.id}`
+    ).then(
+      ({ overlay, frame }): DefectImages => ({ source: evidence.source.image, overlay, frame })
+    ).catch(error => {
+      console.error("Error capturing defect frame:", error);
+      return {};
+    });
+    const localizeRequest = localize(defectData.box).catch(error => {
+      console.error("Error localizing defect:", error);
+      return null;
+    });
+    Promise.all([frameRequest, localizeRequest]).then(([frameImages, worldPosition]) => {
+      const latest = () => defectsRef.current.find(d => d.id === newDefect.id) ?? newDefect;
+      const located: Defect = { ...latest(), worldPosition };
+      if (worldPosition) {
+        setDefects(prev => prev.map(d => (d.id === located.id ? { ...d, worldPosition } : d)));
+      } else {
+        console.warn(`Could not localize ${newDefect.id} in the point cloud`);
+      }
+
+      const images: DefectImages = { ...frameImages };
+      const mapPosition = defectMapPosition(located);
+      const maps = mapPosition
+        ? mapRendererRef.current?.capture({ position: mapPosition, severity: located.severity, label: located.id })
+        : null;
+      if (maps) {
+        MAP_VIEWS.forEach(view => (images[`map-${view}`] = maps[view]));
+      } else {
+        console.warn(`No map snapshot for ${newDefect.id}`);
+      }
+      imagesRef.current[newDefect.id] = images;
+      persistDefect(located, images);
+
+      // The frames after detection are still arriving, save the clip once they have
+      evidence.after.then(after => {
+        const frames = [...evidence.before, ...after];
+        if (frames.length === 0) return;
+
+        const clip = frames.map((f): ClipFrame => ({ offsetMs: f.timestamp - evidence.source.timestamp }));
+        const clipImages: DefectImages = {};
+        frames.forEach((f, i) => (clipImages[`clip-${i}`] = f.image));
+        imagesRef.current[newDefect.id] = { ...imagesRef.current[newDefect.id], ...clipImages };
+        setDefects(prev => prev.map(d => (d.id === located.id ? { ...d, clip } : d)));
+        persistDefect({ ...latest(), worldPosition, clip }, clipImages);
+      });
+    });
     
     console.log("Added new defect:", newDefect.id);
-  }, []);
+  }, [localize, persistDefect]);
   
-  // Helper function to determine severity based on confidence
-  const determineSeverity = (confidence: number): string => {
-    if (confidence > 0.9) return "critical";
-    if (confidence > 0.8) return "high";
-    if (confidence > 0.7) return "medium";
-    return "low";
-  };
-  
-  // Set current camera image for screenshots
-  const setCurrentCameraImage = useCallback((image: string) => {
-    currentCameraImageRef.current = image;
-  }, []);
+  const updateDefectCoding = useCallback((defectId: string, coding: PacpCoding) => {
+    const defect = defectsRef.current.find(d => d.id === defectId);
+    if (!defect) return;
+
+    const updated: Defect = {
+      ...defect,
+      coding,
+      type: codeDescription(coding.code),
+      severity: severityFromGrade(coding.grade)
+    };
+    // Keep the ref current so quick successive edits build on each other
+    defectsRef.current = defectsRef.current.map(d => (d.id === defectId ? updated : d));
+    setDefects(prev => prev.map(d => (d.id === defectId ? updated : d)));
+    persistDefect(updated);
+  }, [persistDefect]);
   
-  // Set current overlay canvas for screenshots with bounding boxes
-  const setCurrentOverlayCanvas = useCallback((canvas: HTMLCanvasElement | null) => {
-    currentOverlayCanvasRef.current = canvas;
+  const findSession = (sessionId: string | null): InspectionSession | undefined =>
+    sessions.find(s => s.id === sessionId);
+
+  // Image captured when the defect was detected, from memory or the store
+  const getDefectImage = useCallback(async (defectId: string, kind: DefectImageKind): Promise<string | null> => {
+    const cached = imagesRef.current[defectId]?.[kind];
+    if (cached) return cached;
+    if (!isDesktop()) return null;
+
+    const image = await desktopAPI("Defect images").loadDefectImage(defectId, kind);
+    if (image) imagesRef.current[defectId] = { ...imagesRef.current[defectId], [kind]: image };
+    return image;
   }, []);
-  
+
   // Get camera screenshot for a specific defect
   const getCameraScreenshot = async (defectId: string): Promise<string> => {
-    if (!currentCameraImageRef.current) {
-      console.warn("No camera image available for screenshot");
-      return "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII="; // 1x1 transparent PNG
-    }
-    
     try {
-      // Create a composite image with both the camera feed and the detection overlay
-      const img = new Image();
-      img.src = currentCameraImageRef.current;
-      
-      // Wait for the image to load
-      await new Promise<void>((resolve, reject) => {
-        img.onload = () => resolve();
-        img.onerror = () => reject(new Error("Failed to load camera image"));
-      });
-      
-      // Create a canvas to draw both the image and overlay
+      // Only the frame from detection time is evidence, the live image shows another part of the pipe
+      const frame = await getDefectImage(defectId, "frame");
+      if (!frame) {
+        console.warn(`No detection frame stored for ${defectId}`);
+        return "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII="; // 1x1 transparent PNG
+      }
+
+      const img = await loadImage(frame);
       const canvas = document.createElement('canvas');
       canvas.width = img.width;
       canvas.height = img.height;
-      
+
       const ctx = canvas.getContext('2d');
       if (!ctx) {
         throw new Error("Could not get canvas context");
       }
-      
-      // Draw the camera image
+
       ctx.drawImage(img, 0, 0);
       
-      // Draw the overlay if available
-      if (currentOverlayCanvasRef.current) {
-        ctx.drawImage(currentOverlayCanvasRef.current, 0, 0, canvas.width, canvas.height);
-      }
-      
-      // Add a text label with the defect ID
+      // Add a text label with the defect ID and where it is in the segment
+      const defect = defects.find(d => d.id === defectId);
+      const segment = findSession(defect?.sessionId ?? null)?.metadata.segmentId;
+      const details = [
+        segment && `Segment ${segment}`,
+        defect?.chainage != null && formatChainage(defect.chainage),
+        defect?.clock && formatClock(defect.clock)
+      ].filter(Boolean).join(" · ");
+      const labelHeight = details ? 50 : 30;
       ctx.fillStyle = "rgba(0, 0, 0, 0.7)";
-      ctx.fillRect(10, canvas.height - 40, 180, 30);
+      ctx.fillRect(10, canvas.height - 10 - labelHeight, 320, labelHeight);
       ctx.fillStyle = "white";
       ctx.font = "bold 16px Arial";
-      ctx.fillText(`Defect: ${defectId}`, 20, canvas.height - 20);
+      ctx.fillText(`Defect: ${defectId}`, 20, canvas.height - 20 - (details ? 20 : 0));
+      if (details) {
+        ctx.font = "14px Arial";
+        ctx.fillText(details, 20, canvas.height - 20);
+      }
       
       // Return as data URL
       return canvas.toDataURL('image/png');
@@ -208,70 +356,23 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }
   };
   
-  // Get SLAM map screenshot for a specific position
-  const getSlamMapScreenshot = async (position: Position): Promise<string> => {
+  // Map snapshot from detection time for a specific defect. Defects recorded
+  // before snapshots existed get a view of the map as it is now.
+  const getSlamMapScreenshot = async (defectId: string, view: MapView = "top"): Promise<string> => {
     try {
-      // Create a simple placeholder SLAM map visualization
-      // In a real implementation, this would render the actual SLAM map
-      const canvas = document.createElement('canvas');
-      canvas.width = 400;
-      canvas.height = 400;
-      
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        throw new Error("Could not get canvas context");
-      }
-      
-      // Draw a simple grid
-      ctx.fillStyle = "#f0f0f0";
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      
-      // Draw grid lines
-      ctx.strokeStyle = "#cccccc";
-      ctx.lineWidth = 1;
-      
-      // Vertical lines
-      for (let x = 0; x <= canvas.width; x += 40) {
-        ctx.beginPath();
-        ctx.moveTo(x, 0);
-        ctx.lineTo(x, canvas.height);
-        ctx.stroke();
-      }
-      
-      // Horizontal lines
-      for (let y = 0; y <= canvas.height; y += 40) {
-        ctx.beginPath();
-        ctx.moveTo(0, y);
-        ctx.lineTo(canvas.width, y);
-        ctx.stroke();
+      const stored = await getDefectImage(defectId, `map-${view}`);
+      if (stored) return stored;
+
+      const defect = defects.find(d => d.id === defectId);
+      const position = defect ? defectMapPosition(defect) : null;
+      const live = defect && position
+        ? mapRendererRef.current?.capture({ position, severity: defect.severity, label: defect.id })
+        : null;
+      if (!live) {
+        console.warn(`No map snapshot available for ${defectId}`);
+        return "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII="; // 1x1 transparent PNG
       }
-      
-      // Draw a marker at the defect position
-      // Scale position to canvas coordinates
-      const markerX = position.x * canvas.width;
-      const markerY = position.y * canvas.height;
-      
-      // Draw position marker
-      ctx.fillStyle = "#ff0000";
-      ctx.beginPath();
-      ctx.arc(markerX, markerY, 8, 0, Math.PI * 2);
-      ctx.fill();
-      
-      // Draw position coordinates
-      ctx.fillStyle = "rgba(0, 0, 0, 0.8)";
-      ctx.fillRect(markerX - 70, markerY - 40, 140, 30);
-      ctx.fillStyle = "white";
-      ctx.font = "12px Arial";
-      ctx.textAlign = "center";
-      ctx.fillText(
-        `(${position.x.toFixed(2)}, ${position.y.toFixed(2)}, ${position.z.toFixed(2)})`, 
-        markerX, 
-        markerY - 20
-      );
-      
-      // Return as data URL
-      return canvas.toDataURL('image/png');
-      
+      return live[view];
     } catch (error) {
       console.error("Error creating SLAM map screenshot:", error);
       return "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII="; // 1x1 transparent PNG
@@ -281,49 +382,14 @@ export function DataProvider({ children }: { children: ReactNode }) {
   // Export CSV data only
   const exportCSV = useCallback(async (defect: Defect) => {
     try {
-      // Create CSV content
-      const csvContent = [
-        // Header row
-        ["Defect ID", "Timestamp", "Position X", "Position Y", "Position Z", "Severity", "Type", "Confidence (%)"].join(","),
-        // Data row
-        [
-          defect.id,
-          new Date(defect.timestamp).toISOString(),
-          defect.position.x.toFixed(4),
-          defect.position.y.toFixed(4),
-          defect.position.z.toFixed(4),
-          defect.severity,
-          defect.type,
-          defect.confidence.toFixed(2)
-        ].join(",")
-      ].join("\n");
-      
-      // Create a Blob with the CSV data
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      
-      // Create a download link
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `defect_${defect.id}_data.csv`;
-      
-      // Append to body, click, and remove
-      document.body.appendChild(link);
-      link.click();
-      
-      // Use setTimeout to prevent immediate garbage collection
-      setTimeout(() => {
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-      }, 100);
-      
+      downloadCSV(defectCsv([defect], sessions), `${defectFileBase(defect)}_data.csv`);
       console.log("CSV exported successfully");
       
     } catch (error) {
       console.error("Error exporting CSV:", error);
       alert("Error exporting CSV. See console for details.");
     }
-  }, []);
+  }, [sessions]);
 
   // Download images only
   const downloadImages = useCallback(async (defect: Defect) => {
@@ -334,28 +400,30 @@ export function DataProvider({ children }: { children: ReactNode }) {
       // Create a download link for camera image
       const link = document.createElement('a');
       link.href = cameraImageData;
-      link.download = `defect_${defect.id}_camera.png`;
+      link.download = `${defectImageName(defect, "frame")}.png`;
       document.body.appendChild(link);
       link.click();
       
-      // Clean up and prepare for SLAM map download
+      // Clean up and prepare for SLAM map downloads
       setTimeout(() => {
         document.body.removeChild(link);
         
-        // After a short delay, download the SLAM map
-        setTimeout(async () => {
-          const slamMapImageData = await getSlamMapScreenshot(defect.position);
-          const mapLink = document.createElement('a');
-          mapLink.href = slamMapImageData;
-          mapLink.download = `defect_${defect.id}_slam_map.png`;
-          document.body.appendChild(mapLink);
-          mapLink.click();
-          
-          // Final cleanup
-          setTimeout(() => {
-            document.body.removeChild(mapLink);
-          }, 100);
-        }, 500); // Half-second delay between downloads
+        // One map view every half second, browsers drop rapid downloads
+        MAP_VIEWS.forEach((view, i) => {
+          setTimeout(async () => {
+            const slamMapImageData = await getSlamMapScreenshot(defect.id, view);
+            const mapLink = document.createElement('a');
+            mapLink.href = slamMapImageData;
+            mapLink.download = `${defectImageName(defect, `map-${view}`)}.png`;
+            document.body.appendChild(mapLink);
+            mapLink.click();
+            
+            // Final cleanup
+            setTimeout(() => {
+              document.body.removeChild(mapLink);
+            }, 100);
+          }, 500 * (i + 1));
+        });
       }, 100);
       
       console.log("Images download initiated");
@@ -381,14 +449,19 @@ export function DataProvider({ children }: { children: ReactNode }) {
   // Providing the actual values to the context
   const contextValue: DataContextType = {
     defects,
+    loaded,
+    storeErrors,
+    selectedDefectId,
+    selectDefect: setSelectedDefectId,
     addDefect,
+    updateDefectCoding,
     handleExport,
     exportCSV,
     downloadImages,
     getCameraScreenshot,
     getSlamMapScreenshot,
-    setCurrentCameraImage,
-    setCurrentOverlayCanvas
+    getDefectImage,
+    registerMapRenderer
   };
 
   return (
@@ -398,6 +471,22 @@ export function DataProvider({ children }: { children: ReactNode }) {
   );
 }
 
+// Save text as a CSV download
+const downloadCSV = (content: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'text/csv;charset=utf-8;' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+
+  // Use setTimeout to prevent immediate garbage collection
+  setTimeout(() => {
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, 100);
+};
+
 export function useDataContext(): DataContextType {
   const context = useContext(DataContext);
   if (!context) {
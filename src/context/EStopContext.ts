@@ -0,0 +1,31 @@
+import { createContext, useContext } from "react";
+
+export type EStopMode = "topic" | "service";
+
+export interface EStopConfig {
+  mode: EStopMode; // Publish the latched Bool, or call a SetBool service
+  serviceName: string; // Relative names are resolved against the active robot namespace
+  serviceType: string;
+}
+
+export interface EStopContextType {
+  engaged: boolean; // Robot-reported state once known, otherwise what this UI requested
+  requested: boolean; // What this UI last asked for
+  robotState: boolean | null; // null until the robot reports its state
+  pending: boolean; // Robot-reported state disagrees with the request
+  error: string | null;
+  config: EStopConfig;
+  setConfig: (config: EStopConfig) => void;
+  engage: (reason: string) => void;
+  release: () => void;
+}
+
+export const EStopContext = createContext<EStopContextType | undefined>(undefined);
+
+export function useEStop(): EStopContextType {
+  const context = useContext(EStopContext);
+  if (!context) {
+    throw new Error("useEStop must be used within an EStopProvider");
+  }
+  return context;
+}
@@ -0,0 +1,190 @@
+import { ReactNode, useState, useEffect, useCallback, useRef } from "react";
+import ROSLIB from "roslib";
+import { useRosContext } from "@/context/RosContext";
+import { useTopicProfile } from "@/context/TopicProfileContext";
+import { loadSetting, saveSetting } from "@/utilities/settings";
+import { serviceTypeForRos } from "@/utilities/topicProfile";
+import { EStopTarget } from "@/utilities/globalEStop";
+import { desktopAPI, isDesktop } from "@/utilities/desktop";
+import { EStopConfig, EStopContext, EStopContextType } from "@/context/EStopContext";
+
+const DEFAULT_ESTOP_CONFIG: EStopConfig = {
+  mode: "topic",
+  serviceName: "safety/set_e_stop",
+  serviceType: "std_srvs/srv/SetBool",
+};
+
+interface SetBoolResponse {
+  success: boolean;
+  message: string;
+}
+
+export function EStopProvider({ children }: { children: ReactNode }) {
+  const { ros, connected, url, resolveTopic } = useRosContext();
+  const { topic, activeProfile } = useTopicProfile();
+  const [config, setConfigState] = useState<EStopConfig>(() =>
+    loadSetting("eStopConfig", DEFAULT_ESTOP_CONFIG)
+  );
+  const [requested, setRequested] = useState<boolean>(false);
+  const [robotState, setRobotState] = useState<boolean | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const publisherRef = useRef<ROSLIB.Topic | null>(null);
+
+  const { name: commandTopic, messageType: commandType } = topic("eStop");
+  const { name: stateTopic, messageType: stateType } = topic("eStopState");
+  const { name: cmdVelTopic, messageType: cmdVelType } = topic("cmdVel");
+  const rosVersion = activeProfile.rosVersion;
+
+  // Send the requested state to the robot over whichever path is configured
+  const send = useCallback(
+    (value: boolean) => {
+      if (!ros || !connected) {
+        setError("Not connected, E-stop is only latched in this UI");
+        return;
+      }
+
+      if (config.mode === "topic") {
+        if (!publisherRef.current) {
+          setError("E-stop publisher not ready");
+          return;
+        }
+        publisherRef.current.publish(new ROSLIB.Message({ data: value }));
+        setError(null);
+        return;
+      }
+
+      const service = new ROSLIB.Service({
+        ros,
+        name: resolveTopic(config.serviceName),
+        serviceType: serviceTypeForRos(config.serviceType, rosVersion),
+      });
+      service.callService(
+        new ROSLIB.ServiceRequest({ data: value }),
+        (response: SetBoolResponse) => {
+          setError(response.success ? null : `E-stop service refused: ${response.message}`);
+        },
+        (serviceError: string) => {
+          console.error("E-stop service call failed:", serviceError);
+          setError(`E-stop service call failed: ${serviceError}`);
+        }
+      );
+    },
+    [ros, connected, config, resolveTopic, rosVersion]
+  );
+
+  // Latched so the stop survives this UI crashing or reconnecting. Not
+  // unadvertised on cleanup, that would drop the latched message.
+  useEffect(() => {
+    if (!ros || !connected) {
+      publisherRef.current = null;
+      return;
+    }
+
+    const publisher = new ROSLIB.Topic({
+      ros,
+      name: commandTopic,
+      messageType: commandType,
+      latch: true,
+      queue_size: 1,
+    });
+    publisher.advertise();
+    publisherRef.current = publisher;
+
+    return () => {
+      publisherRef.current = null;
+    };
+  }, [ros, connected, commandTopic, commandType]);
+
+  // The robot's reported state is the source of truth
+  useEffect(() => {
+    setRobotState(null);
+    if (!ros || !connected) return;
+
+    const listener = new ROSLIB.Topic({
+      ros,
+      name: stateTopic,
+      messageType: stateType,
+    });
+    listener.subscribe((message: ROSLIB.Message) => {
+      setRobotState(!!(message as { data: boolean }).data);
+    });
+
+    return () => {
+      listener.unsubscribe();
+    };
+  }, [ros, connected, stateTopic, stateType]);
+
+  // Re-assert an engaged stop after reconnecting, the robot may have restarted
+  const sendRef = useRef(send);
+  sendRef.current = send;
+  const requestedRef = useRef(requested);
+  requestedRef.current = requested;
+  useEffect(() => {
+    if (connected && requestedRef.current) {
+      sendRef.current(true);
+    }
+  }, [connected, ros]);
+
+  const engage = useCallback(
+    (reason: string) => {
+      console.warn(`E-stop engaged: ${reason}`);
+      setRequested(true);
+      send(true);
+    },
+    [send]
+  );
+
+  // Tell main where to send the stop if it has to do it without us
+  useEffect(() => {
+    if (!isDesktop()) return;
+
+    const target: EStopTarget = {
+      url,
+      mode: config.mode,
+      eStopTopic: { name: commandTopic, messageType: commandType },
+      cmdVelTopic: { name: cmdVelTopic, messageType: cmdVelType },
+      serviceName: resolveTopic(config.serviceName),
+      serviceType: serviceTypeForRos(config.serviceType, rosVersion),
+    };
+    desktopAPI("Global E-stop").setEStopTarget(target);
+  }, [url, config, commandTopic, commandType, cmdVelTopic, cmdVelType, resolveTopic, rosVersion]);
+
+  // System-wide hotkey from the main process. Acknowledge so main knows it
+  // doesn't have to publish the stop itself.
+  const engageRef = useRef(engage);
+  engageRef.current = engage;
+  useEffect(() => {
+    if (!isDesktop()) return;
+
+    const api = desktopAPI("Global E-stop");
+    return api.onGlobalEStop(() => {
+      engageRef.current("global hotkey");
+      api.ackGlobalEStop();
+    });
+  }, []);
+
+  const release = useCallback(() => {
+    console.log("E-stop release confirmed");
+    setRequested(false);
+    send(false);
+  }, [send]);
+
+  const setConfig = useCallback((newConfig: EStopConfig) => {
+    saveSetting("eStopConfig", newConfig);
+    setConfigState(newConfig);
+  }, []);
+
+  const contextValue: EStopContextType = {
+    engaged: robotState ?? requested,
+    requested,
+    robotState,
+    pending: robotState !== null && robotState !== requested,
+    error,
+    config,
+    setConfig,
+    engage,
+    release,
+  };
+
+  return <EStopContext.Provider value={contextValue}>{children}</EStopContext.Provider>;
+}
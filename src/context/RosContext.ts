@@ -0,0 +1,40 @@
+import { createContext, useContext } from "react";
+import { Ros } from "roslib";
+
+export type ConnectionStatus = "connecting" | "connected" | "reconnecting" | "failed";
+
+export interface RobotConfig {
+  id: string;
+  name: string;
+  namespace: string; // e.g. "/husky3", relative topic names are resolved against it
+  url: string; // rosbridge websocket URL
+}
+
+export interface RosContextType {
+  ros: Ros | null;
+  connected: boolean;
+  status: ConnectionStatus;
+  url: string;
+  attempt: number; // Reconnect attempts since the last successful connection
+  retryDelay: number | null; // ms until the next attempt, null when not waiting
+  setUrl: (url: string) => void;
+  reconnect: () => void;
+  robots: RobotConfig[];
+  activeRobot: RobotConfig;
+  selectRobot: (id: string) => void;
+  saveRobot: (robot: RobotConfig) => void;
+  removeRobot: (id: string) => void;
+  resolveTopic: (name: string) => string;
+}
+
+export const DEFAULT_ROSBRIDGE_URL = "ws://localhost:9090";
+
+export const RosContext = createContext<RosContextType | undefined>(undefined);
+
+export function useRosContext(): RosContextType {
+  const context = useContext(RosContext);
+  if (!context) {
+    throw new Error("useRosContext must be used within a RosProvider");
+  }
+  return context;
+}
@@ -0,0 +1,176 @@
+import { ReactNode, useState, useEffect, useCallback } from "react";
+import ROSLIB, { Ros } from "roslib";
+import { loadSetting, saveSetting } from "@/utilities/settings";
+import { resolveTopicName } from "@/utilities/topics";
+import { ConnectionStatus, DEFAULT_ROSBRIDGE_URL, RobotConfig, RosContext, RosContextType } from "@/context/RosContext";
+
+const DEFAULT_ROBOTS: RobotConfig[] = [
+  {
+    id: "husky3",
+    name: "Husky 3",
+    namespace: "/husky3",
+    // Carry over the URL saved before the fleet registry existed
+    url: loadSetting("rosbridgeUrl", DEFAULT_ROSBRIDGE_URL),
+  },
+];
+
+// Exponential backoff between reconnect attempts
+const INITIAL_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+const MAX_RETRY_ATTEMPTS = 10;
+
+export function RosProvider({ children }: { children: ReactNode }) {
+  const [robots, setRobots] = useState<RobotConfig[]>(() => {
+    const saved = loadSetting<RobotConfig[]>("robots", DEFAULT_ROBOTS);
+    return saved.length > 0 ? saved : DEFAULT_ROBOTS;
+  });
+  const [activeRobotId, setActiveRobotId] = useState<string>(() =>
+    loadSetting("activeRobotId", DEFAULT_ROBOTS[0].id)
+  );
+
+  const activeRobot = robots.find((robot) => robot.id === activeRobotId) ?? robots[0];
+  const url = activeRobot.url;
+  const [ros, setRos] = useState<Ros | null>(null);
+  const [connected, setConnected] = useState<boolean>(false);
+  const [status, setStatus] = useState<ConnectionStatus>("connecting");
+  const [attempt, setAttempt] = useState<number>(0);
+  const [retryDelay, setRetryDelay] = useState<number | null>(null);
+
+  // Bumped to restart the connection loop after it has given up
+  const [session, setSession] = useState<number>(0);
+
+  useEffect(() => {
+    let disposed = false;
+    let attempts = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let current: Ros | null = null;
+
+    // A fresh Ros instance per attempt (and per robot), so every component
+    // keyed on `ros` tears down its old topics and re-creates them against
+    // the new socket and namespace
+    const connect = () => {
+      retryTimer = null;
+      setRetryDelay(null);
+      setStatus(attempts === 0 ? "connecting" : "reconnecting");
+
+      const instance = new ROSLIB.Ros({ url });
+      current = instance;
+
+      instance.on("connection", () => {
+        if (disposed || instance !== current) return;
+        attempts = 0;
+        setAttempt(0);
+        setConnected(true);
+        setStatus("connected");
+        console.log(`Connected to ros websocket at ${url}`);
+      });
+
+      instance.on("error", (error) => {
+        console.log("Error: ", error);
+      });
+
+      instance.on("close", () => {
+        if (disposed || instance !== current) return;
+        setConnected(false);
+        console.log("Connection to websocket server closed");
+        scheduleRetry();
+      });
+
+      setRos(instance);
+    };
+
+    const scheduleRetry = () => {
+      if (retryTimer !== null) return;
+
+      if (attempts >= MAX_RETRY_ATTEMPTS) {
+        setStatus("failed");
+        console.error(`Giving up on ${url} after ${attempts} attempts`);
+        return;
+      }
+
+      const delay = Math.min(INITIAL_RETRY_DELAY * 2 ** attempts, MAX_RETRY_DELAY);
+      attempts++;
+      setAttempt(attempts);
+      setRetryDelay(delay);
+      setStatus("reconnecting");
+      retryTimer = setTimeout(connect, delay);
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      if (retryTimer !== null) clearTimeout(retryTimer);
+      current?.close();
+      setConnected(false);
+    };
+  }, [url, session, activeRobot.id, activeRobot.namespace]);
+
+  const updateRobots = useCallback((update: (prev: RobotConfig[]) => RobotConfig[]) => {
+    setRobots((prev) => {
+      const next = update(prev);
+      saveSetting("robots", next);
+      return next;
+    });
+  }, []);
+
+  const selectRobot = useCallback((id: string) => {
+    saveSetting("activeRobotId", id);
+    setActiveRobotId(id);
+    setAttempt(0);
+  }, []);
+
+  // Add a new robot or replace an existing entry with the same id
+  const saveRobot = useCallback((robot: RobotConfig) => {
+    updateRobots((prev) =>
+      prev.some((r) => r.id === robot.id)
+        ? prev.map((r) => (r.id === robot.id ? robot : r))
+        : [...prev, robot]
+    );
+  }, [updateRobots]);
+
+  const removeRobot = useCallback((id: string) => {
+    updateRobots((prev) => (prev.length > 1 ? prev.filter((r) => r.id !== id) : prev));
+  }, [updateRobots]);
+
+  // Editing the URL edits the active robot's entry
+  const setUrl = useCallback((newUrl: string) => {
+    updateRobots((prev) =>
+      prev.map((r) => (r.id === activeRobot.id ? { ...r, url: newUrl } : r))
+    );
+  }, [updateRobots, activeRobot.id]);
+
+  const resolveTopic = useCallback(
+    (name: string) => resolveTopicName(activeRobot.namespace, name),
+    [activeRobot.namespace]
+  );
+
+  // Manual retry, restarts the backoff from the first attempt
+  const reconnect = useCallback(() => {
+    setAttempt(0);
+    setSession((prev) => prev + 1);
+  }, []);
+
+  const contextValue: RosContextType = {
+    ros,
+    connected,
+    status,
+    url,
+    attempt,
+    retryDelay,
+    setUrl,
+    reconnect,
+    robots,
+    activeRobot,
+    selectRobot,
+    saveRobot,
+    removeRobot,
+    resolveTopic,
+  };
+
+  return (
+    <RosContext.Provider value={contextValue}>
+      {children}
+    </RosContext.Provider>
+  );
+}
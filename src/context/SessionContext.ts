@@ -0,0 +1,30 @@
+import { createContext, useContext } from "react";
+import { InspectionSession, PathSample, SegmentMetadata } from "@/utilities/inspection";
+import { RobotPose } from "@/utilities/pipePosition";
+
+export interface SessionContextType {
+  sessions: InspectionSession[];
+  activeSession: InspectionSession | null; // The session in progress, paused or not
+  recording: boolean; // Active and not paused
+  lastMetadata: SegmentMetadata; // Pre-fills the form for the next segment
+  loaded: boolean; // Stored sessions have been read back
+  storeErrors: string[]; // Records that could not be restored
+  startSession: (metadata: SegmentMetadata) => InspectionSession;
+  pauseSession: () => void;
+  resumeSession: () => void;
+  endSession: () => void;
+  updateMetadata: (metadata: SegmentMetadata) => void;
+  getSessionPath: (sessionId: string) => PathSample[];
+  // Latest robot pose and the active session's chainage, for stamping detections
+  getPoseSnapshot: () => { pose: RobotPose | null; chainage: number | null };
+}
+
+export const SessionContext = createContext<SessionContextType | undefined>(undefined);
+
+export function useSession(): SessionContextType {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error("useSession must be used within a SessionProvider");
+  }
+  return context;
+}
@@ -0,0 +1,268 @@
+import { ReactNode, useState, useEffect, useCallback, useRef } from "react";
+import ROSLIB from "roslib";
+import { useRosContext } from "@/context/RosContext";
+import { useTopicProfile } from "@/context/TopicProfileContext";
+import { loadSetting, saveSetting } from "@/utilities/settings";
+import { desktopAPI, isDesktop } from "@/utilities/desktop";
+import {
+  EMPTY_SEGMENT,
+  InspectionSession,
+  PATH_SAMPLE_SPACING,
+  PathSample,
+  SegmentMetadata,
+  createSessionId,
+} from "@/utilities/inspection";
+import { restoreSession } from "@/utilities/inspectionStore";
+import { POSE_STALE_MS, RobotPose, distance3D, pathLength } from "@/utilities/pipePosition";
+import { SessionContext, SessionContextType } from "@/context/SessionContext";
+
+interface PoseStampedMessage {
+  header?: { frame_id?: string };
+  pose?: {
+    position?: { x: number; y: number; z: number };
+    orientation?: { x: number; y: number; z: number; w: number };
+  };
+}
+
+// How often the path of a recording session is written to the store
+const PATH_FLUSH_INTERVAL_MS = 10000;
+
+export function SessionProvider({ children }: { children: ReactNode }) {
+  const { ros, connected } = useRosContext();
+  const { topic } = useTopicProfile();
+  const { name: poseTopic, messageType: poseType } = topic("currentPose");
+  const [sessions, setSessions] = useState<InspectionSession[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [lastMetadata, setLastMetadata] = useState<SegmentMetadata>(() => ({
+    ...EMPTY_SEGMENT,
+    ...loadSetting<Partial<SegmentMetadata>>("sessionDefaults", {}),
+  }));
+  const [loaded, setLoaded] = useState<boolean>(false);
+  const [storeErrors, setStoreErrors] = useState<string[]>([]);
+  // Path samples per session, kept out of state since they arrive at pose rate
+  const pathsRef = useRef<Record<string, PathSample[]>>({});
+  // Distance along each session's path, updated as samples are added
+  const chainageRef = useRef<Record<string, number>>({});
+  const latestPoseRef = useRef<RobotPose | null>(null);
+  // Last version of each session written to the store
+  const savedRef = useRef<Map<string, InspectionSession>>(new Map());
+  const savedPathLengthRef = useRef<Record<string, number>>({});
+
+  const activeSession = sessions.find((s) => s.id === activeId) ?? null;
+  const recording = activeSession?.status === "active";
+
+  const updateSession = (id: string, update: (session: InspectionSession) => InspectionSession) => {
+    setSessions((prev) => prev.map((s) => (s.id === id ? update(s) : s)));
+  };
+
+  const closePeriod = (session: InspectionSession, now: number): InspectionSession => ({
+    ...session,
+    periods: session.periods.map((p) => (p.end === null ? { ...p, end: now } : p)),
+  });
+
+  const endSession = useCallback(() => {
+    if (!activeId) return;
+    const now = Date.now();
+    updateSession(activeId, (s) => ({ ...closePeriod(s, now), status: "ended", endedAt: now }));
+    setActiveId(null);
+  }, [activeId]);
+
+  const startSession = (metadata: SegmentMetadata): InspectionSession => {
+    // Starting a new segment finishes the previous one
+    endSession();
+
+    const now = Date.now();
+    const session: InspectionSession = {
+      id: createSessionId(metadata, now),
+      metadata,
+      status: "active",
+      startedAt: now,
+      endedAt: null,
+      periods: [{ start: now, end: null }],
+    };
+    pathsRef.current[session.id] = [];
+    chainageRef.current[session.id] = 0;
+    setSessions((prev) => [...prev, session]);
+    setActiveId(session.id);
+
+    // Remember the fields that rarely change between segments
+    const defaults: Partial<SegmentMetadata> = {
+      project: metadata.project,
+      operator: metadata.operator,
+      weather: metadata.weather,
+      pipeMaterial: metadata.pipeMaterial,
+      diameterMm: metadata.diameterMm,
+      direction: metadata.direction,
+    };
+    saveSetting("sessionDefaults", defaults);
+    setLastMetadata({ ...EMPTY_SEGMENT, ...defaults });
+    return session;
+  };
+
+  const pauseSession = () => {
+    if (!activeId || activeSession?.status !== "active") return;
+    updateSession(activeId, (s) => ({ ...closePeriod(s, Date.now()), status: "paused" }));
+  };
+
+  const resumeSession = () => {
+    if (!activeId || activeSession?.status !== "paused") return;
+    updateSession(activeId, (s) => ({
+      ...s,
+      status: "active",
+      periods: [...s.periods, { start: Date.now(), end: null }],
+    }));
+  };
+
+  const updateMetadata = (metadata: SegmentMetadata) => {
+    if (!activeId) return;
+    updateSession(activeId, (s) => ({ ...s, metadata }));
+  };
+
+  const persistSession = useCallback((session: InspectionSession) => {
+    if (!isDesktop()) return;
+
+    const path = pathsRef.current[session.id] ?? [];
+    savedRef.current.set(session.id, session);
+    savedPathLengthRef.current[session.id] = path.length;
+    desktopAPI("Session storage")
+      .saveInspectionSession({ session, path })
+      .then((result) => {
+        if (!result.success) console.error(`Failed to save session ${session.id}:`, result.error);
+      })
+      .catch((error) => console.error(`Failed to save session ${session.id}:`, error));
+  }, []);
+
+  // Restore sessions from the store; one left open by a previous run comes back paused
+  useEffect(() => {
+    if (!isDesktop()) {
+      console.warn("Electron API not available, inspection sessions will not be saved");
+      setLoaded(true);
+      return;
+    }
+
+    desktopAPI("Session storage")
+      .loadInspectionSessions()
+      .then((result) => {
+        const restored = result.sessions
+          .map((stored) => restoreSession(stored))
+          .sort((a, b) => a.session.startedAt - b.session.startedAt);
+        restored.forEach(({ session, path }) => {
+          pathsRef.current[session.id] = path;
+          chainageRef.current[session.id] = pathLength(path);
+        });
+
+        // Only the newest unfinished session stays open
+        const open = restored.filter(({ session }) => session.status !== "ended");
+        const resumable = open.pop()?.session ?? null;
+        const closed = new Set(open.map(({ session }) => session.id));
+        const restoredSessions = restored.map(({ session }) =>
+          closed.has(session.id)
+            ? { ...session, status: "ended" as const, endedAt: session.periods[session.periods.length - 1]?.end ?? session.startedAt }
+            : session
+        );
+
+        setSessions((prev) => [
+          ...restoredSessions.filter((s) => !prev.some((p) => p.id === s.id)),
+          ...prev,
+        ]);
+        if (resumable) setActiveId((prev) => prev ?? resumable.id);
+        setStoreErrors(result.errors);
+      })
+      .catch((error) => {
+        console.error("Failed to load inspection sessions:", error);
+        setStoreErrors([`Failed to load inspection sessions: ${error}`]);
+      })
+      .finally(() => setLoaded(true));
+  }, []);
+
+  // Write sessions back whenever they change
+  useEffect(() => {
+    if (!loaded) return;
+    sessions.forEach((session) => {
+      if (savedRef.current.get(session.id) !== session) persistSession(session);
+    });
+  }, [sessions, loaded, persistSession]);
+
+  // The path grows outside state, so flush it on a timer while the session is open
+  useEffect(() => {
+    if (!activeSession) return;
+    const session = activeSession;
+    const interval = setInterval(() => {
+      const length = pathsRef.current[session.id]?.length ?? 0;
+      if (length !== savedPathLengthRef.current[session.id]) persistSession(session);
+    }, PATH_FLUSH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [activeSession, persistSession]);
+
+  const getSessionPath = useCallback((sessionId: string) => pathsRef.current[sessionId] ?? [], []);
+
+  const getPoseSnapshot = useCallback(() => {
+    const latest = latestPoseRef.current;
+    const pose = latest && Date.now() - latest.receivedAt <= POSE_STALE_MS ? latest : null;
+    if (!activeId) return { pose, chainage: null };
+
+    // Add the stretch since the last path sample, which can be up to the sample spacing
+    const path = pathsRef.current[activeId] ?? [];
+    const last = path[path.length - 1];
+    const chainage =
+      (chainageRef.current[activeId] ?? 0) + (pose && last ? distance3D(last, pose.position) : 0);
+    return { pose, chainage };
+  }, [activeId]);
+
+  // Track the robot pose, and its path for the open session. Distance still
+  // counts while paused, since the robot may move along the pipe.
+  useEffect(() => {
+    if (!ros || !connected) return;
+
+    const listener = new ROSLIB.Topic({
+      ros,
+      name: poseTopic,
+      messageType: poseType,
+    });
+
+    listener.subscribe((message) => {
+      const { header, pose } = message as PoseStampedMessage;
+      const position = pose?.position;
+      if (!position) return;
+
+      const now = Date.now();
+      latestPoseRef.current = {
+        position: { x: position.x, y: position.y, z: position.z },
+        orientation: pose.orientation ?? { x: 0, y: 0, z: 0, w: 1 },
+        frameId: header?.frame_id ?? "",
+        receivedAt: now,
+      };
+
+      if (!activeId) return;
+      const path = pathsRef.current[activeId] ?? (pathsRef.current[activeId] = []);
+      const last = path[path.length - 1];
+      const step = last ? distance3D(last, position) : 0;
+      if (last && step < PATH_SAMPLE_SPACING) return;
+
+      path.push({ x: position.x, y: position.y, z: position.z, timestamp: now });
+      chainageRef.current[activeId] = (chainageRef.current[activeId] ?? 0) + step;
+    });
+
+    return () => {
+      listener.unsubscribe();
+    };
+  }, [ros, connected, activeId, poseTopic, poseType]);
+
+  const contextValue: SessionContextType = {
+    sessions,
+    activeSession,
+    recording,
+    lastMetadata,
+    loaded,
+    storeErrors,
+    startSession,
+    pauseSession,
+    resumeSession,
+    endSession,
+    updateMetadata,
+    getSessionPath,
+    getPoseSnapshot,
+  };
+
+  return <SessionContext.Provider value={contextValue}>{children}</SessionContext.Provider>;
+}
@@ -0,0 +1,22 @@
+import { createContext, useContext } from "react";
+import { TopicConfig, TopicKey, TopicProfile, TopicProfileConfig } from "@/utilities/topicProfile";
+
+export interface TopicProfileContextType {
+  profiles: TopicProfile[];
+  activeProfile: TopicProfile;
+  errors: string[]; // Problems found while loading or saving the profile file
+  loaded: boolean;
+  topic: (key: TopicKey) => TopicConfig; // Resolved name and bridge-ready message type
+  selectProfile: (id: string) => Promise<void>;
+  saveProfiles: (config: TopicProfileConfig) => Promise<boolean>;
+}
+
+export const TopicProfileContext = createContext<TopicProfileContextType | undefined>(undefined);
+
+export function useTopicProfile(): TopicProfileContextType {
+  const context = useContext(TopicProfileContext);
+  if (!context) {
+    throw new Error("useTopicProfile must be used within a TopicProfileProvider");
+  }
+  return context;
+}
@@ -0,0 +1,97 @@
+import { ReactNode, useState, useEffect, useCallback } from "react";
+import { useRosContext } from "@/context/RosContext";
+import { desktopAPI, isDesktop } from "@/utilities/desktop";
+import {
+  DEFAULT_TOPIC_PROFILE_CONFIG,
+  TopicConfig,
+  TopicKey,
+  TopicProfileConfig,
+  messageTypeForRos,
+} from "@/utilities/topicProfile";
+import { TopicProfileContext, TopicProfileContextType } from "@/context/TopicProfileContext";
+
+export function TopicProfileProvider({ children }: { children: ReactNode }) {
+  const { resolveTopic } = useRosContext();
+  const [config, setConfig] = useState<TopicProfileConfig>(DEFAULT_TOPIC_PROFILE_CONFIG);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [loaded, setLoaded] = useState<boolean>(false);
+
+  // Profiles are loaded and validated by the Electron main process
+  useEffect(() => {
+    if (!isDesktop()) {
+      console.warn("Electron API not available, using built-in topic profiles");
+      setLoaded(true);
+      return;
+    }
+
+    desktopAPI("Topic profiles")
+      .loadTopicProfiles()
+      .then((result) => {
+        setConfig(result.config);
+        setErrors(result.errors);
+      })
+      .catch((error) => {
+        console.error("Failed to load topic profiles:", error);
+        setErrors([`Failed to load topic profiles: ${error}`]);
+      })
+      .finally(() => setLoaded(true));
+  }, []);
+
+  const activeProfile =
+    config.profiles.find((p) => p.id === config.activeProfile) ?? config.profiles[0];
+
+  const topic = useCallback(
+    (key: TopicKey): TopicConfig => {
+      const entry = activeProfile.topics[key];
+      return {
+        name: resolveTopic(entry.name),
+        messageType: messageTypeForRos(entry.messageType, activeProfile.rosVersion),
+      };
+    },
+    [activeProfile, resolveTopic]
+  );
+
+  const saveProfiles = useCallback(async (newConfig: TopicProfileConfig): Promise<boolean> => {
+    if (!isDesktop()) {
+      // Outside Electron the change only lasts for this session
+      setConfig(newConfig);
+      return true;
+    }
+
+    try {
+      const result = await desktopAPI("Topic profiles").saveTopicProfiles(newConfig);
+      setErrors(result.errors);
+      if (result.success) {
+        setConfig(newConfig);
+      }
+      return result.success;
+    } catch (error) {
+      console.error("Failed to save topic profiles:", error);
+      setErrors([`Failed to save topic profiles: ${error}`]);
+      return false;
+    }
+  }, []);
+
+  const selectProfile = useCallback(
+    async (id: string) => {
+      await saveProfiles({ ...config, activeProfile: id });
+    },
+    [config, saveProfiles]
+  );
+
+  const contextValue: TopicProfileContextType = {
+    profiles: config.profiles,
+    activeProfile,
+    errors,
+    loaded,
+    topic,
+    selectProfile,
+    saveProfiles,
+  };
+
+  return (
+    <TopicProfileContext.Provider value={contextValue}>
+      {children}
+    </TopicProfileContext.Provider>
+  );
+}
@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useRef } from "react";
+import ROSLIB from "roslib";
+import * as THREE from "three";
+import { useRosContext } from "@/context/RosContext";
+import { useTopicProfile } from "@/context/TopicProfileContext";
+import { Position } from "@/utilities/inspection";
+import { MAP_FRAME } from "@/utilities/navigation";
+import { TfBuffer, TfMessage, lookupTransform, updateTfBuffer } from "@/utilities/tf";
+import {
+  CameraIntrinsics,
+  LocalizationRequest,
+  LocalizationResult,
+  boxToCameraPixels,
+  cameraIntrinsicsFromInfo,
+} from "@/utilities/defectLocalization";
+
+// A cloud older than this no longer shows what the camera is looking at
+const CLOUD_STALE_MS = 1000;
+// Give up on the worker after this long
+const LOCALIZE_TIMEOUT_MS = 3000;
+
+interface CloudMessage extends Omit<LocalizationRequest["message"], "data"> {
+  header?: { frame_id?: string };
+  data: LocalizationRequest["message"]["data"];
+}
+
+// Turns detector boxes into map-frame positions using the camera calibration,
+// TF and the latest lidar cloud
+export function useDefectLocalizer() {
+  const { ros, connected } = useRosContext();
+  const { topic } = useTopicProfile();
+  const { name: infoTopic, messageType: infoType } = topic("cameraInfo");
+  const { name: tfTopic, messageType: tfType } = topic("tf");
+  const { name: tfStaticTopic, messageType: tfStaticType } = topic("tfStatic");
+  const { name: lidarTopic, messageType: lidarType } = topic("lidarPoints");
+
+  const intrinsicsRef = useRef<CameraIntrinsics | null>(null);
+  const tfBufferRef = useRef<TfBuffer>(new Map());
+  const cloudRef = useRef<{ message: CloudMessage; receivedAt: number } | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef<Map<number, (result: LocalizationResult | null) => void>>(new Map());
+  const nextIdRef = useRef<number>(0);
+
+  useEffect(() => {
+    if (!ros || !connected) return;
+
+    let worker: Worker | null = null;
+    try {
+      worker = new Worker(new URL("../utilities/localizationWorker.ts", import.meta.url));
+      worker.onmessage = (e: MessageEvent<LocalizationResult>) => {
+        pendingRef.current.get(e.data.id)?.(e.data);
+        pendingRef.current.delete(e.data.id);
+      };
+      worker.onerror = (err) => console.error("Localization worker error:", err);
+      workerRef.current = worker;
+    } catch (err) {
+      console.error("Failed to create localization worker:", err);
+    }
+
+    const tfBuffer = tfBufferRef.current;
+    const infoListener = new ROSLIB.Topic({ ros, name: infoTopic, messageType: infoType, throttle_rate: 1000 });
+    const tfListener = new ROSLIB.Topic({ ros, name: tfTopic, messageType: tfType });
+    const tfStaticListener = new ROSLIB.Topic({ ros, name: tfStaticTopic, messageType: tfStaticType });
+    const cloudListener = new ROSLIB.Topic({ ros, name: lidarTopic, messageType: lidarType, throttle_rate: 200 });
+
+    infoListener.subscribe((message) => {
+      intrinsicsRef.current = cameraIntrinsicsFromInfo(message as Parameters<typeof cameraIntrinsicsFromInfo>[0]);
+    });
+    tfListener.subscribe((message) => updateTfBuffer(tfBuffer, message as TfMessage));
+    tfStaticListener.subscribe((message) => updateTfBuffer(tfBuffer, message as TfMessage));
+    cloudListener.subscribe((message) => {
+      cloudRef.current = { message: message as CloudMessage, receivedAt: Date.now() };
+    });
+
+    const pending = pendingRef.current;
+    return () => {
+      infoListener.unsubscribe();
+      tfListener.unsubscribe();
+      tfStaticListener.unsubscribe();
+      cloudListener.unsubscribe();
+      worker?.terminate();
+      workerRef.current = null;
+      pending.forEach((resolve) => resolve(null));
+      pending.clear();
+      // Transforms may differ on the next robot
+      tfBuffer.clear();
+      intrinsicsRef.current = null;
+      cloudRef.current = null;
+    };
+  }, [ros, connected, infoTopic, infoType, tfTopic, tfType, tfStaticTopic, tfStaticType, lidarTopic, lidarType]);
+
+  // Resolves to the map-frame point behind the box centre, or null when the
+  // calibration, transforms or a fresh cloud aren't available
+  const localize = useCallback(async (box: number[]): Promise<Position | null> => {
+    const worker = workerRef.current;
+    const intrinsics = intrinsicsRef.current;
+    const cloud = cloudRef.current;
+    if (!worker || !intrinsics || !cloud || Date.now() - cloud.receivedAt > CLOUD_STALE_MS) {
+      return null;
+    }
+
+    const cloudFrame = cloud.message.header?.frame_id ?? "";
+    const cameraFromCloud = lookupTransform(tfBufferRef.current, intrinsics.frameId, cloudFrame);
+    const mapFromCamera = lookupTransform(tfBufferRef.current, MAP_FRAME, intrinsics.frameId);
+    if (!cameraFromCloud || !mapFromCamera) {
+      console.warn(`No transform between ${cloudFrame}, ${intrinsics.frameId} and ${MAP_FRAME}`);
+      return null;
+    }
+
+    const id = nextIdRef.current++;
+    const { pixel, windowPx } = boxToCameraPixels(box, intrinsics);
+    const request: LocalizationRequest = {
+      id,
+      message: cloud.message,
+      cameraFromCloud: cameraFromCloud.elements.slice(),
+      intrinsics,
+      pixel,
+      windowPx,
+    };
+
+    const result = await new Promise<LocalizationResult | null>((resolve) => {
+      pendingRef.current.set(id, resolve);
+      worker.postMessage(request);
+      setTimeout(() => {
+        if (pendingRef.current.delete(id)) resolve(null);
+      }, LOCALIZE_TIMEOUT_MS);
+    });
+    if (!result?.point) return null;
+
+    const world = new THREE.Vector3(...result.point).applyMatrix4(mapFromCamera);
+    return { x: world.x, y: world.y, z: world.z };
+  }, []);
+
+  return { localize };
+}
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef } from "react";
+import {
+  DetectionEvidence,
+  EVIDENCE_AFTER_TIMEOUT_MS,
+  EVIDENCE_FRAMES_AFTER,
+  EVIDENCE_FRAMES_BEFORE,
+  EVIDENCE_FRAME_INTERVAL_MS,
+  EvidenceFrame,
+} from "@/utilities/detectionEvidence";
+
+interface Waiter {
+  after: number; // Source frame timestamp
+  frames: EvidenceFrame[];
+  resolve: (frames: EvidenceFrame[]) => void;
+}
+
+// Rolling buffer of recent camera frames, so a detection can be stored with
+// the frames just before and after it
+export function useEvidenceBuffer() {
+  const framesRef = useRef<EvidenceFrame[]>([]);
+  const waitersRef = useRef<Set<Waiter>>(new Set());
+
+  const pushFrame = useCallback((frame: EvidenceFrame) => {
+    const frames = framesRef.current;
+    const last = frames[frames.length - 1];
+    if (last && frame.timestamp - last.timestamp < EVIDENCE_FRAME_INTERVAL_MS) return;
+
+    frames.push(frame);
+    // Inference lags the camera, so frames after the source may already be buffered
+    if (frames.length > EVIDENCE_FRAMES_BEFORE + EVIDENCE_FRAMES_AFTER + 1) frames.shift();
+
+    waitersRef.current.forEach((waiter) => {
+      if (frame.timestamp <= waiter.after) return;
+      waiter.frames.push(frame);
+      if (waiter.frames.length >= EVIDENCE_FRAMES_AFTER) {
+        waitersRef.current.delete(waiter);
+        waiter.resolve(waiter.frames);
+      }
+    });
+  }, []);
+
+  // Evidence for a detection made on source, taken when the detection is reported
+  const snapshot = useCallback((source: EvidenceFrame): DetectionEvidence => {
+    const buffered = framesRef.current;
+    const before = buffered.filter((f) => f.timestamp < source.timestamp).slice(-EVIDENCE_FRAMES_BEFORE);
+    const already = buffered.filter((f) => f.timestamp > source.timestamp).slice(0, EVIDENCE_FRAMES_AFTER);
+
+    const after =
+      already.length >= EVIDENCE_FRAMES_AFTER
+        ? Promise.resolve(already)
+        : new Promise<EvidenceFrame[]>((resolve) => {
+            const waiter: Waiter = { after: source.timestamp, frames: already, resolve };
+            waitersRef.current.add(waiter);
+            setTimeout(() => {
+              if (waitersRef.current.delete(waiter)) resolve(waiter.frames);
+            }, EVIDENCE_AFTER_TIMEOUT_MS);
+          });
+
+    return { source, before, after };
+  }, []);
+
+  // Hand over whatever was collected if the camera view goes away
+  useEffect(() => {
+    const waiters = waitersRef.current;
+    return () => {
+      waiters.forEach((waiter) => waiter.resolve(waiter.frames));
+      waiters.clear();
+    };
+  }, []);
+
+  return { pushFrame, snapshot };
+}
@@ -0,0 +1,143 @@
+import { useEffect, useRef, useState } from "react";
+
+// Standard Gamepad API mapping (Xbox / PlayStation layouts)
+export const GAMEPAD_AXES = {
+  LEFT_X: 0,
+  LEFT_Y: 1,
+  RIGHT_X: 2,
+  RIGHT_Y: 3,
+};
+
+export const GAMEPAD_BUTTONS: { index: number; label: string }[] = [
+  { index: 0, label: "A / Cross" },
+  { index: 1, label: "B / Circle" },
+  { index: 2, label: "X / Square" },
+  { index: 3, label: "Y / Triangle" },
+  { index: 4, label: "LB / L1" },
+  { index: 5, label: "RB / R1" },
+  { index: 8, label: "Back / Share" },
+  { index: 9, label: "Start / Options" },
+];
+
+const LEFT_TRIGGER = 6;
+const RIGHT_TRIGGER = 7;
+const STICK_DEADZONE = 0.15;
+
+export interface GamepadCommand {
+  linear: number; // -1..1, forward positive
+  angular: number; // -1..1, counter-clockwise (left) positive
+  speedScale: number; // 0..1 from the triggers
+}
+
+interface UseGamepadOptions {
+  eStopButton: number;
+  deadmanButton: number; // Must be held for stick commands to be sent
+  onEStop: () => void;
+}
+
+// Rescale so the output starts at 0 just outside the deadzone
+const applyDeadzone = (value: number): number => {
+  if (Math.abs(value) < STICK_DEADZONE) return 0;
+  return (Math.sign(value) * (Math.abs(value) - STICK_DEADZONE)) / (1 - STICK_DEADZONE);
+};
+
+const buttonValue = (pad: Gamepad, index: number): number => pad.buttons[index]?.value ?? 0;
+
+// Right trigger boosts from half to full speed, left trigger slows down for precise moves
+const triggerSpeedScale = (pad: Gamepad): number => {
+  const boost = 0.5 + 0.5 * buttonValue(pad, RIGHT_TRIGGER);
+  const precision = 1 - 0.75 * buttonValue(pad, LEFT_TRIGGER);
+  return boost * precision;
+};
+
+// Polls the first connected controller every animation frame. The latest
+// command is kept in a ref so the publish loop can read it without re-rendering.
+export function useGamepad({ eStopButton, deadmanButton, onEStop }: UseGamepadOptions) {
+  const [connectedPad, setConnectedPad] = useState<string | null>(null);
+  const [active, setActive] = useState<boolean>(false); // A stick is deflected
+  const [deadmanHeld, setDeadmanHeld] = useState<boolean>(false);
+  const commandRef = useRef<GamepadCommand>({ linear: 0, angular: 0, speedScale: 1 });
+  const onEStopRef = useRef(onEStop);
+  onEStopRef.current = onEStop;
+
+  useEffect(() => {
+    if (!navigator.getGamepads) {
+      console.warn("Gamepad API not supported");
+      return;
+    }
+
+    let frame: number;
+    let eStopWasPressed = false;
+    let wasActive = false;
+    let wasDeadmanHeld = false;
+
+    const updateDeadman = (held: boolean) => {
+      if (held !== wasDeadmanHeld) {
+        wasDeadmanHeld = held;
+        setDeadmanHeld(held);
+      }
+    };
+
+    const poll = () => {
+      frame = requestAnimationFrame(poll);
+
+      const pad = Array.from(navigator.getGamepads()).find((p): p is Gamepad => !!p && p.connected);
+      if (!pad) {
+        commandRef.current = { linear: 0, angular: 0, speedScale: 1 };
+        if (wasActive) {
+          wasActive = false;
+          setActive(false);
+        }
+        updateDeadman(false);
+        return;
+      }
+
+      updateDeadman(pad.buttons[deadmanButton]?.pressed ?? false);
+
+      // Edge-triggered so holding the button doesn't retrigger
+      const eStopPressed = pad.buttons[eStopButton]?.pressed ?? false;
+      if (eStopPressed && !eStopWasPressed) {
+        onEStopRef.current();
+      }
+      eStopWasPressed = eStopPressed;
+
+      const linear = -applyDeadzone(pad.axes[GAMEPAD_AXES.LEFT_Y] ?? 0);
+      const angular = -applyDeadzone(pad.axes[GAMEPAD_AXES.RIGHT_X] ?? 0);
+      commandRef.current = { linear, angular, speedScale: triggerSpeedScale(pad) };
+
+      const isActive = linear !== 0 || angular !== 0;
+      if (isActive !== wasActive) {
+        wasActive = isActive;
+        setActive(isActive);
+      }
+    };
+
+    const handleConnected = (event: GamepadEvent) => {
+      console.log("Gamepad connected:", event.gamepad.id);
+      setConnectedPad(event.gamepad.id);
+    };
+
+    const handleDisconnected = (event: GamepadEvent) => {
+      console.log("Gamepad disconnected:", event.gamepad.id);
+      const remaining = Array.from(navigator.getGamepads()).find((p) => !!p && p.connected);
+      setConnectedPad(remaining ? remaining.id : null);
+    };
+
+    window.addEventListener("gamepadconnected", handleConnected);
+    window.addEventListener("gamepaddisconnected", handleDisconnected);
+
+    // Pick up a controller that was plugged in before mount
+    const existing = Array.from(navigator.getGamepads()).find((p) => !!p && p.connected);
+    if (existing) setConnectedPad(existing.id);
+
+    frame = requestAnimationFrame(poll);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("gamepadconnected", handleConnected);
+      window.removeEventListener("gamepaddisconnected", handleDisconnected);
+    };
+  }, [eStopButton, deadmanButton]);
+
+  return { connectedPad, active, deadmanHeld, commandRef };
+}
@@ -0,0 +1,325 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import ROSLIB from "roslib";
+import { useRosContext } from "@/context/RosContext";
+import { useTopicProfile } from "@/context/TopicProfileContext";
+import { useEStop } from "@/context/EStopContext";
+import {
+  FOLLOW_WAYPOINTS_ACTION,
+  FOLLOW_WAYPOINTS_SERVER,
+  MissionKind,
+  MissionState,
+  NAVIGATE_TO_POSE_ACTION,
+  NAVIGATE_TO_POSE_SERVER,
+  NavFeedback,
+  NavPose2D,
+  WaypointStatus,
+  actionTypeForRos,
+  cancelActionGoalOp,
+  durationToSeconds,
+  followWaypointsGoal,
+  isMissionFinished,
+  missionStateFromGoalStatus,
+  missionStateFromStatus,
+  navigateToPoseGoal,
+  sendActionGoalOp,
+} from "@/utilities/navigation";
+
+export interface NavigationMission {
+  kind: MissionKind;
+  state: MissionState;
+  feedback: NavFeedback;
+  message: string | null;
+}
+
+export type Navigation = ReturnType<typeof useNavigation>;
+
+const SERVER_TIMEOUT_MS = 5000;
+
+// Callbacks of a goal in flight, with states already mapped for either ROS version
+interface GoalHandlers {
+  onStatus: (state: MissionState, text: string | null) => void;
+  onFeedback: (feedback: Record<string, unknown>) => void;
+  onResult: (state: MissionState, result: Record<string, unknown> | null) => void;
+}
+
+interface GoalHandle {
+  cancel: () => void;
+  dispose: () => void;
+}
+
+// ROS 1: actionlib topics through roslib's ActionClient
+function sendActionlibGoal(
+  ros: ROSLIB.Ros,
+  serverName: string,
+  actionName: string,
+  goalMessage: unknown,
+  handlers: GoalHandlers
+): GoalHandle {
+  const client = new ROSLIB.ActionClient({ ros, serverName, actionName });
+  const goal = new ROSLIB.Goal({ actionClient: client, goalMessage });
+
+  goal.on("status", (status: { status: number; text?: string }) => {
+    handlers.onStatus(missionStateFromStatus(status.status), status.text || null);
+  });
+  goal.on("feedback", handlers.onFeedback);
+  // The final status normally arrives first; assume success if it didn't
+  goal.on("result", (result: Record<string, unknown>) => handlers.onResult("succeeded", result));
+  goal.send();
+
+  return { cancel: () => goal.cancel(), dispose: () => client.dispose() };
+}
+
+interface ActionMessage {
+  op?: string;
+  id?: string;
+  values?: Record<string, unknown>;
+  status?: number;
+  result?: boolean;
+}
+
+let actionGoalCount = 0;
+
+// ROS 2: rosbridge action operations. roslib drops the replies, so they are
+// read off the socket directly.
+function sendRos2ActionGoal(
+  ros: ROSLIB.Ros,
+  action: string,
+  actionType: string,
+  goalMessage: unknown,
+  handlers: GoalHandlers
+): GoalHandle {
+  const id = `send_action_goal:${action}:${++actionGoalCount}`;
+  const socket = (ros as ROSLIB.Ros & { socket?: WebSocket }).socket;
+
+  const onMessage = (event: MessageEvent) => {
+    if (typeof event.data !== "string") return;
+    let message: ActionMessage;
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+    if (message.id !== id) return;
+
+    if (message.op === "action_feedback") {
+      handlers.onFeedback(message.values ?? {});
+    } else if (message.op === "action_result") {
+      let state = missionStateFromGoalStatus(message.status ?? 0);
+      if (!isMissionFinished(state)) state = message.result === false ? "aborted" : "succeeded";
+      handlers.onResult(state, message.values ?? null);
+    }
+  };
+
+  socket?.addEventListener("message", onMessage);
+  ros.callOnConnection(sendActionGoalOp(id, action, actionType, goalMessage));
+
+  return {
+    cancel: () => ros.callOnConnection(cancelActionGoalOp(id, action)),
+    dispose: () => socket?.removeEventListener("message", onMessage),
+  };
+}
+
+// Sends goals and waypoint missions to Nav2 and tracks their progress, over
+// actionlib on ROS 1 and rosbridge action operations on ROS 2
+export function useNavigation(ros: ROSLIB.Ros | null, connection: boolean) {
+  const { connected, resolveTopic } = useRosContext();
+  const { activeProfile } = useTopicProfile();
+  const eStop = useEStop();
+  const [goal, setGoal] = useState<NavPose2D | null>(null);
+  const [waypoints, setWaypoints] = useState<NavPose2D[]>([]);
+  const [waypointStatus, setWaypointStatus] = useState<WaypointStatus[]>([]);
+  const [mission, setMission] = useState<NavigationMission | null>(null);
+  const goalRef = useRef<GoalHandle | null>(null);
+
+  // Drop the goal for the previous connection or robot
+  const disposeGoal = useCallback(() => {
+    goalRef.current?.dispose();
+    goalRef.current = null;
+  }, []);
+
+  useEffect(() => disposeGoal, [ros, disposeGoal]);
+
+  const updateMission = (update: Partial<NavigationMission>) => {
+    setMission((prev) => (prev ? { ...prev, ...update } : prev));
+  };
+
+  const startMission = (
+    kind: MissionKind,
+    serverName: string,
+    actionType: string,
+    goalMessage: unknown,
+    onFeedback: (feedback: Record<string, unknown>) => NavFeedback,
+    onFinished: (state: MissionState, result: Record<string, unknown> | null) => void
+  ): boolean => {
+    if (!ros || !connection || !connected) {
+      setMission({ kind, state: "rejected", feedback: {}, message: "Not connected to ROS" });
+      return false;
+    }
+    if (eStop.engaged || eStop.requested) {
+      setMission({ kind, state: "rejected", feedback: {}, message: "Release the E-stop first" });
+      return false;
+    }
+
+    // One mission at a time, a new goal replaces the old one
+    goalRef.current?.cancel();
+    disposeGoal();
+
+    let handle: GoalHandle | null = null;
+    let finished = false;
+    let heardBack = false;
+
+    const handlers: GoalHandlers = {
+      onStatus: (state, text) => {
+        heardBack = true;
+        if (goalRef.current !== handle || finished) return;
+        updateMission({ state, message: text });
+        if (isMissionFinished(state)) {
+          finished = true;
+          onFinished(state, null);
+        }
+      },
+      onFeedback: (feedback) => {
+        heardBack = true;
+        if (goalRef.current !== handle) return;
+        updateMission({ state: "active", feedback: onFeedback(feedback) });
+      },
+      onResult: (state, result) => {
+        heardBack = true;
+        if (goalRef.current !== handle || finished) return;
+        finished = true;
+        setMission((prev) => (prev && !isMissionFinished(prev.state) ? { ...prev, state } : prev));
+        onFinished(state, result);
+      },
+    };
+
+    setMission({ kind, state: "pending", feedback: {}, message: null });
+    const rosVersion = activeProfile.rosVersion;
+    const server = resolveTopic(serverName);
+    const type = actionTypeForRos(actionType, rosVersion);
+    handle =
+      rosVersion === 1
+        ? sendActionlibGoal(ros, server, type, goalMessage, handlers)
+        : sendRos2ActionGoal(ros, server, type, goalMessage, handlers);
+    goalRef.current = handle;
+
+    // Nav2 acknowledges a goal within moments if it's running at all
+    setTimeout(() => {
+      if (goalRef.current !== handle || finished || heardBack) return;
+      finished = true;
+      updateMission({ state: "aborted", message: "Action server did not respond" });
+      onFinished("aborted", null);
+    }, SERVER_TIMEOUT_MS);
+    return true;
+  };
+
+  const sendGoal = (pose: NavPose2D) => {
+    setGoal(pose);
+    startMission(
+      "goal",
+      NAVIGATE_TO_POSE_SERVER,
+      NAVIGATE_TO_POSE_ACTION,
+      navigateToPoseGoal(pose),
+      (feedback) => ({
+        distanceRemaining: feedback.distance_remaining as number | undefined,
+        etaSeconds: durationToSeconds(
+          feedback.estimated_time_remaining as Parameters<typeof durationToSeconds>[0]
+        ),
+        recoveries: feedback.number_of_recoveries as number | undefined,
+      }),
+      () => {}
+    );
+  };
+
+  const startWaypoints = () => {
+    if (waypoints.length === 0) return;
+    setGoal(null);
+    setWaypointStatus(waypoints.map((_, i) => (i === 0 ? "active" : "pending")));
+
+    startMission(
+      "waypoints",
+      FOLLOW_WAYPOINTS_SERVER,
+      FOLLOW_WAYPOINTS_ACTION,
+      followWaypointsGoal(waypoints),
+      (feedback) => {
+        const current = (feedback.current_waypoint as number | undefined) ?? 0;
+        setWaypointStatus((prev) =>
+          prev.map((_, i) => (i < current ? "reached" : i === current ? "active" : "pending"))
+        );
+        return { currentWaypoint: current };
+      },
+      (state, result) => {
+        const missed = (result?.missed_waypoints as number[] | undefined) ?? [];
+        setWaypointStatus((prev) =>
+          prev.map((status, i) => {
+            if (missed.includes(i)) return "missed";
+            if (state === "succeeded") return "reached";
+            if (status === "reached") return status;
+            return state === "cancelled" ? "cancelled" : "missed";
+          })
+        );
+      }
+    );
+  };
+
+  const cancel = useCallback(() => {
+    if (!goalRef.current) return;
+    goalRef.current.cancel();
+    setMission((prev) =>
+      prev && !isMissionFinished(prev.state)
+        ? { ...prev, state: "cancelled", message: "Cancelled by operator" }
+        : prev
+    );
+    setWaypointStatus((prev) =>
+      prev.map((status) => (status === "reached" || status === "missed" ? status : "cancelled"))
+    );
+  }, []);
+
+  // An E-stop also ends any navigation in progress
+  const eStopActive = eStop.engaged || eStop.requested;
+  useEffect(() => {
+    if (eStopActive) cancel();
+  }, [eStopActive, cancel]);
+
+  const addWaypoint = (pose: NavPose2D) => {
+    setWaypoints((prev) => [...prev, pose]);
+    setWaypointStatus([]);
+  };
+
+  const removeWaypoint = (index: number) => {
+    setWaypoints((prev) => prev.filter((_, i) => i !== index));
+    setWaypointStatus([]);
+  };
+
+  const moveWaypoint = (index: number, offset: -1 | 1) => {
+    setWaypoints((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setWaypointStatus([]);
+  };
+
+  const clearWaypoints = () => {
+    setWaypoints([]);
+    setWaypointStatus([]);
+  };
+
+  const missionActive = mission !== null && !isMissionFinished(mission.state);
+
+  return {
+    goal,
+    waypoints,
+    waypointStatus,
+    mission,
+    missionActive,
+    sendGoal,
+    startWaypoints,
+    cancel,
+    addWaypoint,
+    removeWaypoint,
+    moveWaypoint,
+    clearWaypoints,
+  };
+}
@@ -0,0 +1,113 @@
+import { useEffect, useRef, useState } from "react";
+import ROSLIB from "roslib";
+import { useTopicProfile } from "@/context/TopicProfileContext";
+import { loadSetting, saveSetting } from "@/utilities/settings";
+import {
+  ProximityConfig,
+  ProximityRequest,
+  ProximityResult,
+  ProximityState,
+  evaluateProximity,
+  validateProximityConfig,
+} from "@/utilities/proximity";
+
+// Lidar frames are processed at most this often
+const MIN_UPDATE_INTERVAL_MS = 100;
+// How often the zone is re-evaluated, so staleness is noticed without new data
+const EVALUATE_INTERVAL_MS = 200;
+
+// Watches the lidar for obstacles ahead. The latest state is kept in a ref so
+// the publish loop can read it every tick.
+export function useProximityGuard(ros: ROSLIB.Ros | null, connection: boolean) {
+  const { topic } = useTopicProfile();
+  const { name: lidarTopic, messageType: lidarType } = topic("lidarPoints");
+  const [config, setConfigState] = useState<ProximityConfig>(() =>
+    validateProximityConfig(loadSetting<unknown>("proximityGuard", null))
+  );
+  const [state, setState] = useState<ProximityState>(() =>
+    evaluateProximity(config, null, Infinity)
+  );
+  const stateRef = useRef<ProximityState>(state);
+  const latestRef = useRef<ProximityResult>({ forwardDistance: null, receivedAt: 0 });
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  const setConfig = (newConfig: ProximityConfig) => {
+    saveSetting("proximityGuard", newConfig);
+    setConfigState(newConfig);
+  };
+
+  // Worker and lidar subscription
+  useEffect(() => {
+    if (!ros || !connection) return;
+
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL("../utilities/proximityWorker.ts", import.meta.url));
+    } catch (err) {
+      console.error("Failed to create proximity worker:", err);
+      return;
+    }
+
+    let busy = false;
+    let lastUpdate = 0;
+
+    worker.onmessage = (e: MessageEvent<ProximityResult>) => {
+      busy = false;
+      latestRef.current = e.data;
+    };
+    worker.onerror = (err) => {
+      busy = false;
+      console.error("Proximity worker error:", err);
+    };
+
+    const listener = new ROSLIB.Topic({
+      ros,
+      name: lidarTopic,
+      messageType: lidarType,
+    });
+
+    listener.subscribe((message) => {
+      const now = Date.now();
+      if (busy || now - lastUpdate < MIN_UPDATE_INTERVAL_MS) return;
+      lastUpdate = now;
+      busy = true;
+
+      const request: ProximityRequest = {
+        message: message as ProximityRequest["message"],
+        config: configRef.current,
+        receivedAt: now,
+      };
+      worker.postMessage(request);
+    });
+
+    return () => {
+      listener.unsubscribe();
+      worker.terminate();
+    };
+  }, [ros, connection, lidarTopic, lidarType]);
+
+  // Re-evaluate on a timer so the zone turns stale when the lidar goes quiet
+  useEffect(() => {
+    const update = () => {
+      const latest = latestRef.current;
+      const next = evaluateProximity(
+        config,
+        latest.forwardDistance,
+        Date.now() - latest.receivedAt
+      );
+      stateRef.current = next;
+      setState((prev) =>
+        prev.zone === next.zone && prev.distance === next.distance && prev.scale === next.scale
+          ? prev
+          : next
+      );
+    };
+
+    update();
+    const interval = setInterval(update, EVALUATE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [config]);
+
+  return { state, stateRef, config, setConfig };
+}
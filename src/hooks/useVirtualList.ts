@@ -0,0 +1,73 @@
+import { RefObject, useCallback, useEffect, useMemo, useState } from "react";
+
+const OVERSCAN_PX = 300; // Rendered beyond the visible area, so fast scrolling doesn't show gaps
+
+// Renders only the rows of a scrolling list that are in view. Row heights are
+// fixed per row and passed in, so offsets are known without measuring.
+export function useVirtualList(containerRef: RefObject<HTMLElement | null>, heights: number[]) {
+  const [scrollTop, setScrollTop] = useState<number>(0);
+  const [viewport, setViewport] = useState<number>(0);
+
+  // offsets[i] is the top of row i; the last entry is the total height
+  const offsets = useMemo(() => {
+    const result = [0];
+    heights.forEach((height, i) => result.push(result[i] + height));
+    return result;
+  }, [heights]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const onScroll = () => setScrollTop(container.scrollTop);
+    const observer = new ResizeObserver(() => setViewport(container.clientHeight));
+    container.addEventListener("scroll", onScroll, { passive: true });
+    observer.observe(container);
+    setViewport(container.clientHeight);
+    return () => {
+      container.removeEventListener("scroll", onScroll);
+      observer.disconnect();
+    };
+  }, [containerRef]);
+
+  // First row whose bottom is below y
+  const rowAt = useCallback(
+    (y: number) => {
+      let low = 0;
+      let high = heights.length;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if (offsets[mid + 1] <= y) low = mid + 1;
+        else high = mid;
+      }
+      return low;
+    },
+    [offsets, heights.length]
+  );
+
+  const start = rowAt(Math.max(0, scrollTop - OVERSCAN_PX));
+  const end = Math.min(heights.length, rowAt(scrollTop + viewport + OVERSCAN_PX) + 1);
+
+  // Scrolls just enough to show row index
+  const scrollToIndex = useCallback(
+    (index: number) => {
+      const container = containerRef.current;
+      if (!container || index < 0 || index >= heights.length) return;
+      const top = offsets[index];
+      const bottom = offsets[index + 1];
+      if (top < container.scrollTop) container.scrollTo({ top, behavior: "smooth" });
+      else if (bottom > container.scrollTop + container.clientHeight) {
+        container.scrollTo({ top: bottom - container.clientHeight, behavior: "smooth" });
+      }
+    },
+    [containerRef, offsets, heights.length]
+  );
+
+  return {
+    start,
+    end,
+    offsetOf: (index: number) => offsets[index],
+    totalHeight: offsets[offsets.length - 1],
+    scrollToIndex,
+  };
+}
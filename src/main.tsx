@@ -3,19 +3,26 @@ import ReactDOM from "react-dom/client";
 import App from "./App.tsx";
 import Header from "components/Header.tsx";
 import { DataProvider } from "./context/DataProvider.tsx";
+import { RosProvider } from "./context/RosProvider.tsx";
+import { TopicProfileProvider } from "./context/TopicProfileProvider.tsx";
+import { EStopProvider } from "./context/EStopProvider.tsx";
+import { SessionProvider } from "./context/SessionProvider.tsx";
 import "./index.css";
 
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
-    <DataProvider>
-      <Header />
-      <App />
-    </DataProvider>
+    <RosProvider>
+      <TopicProfileProvider>
+        <EStopProvider>
+          <SessionProvider>
+            <DataProvider>
+              <Header />
+              <App />
+            </DataProvider>
+          </SessionProvider>
+        </EStopProvider>
+      </TopicProfileProvider>
+    </RosProvider>
   </React.StrictMode>
 );
-
-// Use contextBridge
-window.ipcRenderer.on("main-process-message", (_event, message) => {
-  console.log(message);
-});
@@ -0,0 +1,5 @@
+// Quote a CSV field if it contains a separator, quote or newline
+export const csvField = (value: string): string =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const csvRow = (values: (string | number)[]): string => values.map((v) => csvField(String(v))).join(",");
@@ -0,0 +1,153 @@
+// Defect tables and evidence files. The single-defect CSV download and the
+// bulk export through the Electron main process share the columns and file
+// names here, so files from either can be matched up.
+
+import { csvRow } from "./csv";
+import { Defect, InspectionSession, PathSample, SegmentMetadata } from "./inspection";
+import { DefectImageKind, validateDefect, validatePath, validateStoredSession } from "./inspectionStore";
+import { MAP_VIEWS } from "./mapSnapshot";
+import { yawFromQuaternion } from "./pipePosition";
+
+// pacp writes the inspection and condition tables of a single session
+export type BulkExportFormat = "csv" | "json" | "pacp";
+
+export interface BulkExportRequest {
+  defects: Defect[];
+  sessions: InspectionSession[]; // Sessions of the defects, for the segment columns
+  path?: PathSample[]; // Track of the session, for the PACP inspection length
+  format: BulkExportFormat;
+  name: string; // Suggested file name without extension
+}
+
+export interface BulkExportProgress {
+  done: number; // Defects whose images are written
+  total: number;
+}
+
+export interface BulkExportResult {
+  success: boolean;
+  filePath?: string; // The data file, or the inspections table for PACP
+  imageDir?: string;
+  imageCount?: number;
+  error?: string;
+}
+
+export const DEFECT_CSV_HEADER = [
+  "Defect ID", "Timestamp", "Position X", "Position Y", "Position Z", "Heading (deg)", "Chainage (m)",
+  "Defect X", "Defect Y", "Defect Z",
+  "Clock", "Clock From", "Clock To", "Severity", "Type", "PACP Code", "Grade", "Continuous", "Remarks",
+  "Operator Coded", "Confidence (%)",
+  "Session", "Project", "Segment", "Upstream MH", "Downstream MH", "Material", "Diameter (mm)",
+  "Direction", "Operator", "Weather",
+];
+
+export function defectCsvValues(defect: Defect, metadata: SegmentMetadata | undefined): (string | number)[] {
+  return [
+    defect.id,
+    new Date(defect.timestamp).toISOString(),
+    defect.position.x.toFixed(4),
+    defect.position.y.toFixed(4),
+    defect.position.z.toFixed(4),
+    defect.pose ? ((yawFromQuaternion(defect.pose.orientation) * 180) / Math.PI).toFixed(1) : "",
+    defect.chainage !== null ? defect.chainage.toFixed(2) : "",
+    defect.worldPosition?.x.toFixed(4) ?? "",
+    defect.worldPosition?.y.toFixed(4) ?? "",
+    defect.worldPosition?.z.toFixed(4) ?? "",
+    defect.clock?.at ?? "",
+    defect.clock?.from ?? "",
+    defect.clock?.to ?? "",
+    defect.severity,
+    defect.type,
+    defect.coding.code,
+    defect.coding.grade ?? "",
+    defect.coding.continuous ?? "",
+    defect.coding.remarks,
+    defect.coding.operatorCoded ? "yes" : "no",
+    defect.confidence.toFixed(2),
+    defect.sessionId ?? "",
+    ...(metadata
+      ? [
+          metadata.project,
+          metadata.segmentId,
+          metadata.upstreamManhole,
+          metadata.downstreamManhole,
+          metadata.pipeMaterial,
+          metadata.diameterMm ?? "",
+          metadata.direction,
+          metadata.operator,
+          metadata.weather,
+        ]
+      : Array(9).fill("")),
+  ];
+}
+
+// One row per defect; extra adds columns after the standard ones
+export const defectCsv = (
+  defects: Defect[],
+  sessions: InspectionSession[],
+  extraHeader: string[] = [],
+  extra?: (defect: Defect) => string[]
+): string =>
+  [
+    csvRow([...DEFECT_CSV_HEADER, ...extraHeader]),
+    ...defects.map((defect) =>
+      csvRow([
+        ...defectCsvValues(defect, sessions.find((s) => s.id === defect.sessionId)?.metadata),
+        ...(extra?.(defect) ?? []),
+      ])
+    ),
+  ].join("\n");
+
+// Files exported for a defect are prefixed with its session so segments don't mix
+export const defectFileBase = (defect: Defect): string =>
+  `${defect.sessionId ? `${defect.sessionId}_` : ""}defect_${defect.id}`;
+
+// Every image a defect may have in the store
+export const defectImageKinds = (defect: Defect): DefectImageKind[] => [
+  "frame",
+  "source",
+  "overlay",
+  ...MAP_VIEWS.map((view): DefectImageKind => `map-${view}`),
+  ...defect.clip.map((_, i): DefectImageKind => `clip-${i}`),
+];
+
+// Exported image file name without extension, e.g. "S1_defect_DEF-3-1760880000000_slam_map_top"
+export function defectImageName(defect: Defect, kind: DefectImageKind): string {
+  if (kind === "frame") return `${defectFileBase(defect)}_camera`;
+  if (kind.startsWith("map-")) return `${defectFileBase(defect)}_slam_map_${kind.slice("map-".length)}`;
+  return `${defectFileBase(defect)}_${kind}`;
+}
+
+export function validateBulkExportRequest(raw: unknown): BulkExportRequest | string {
+  if (typeof raw !== "object" || raw === null) return "not an export request";
+  const request = raw as Record<string, unknown>;
+  if (request.format !== "csv" && request.format !== "json" && request.format !== "pacp") return "unknown format";
+  if (!Array.isArray(request.defects) || !Array.isArray(request.sessions)) return "missing defects or sessions";
+
+  const defects: Defect[] = [];
+  for (const item of request.defects) {
+    const defect = validateDefect(item);
+    if (typeof defect === "string") return `defect: ${defect}`;
+    defects.push(defect);
+  }
+  const sessions: InspectionSession[] = [];
+  for (const item of request.sessions) {
+    const stored = validateStoredSession({ session: item, path: [] });
+    if (typeof stored === "string") return `session: ${stored}`;
+    sessions.push(stored.session);
+  }
+  const path = validatePath(request.path);
+
+  if (request.format === "pacp") {
+    if (sessions.length !== 1) return "PACP export needs exactly one session";
+    if (defects.some((d) => d.sessionId !== sessions[0].id)) return "PACP export has defects of another session";
+  }
+
+  return {
+    defects,
+    sessions,
+    path,
+    format: request.format,
+    name: typeof request.name === "string" && request.name ? request.name : "defects",
+  };
+}
@@ -0,0 +1,129 @@
+// Filtering, sorting and grouping of the defect queue
+
+import { Defect, InspectionSession } from "./inspection";
+import { severityRank } from "./inspectionReport";
+
+export const NO_SESSION = "none"; // Session filter value for defects recorded outside an inspection
+
+export interface DefectFilter {
+  severities: string[]; // Lower case; empty matches all
+  types: string[];
+  sessions: string[]; // Session ids or NO_SESSION
+  minConfidence: number; // %
+  maxConfidence: number;
+  from: number | null; // Detection time window, ms since epoch
+  to: number | null;
+  search: string; // Defect id or remarks
+}
+
+export const EMPTY_FILTER: DefectFilter = {
+  severities: [],
+  types: [],
+  sessions: [],
+  minConfidence: 0,
+  maxConfidence: 100,
+  from: null,
+  to: null,
+  search: "",
+};
+
+export type DefectSortKey = "time" | "confidence" | "severity" | "chainage";
+
+export interface DefectSort {
+  key: DefectSortKey;
+  descending: boolean;
+}
+
+export const SORT_LABELS: Record<DefectSortKey, string> = {
+  time: "Time",
+  confidence: "Confidence",
+  severity: "Severity",
+  chainage: "Chainage",
+};
+
+// Sort and grouping are remembered between runs; the filter is not
+export interface DefectQueueView {
+  sort: DefectSort;
+  groupBySegment: boolean;
+}
+
+export const DEFAULT_QUEUE_VIEW: DefectQueueView = {
+  sort: { key: "time", descending: false },
+  groupBySegment: false,
+};
+
+export function validateQueueView(raw: unknown): DefectQueueView {
+  const view = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : {};
+  const sort = typeof view.sort === "object" && view.sort !== null ? (view.sort as Record<string, unknown>) : {};
+  return {
+    sort: {
+      key: typeof sort.key === "string" && sort.key in SORT_LABELS ? (sort.key as DefectSortKey) : DEFAULT_QUEUE_VIEW.sort.key,
+      descending: typeof sort.descending === "boolean" ? sort.descending : DEFAULT_QUEUE_VIEW.sort.descending,
+    },
+    groupBySegment: typeof view.groupBySegment === "boolean" ? view.groupBySegment : DEFAULT_QUEUE_VIEW.groupBySegment,
+  };
+}
+
+export const isFilterActive = (filter: DefectFilter): boolean =>
+  filter.severities.length > 0 ||
+  filter.types.length > 0 ||
+  filter.sessions.length > 0 ||
+  filter.minConfidence > EMPTY_FILTER.minConfidence ||
+  filter.maxConfidence < EMPTY_FILTER.maxConfidence ||
+  filter.from !== null ||
+  filter.to !== null ||
+  filter.search.trim() !== "";
+
+export function filterDefects(defects: Defect[], filter: DefectFilter): Defect[] {
+  const search = filter.search.trim().toLowerCase();
+  return defects.filter(
+    (d) =>
+      (filter.severities.length === 0 || filter.severities.includes(d.severity.toLowerCase())) &&
+      (filter.types.length === 0 || filter.types.includes(d.type)) &&
+      (filter.sessions.length === 0 || filter.sessions.includes(d.sessionId ?? NO_SESSION)) &&
+      d.confidence >= filter.minConfidence &&
+      d.confidence <= filter.maxConfidence &&
+      (filter.from === null || d.timestamp >= filter.from) &&
+      (filter.to === null || d.timestamp <= filter.to) &&
+      (search === "" || d.id.toLowerCase().includes(search) || d.coding.remarks.toLowerCase().includes(search))
+  );
+}
+
+// Ascending comparison for each key; defects without a chainage go last
+const COMPARATORS: Record<DefectSortKey, (a: Defect, b: Defect) => number> = {
+  time: (a, b) => a.timestamp - b.timestamp,
+  confidence: (a, b) => a.confidence - b.confidence,
+  // Least severe first, so descending puts critical on top
+  severity: (a, b) => severityRank(b.severity) - severityRank(a.severity),
+  chainage: (a, b) => (a.chainage ?? Infinity) - (b.chainage ?? Infinity),
+};
+
+export function sortDefects(defects: Defect[], sort: DefectSort): Defect[] {
+  const compare = COMPARATORS[sort.key];
+  return [...defects].sort((a, b) => {
+    if (sort.key === "chainage" && (a.chainage === null) !== (b.chainage === null)) {
+      return a.chainage === null ? 1 : -1;
+    }
+    return (sort.descending ? -compare(a, b) : compare(a, b)) || a.timestamp - b.timestamp;
+  });
+}
+
+export interface DefectGroup {
+  key: string; // Segment id, or NO_SESSION
+  label: string;
+  defects: Defect[];
+}
+
+// Groups by pipe segment in order of first appearance, keeping the sort
+// order within each group
+export function groupBySegment(defects: Defect[], sessions: InspectionSession[]): DefectGroup[] {
+  const groups = new Map<string, DefectGroup>();
+  defects.forEach((defect) => {
+    const segment = sessions.find((s) => s.id === defect.sessionId)?.metadata.segmentId;
+    const key = segment ?? NO_SESSION;
+    const group = groups.get(key) ?? { key, label: segment ? `Segment ${segment}` : "No inspection", defects: [] };
+    group.defects.push(defect);
+    groups.set(key, group);
+  });
+  return [...groups.values()];
+}
@@ -0,0 +1,88 @@
+// Locating detections in 3D: the detector box centre is cast as a ray from the
+// camera and matched against the latest lidar cloud
+
+import { DETECTOR_INPUT_SIZE } from "./pipePosition";
+
+export interface CameraIntrinsics {
+  fx: number;
+  fy: number;
+  cx: number;
+  cy: number;
+  width: number;
+  height: number;
+  frameId: string;
+}
+
+// Sent to and from localizationWorker
+export interface LocalizationRequest {
+  id: number;
+  message: {
+    height: number;
+    width: number;
+    point_step: number;
+    is_bigendian: boolean;
+    fields?: { name: string; offset: number }[];
+    data: string | ArrayLike<number>;
+  };
+  cameraFromCloud: number[]; // Column-major 4x4, cloud frame into the camera optical frame
+  intrinsics: CameraIntrinsics;
+  pixel: { u: number; v: number };
+  windowPx: number; // Half-size of the search window around the pixel
+}
+
+export interface LocalizationResult {
+  id: number;
+  point: [number, number, number] | null; // Camera optical frame, m
+  support: number; // Number of cloud points behind the estimate
+}
+
+// Points closer than this to the lens are the robot itself
+export const MIN_DEPTH = 0.15; // m
+
+// Fewer points than this in the window are treated as a miss
+export const MIN_SUPPORT = 3;
+
+// Smallest search window, for tiny boxes or sparse clouds
+const MIN_WINDOW_PX = 6;
+
+// The window covers this fraction of the box around its centre
+const WINDOW_BOX_FRACTION = 0.2;
+
+interface CameraInfoMessage {
+  header?: { frame_id?: string };
+  width?: number;
+  height?: number;
+  k?: number[]; // ROS 2
+  K?: number[]; // ROS 1
+}
+
+export function cameraIntrinsicsFromInfo(message: CameraInfoMessage): CameraIntrinsics | null {
+  const k = message.k ?? message.K;
+  if (!k || k.length < 9 || !message.width || !message.height) return null;
+  if (!(k[0] > 0) || !(k[4] > 0)) return null; // Uncalibrated cameras publish zeros
+
+  return {
+    fx: k[0],
+    fy: k[4],
+    cx: k[2],
+    cy: k[5],
+    width: message.width,
+    height: message.height,
+    frameId: message.header?.frame_id ?? "",
+  };
+}
+
+// The detector sees the full camera image squashed to a square, so box pixels
+// scale straight back to camera pixels. Lens distortion is ignored.
+export function boxToCameraPixels(box: number[], intrinsics: CameraIntrinsics, size = DETECTOR_INPUT_SIZE) {
+  const [x1, y1, x2, y2] = box;
+  const scaleX = intrinsics.width / size;
+  const scaleY = intrinsics.height / size;
+  const halfWidth = ((x2 - x1) / 2) * scaleX;
+  const halfHeight = ((y2 - y1) / 2) * scaleY;
+
+  return {
+    pixel: { u: ((x1 + x2) / 2) * scaleX, v: ((y1 + y2) / 2) * scaleY },
+    windowPx: Math.max(MIN_WINDOW_PX, Math.min(halfWidth, halfHeight) * 2 * WINDOW_BOX_FRACTION),
+  };
+}
@@ -0,0 +1,14 @@
+// Access to the Electron main process from the renderer. The bridge only
+// exists inside the desktop app; in a plain browser (e.g. `vite preview`)
+// features that need it report that clearly instead of failing on undefined.
+
+import { ElectronAPI } from "./ipc";
+
+export const isDesktop = (): boolean => window.electronAPI !== undefined;
+
+export function desktopAPI(feature: string): ElectronAPI {
+  if (!window.electronAPI) {
+    throw new Error(`${feature} needs the RoboNav desktop app, the Electron bridge is not available in this browser`);
+  }
+  return window.electronAPI;
+}
@@ -0,0 +1,72 @@
+// Evidence kept with each detection: the exact camera frame the detector ran
+// on, the box drawn over it, and a few frames either side for review
+
+import { DETECTOR_INPUT_SIZE } from "./pipePosition";
+
+// The buffer keeps at most one frame per interval
+export const EVIDENCE_FRAME_INTERVAL_MS = 250;
+export const EVIDENCE_FRAMES_BEFORE = 4;
+export const EVIDENCE_FRAMES_AFTER = 4;
+// Stop waiting for later frames if the camera goes quiet
+export const EVIDENCE_AFTER_TIMEOUT_MS = 3000;
+
+export interface EvidenceFrame {
+  image: string; // Data URL as received from the camera
+  timestamp: number;
+}
+
+export interface DetectionEvidence {
+  source: EvidenceFrame; // The frame the detector ran on
+  before: EvidenceFrame[];
+  after: Promise<EvidenceFrame[]>; // Resolves once enough later frames arrived or the wait timed out
+}
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load camera image"));
+    img.src = src;
+  });
+
+// Draws the detector box at the source resolution and returns the overlay on
+// its own (transparent PNG) and composited over the source (JPEG)
+export async function renderEvidence(
+  source: string,
+  box: number[],
+  label: string
+): Promise<{ overlay: string; frame: string }> {
+  const img = await loadImage(source);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Could not get canvas context");
+  }
+
+  // Boxes are in detector pixels, the detector sees the frame squashed to a square
+  const [x1, y1, x2, y2, confidence] = box;
+  const scaleX = img.width / DETECTOR_INPUT_SIZE;
+  const scaleY = img.height / DETECTOR_INPUT_SIZE;
+  const lineWidth = Math.max(2, Math.round(img.width / 200));
+  const fontSize = Math.max(14, Math.round(img.width / 40));
+
+  ctx.lineWidth = lineWidth;
+  ctx.strokeStyle = "rgba(255, 0, 0, 0.9)";
+  ctx.strokeRect(x1 * scaleX, y1 * scaleY, (x2 - x1) * scaleX, (y2 - y1) * scaleY);
+  ctx.fillStyle = "rgba(255, 0, 0, 0.9)";
+  ctx.font = `bold ${fontSize}px Arial`;
+  ctx.fillText(
+    confidence !== undefined ? `${label}: ${(confidence * 100).toFixed(1)}%` : label,
+    x1 * scaleX + lineWidth * 2,
+    y1 * scaleY + fontSize + lineWidth
+  );
+  const overlay = canvas.toDataURL("image/png");
+
+  ctx.globalCompositeOperation = "destination-over";
+  ctx.drawImage(img, 0, 0);
+  const frame = canvas.toDataURL("image/jpeg", 0.9);
+
+  return { overlay, frame };
+}
@@ -0,0 +1,40 @@
+// Shared between the renderer and the Electron main process, which listens
+// for the E-stop hotkey system-wide
+
+// Everything main needs to stop the robot by itself if the renderer hangs
+export interface EStopTarget {
+  url: string; // rosbridge websocket URL
+  mode: "topic" | "service";
+  eStopTopic: { name: string; messageType: string };
+  cmdVelTopic: { name: string; messageType: string };
+  serviceName: string;
+  serviceType: string;
+}
+
+// Ctrl+Shift+Space, chosen so it can't fire while typing in other applications
+export const GLOBAL_ESTOP_LABEL = "Ctrl+Shift+Space";
+export const GLOBAL_ESTOP_ACCELERATOR = "CommandOrControl+Shift+Space";
+
+const isTopic = (value: unknown): value is { name: string; messageType: string } =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as Record<string, unknown>).name === "string" &&
+  typeof (value as Record<string, unknown>).messageType === "string";
+
+export function validateEStopTarget(raw: unknown): EStopTarget | string {
+  if (typeof raw !== "object" || raw === null) return "not an E-stop target";
+  const target = raw as Record<string, unknown>;
+  if (typeof target.url !== "string") return "missing url";
+  if (target.mode !== "topic" && target.mode !== "service") return "unknown mode";
+  if (!isTopic(target.eStopTopic) || !isTopic(target.cmdVelTopic)) return "invalid topics";
+  if (typeof target.serviceName !== "string" || typeof target.serviceType !== "string") return "invalid service";
+
+  return {
+    url: target.url,
+    mode: target.mode,
+    eStopTopic: { name: target.eStopTopic.name, messageType: target.eStopTopic.messageType },
+    cmdVelTopic: { name: target.cmdVelTopic.name, messageType: target.cmdVelTopic.messageType },
+    serviceName: target.serviceName,
+    serviceType: target.serviceType,
+  };
+}
@@ -0,0 +1,141 @@
+// Inspection session model. A session covers one sewer segment between two
+// manholes; defects, images and the robot path are tagged with its id.
+
+import { PacpCoding } from "./pacp";
+import { ClockPosition, RobotPose } from "./pipePosition";
+
+export type SessionStatus = "active" | "paused" | "ended";
+
+export type SurveyDirection = "downstream" | "upstream";
+
+export interface SegmentMetadata {
+  project: string;
+  segmentId: string;
+  upstreamManhole: string;
+  downstreamManhole: string;
+  pipeMaterial: string;
+  diameterMm: number | null;
+  direction: SurveyDirection;
+  operator: string;
+  weather: string;
+}
+
+// Active periods of a session; an open period has end === null
+export interface SessionPeriod {
+  start: number;
+  end: number | null;
+}
+
+export interface InspectionSession {
+  id: string;
+  metadata: SegmentMetadata;
+  status: SessionStatus;
+  startedAt: number;
+  endedAt: number | null;
+  periods: SessionPeriod[];
+}
+
+export interface Position {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Defect {
+  id: string;
+  timestamp: number;
+  position: Position;
+  severity: string;
+  type: string;
+  confidence: number;
+  sessionId: string | null; // Inspection session active at detection, if any
+  box: number[] | null; // Detector box [x1, y1, x2, y2, confidence, class] in model pixels
+  pose: RobotPose | null; // Robot pose at detection, null if none was recent enough
+  chainage: number | null; // m travelled along the pipe from the start manhole
+  clock: ClockPosition | null; // Around the circumference, null when looking down the axis
+  worldPosition: Position | null; // Defect itself in the map frame, from the lidar; null until localized
+  clip: ClipFrame[]; // Camera frames around the detection, stored as images clip-0, clip-1, ...
+  coding: PacpCoding; // PACP observation; type and severity follow from it
+}
+
+export interface ClipFrame {
+  offsetMs: number; // Relative to the frame the detector ran on, negative before it
+}
+
+// Robot path sample recorded while a session is active (map frame, m)
+export interface PathSample {
+  x: number;
+  y: number;
+  z: number;
+  timestamp: number;
+}
+
+export const PIPE_MATERIALS = [
+  "Vitrified clay",
+  "Concrete",
+  "Reinforced concrete",
+  "PVC",
+  "HDPE",
+  "Ductile iron",
+  "Cast iron",
+  "Brick",
+  "Asbestos cement",
+  "Other",
+];
+
+export const WEATHER_CONDITIONS = ["Dry", "Light rain", "Heavy rain", "Snow", "Freezing"];
+
+export const EMPTY_SEGMENT: SegmentMetadata = {
+  project: "",
+  segmentId: "",
+  upstreamManhole: "",
+  downstreamManhole: "",
+  pipeMaterial: PIPE_MATERIALS[0],
+  diameterMm: null,
+  direction: "downstream",
+  operator: "",
+  weather: WEATHER_CONDITIONS[0],
+};
+
+// Path samples closer than this to the previous one are dropped
+export const PATH_SAMPLE_SPACING = 0.05; // m
+
+const MAX_SESSION_ID_LENGTH = 128; // Store record id limit, see RECORD_ID_PATTERN
+
+// The segment part is cut short so the id stays a valid record id
+export const createSessionId = (metadata: SegmentMetadata, now = Date.now()): string => {
+  const suffix = `-${now.toString(36)}`;
+  const segment = metadata.segmentId.trim().replace(/[^A-Za-z0-9_-]+/g, "_") || "segment";
+  return `${segment.slice(0, MAX_SESSION_ID_LENGTH - suffix.length)}${suffix}`;
+};
+
+// Returns a list of problems that prevent starting a session with this metadata
+export function validateSegment(metadata: SegmentMetadata): string[] {
+  const errors: string[] = [];
+  if (!metadata.project.trim()) errors.push("Project is required");
+  if (!metadata.segmentId.trim()) errors.push("Segment ID is required");
+  if (!metadata.upstreamManhole.trim()) errors.push("Upstream manhole is required");
+  if (!metadata.downstreamManhole.trim()) errors.push("Downstream manhole is required");
+  if (metadata.upstreamManhole.trim() && metadata.upstreamManhole.trim() === metadata.downstreamManhole.trim()) {
+    errors.push("Upstream and downstream manholes must differ");
+  }
+  if (metadata.diameterMm !== null && !(metadata.diameterMm > 0)) {
+    errors.push("Diameter must be positive");
+  }
+  if (!metadata.operator.trim()) errors.push("Operator is required");
+  return errors;
+}
+
+// Manhole the survey starts from, given the direction of travel
+export const startManhole = (metadata: SegmentMetadata): string =>
+  metadata.direction === "downstream" ? metadata.upstreamManhole : metadata.downstreamManhole;
+
+export const endManhole = (metadata: SegmentMetadata): string =>
+  metadata.direction === "downstream" ? metadata.downstreamManhole : metadata.upstreamManhole;
+
+// Time spent recording, excluding pauses
+export const activeDuration = (session: InspectionSession, now = Date.now()): number =>
+  session.periods.reduce((total, period) => total + ((period.end ?? now) - period.start), 0);
+
+export const sessionLabel = (session: InspectionSession): string =>
+  `${session.metadata.segmentId} (${session.metadata.upstreamManhole} → ${session.metadata.downstreamManhole})`;
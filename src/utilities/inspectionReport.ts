@@ -0,0 +1,71 @@
+// Session PDF report. The renderer sends the session, its path and defects; the
+// Electron main process lays out the PDF and reads defect images from the store.
+
+import { Defect, InspectionSession, PathSample } from "./inspection";
+import { validateDefect, validateStoredSession } from "./inspectionStore";
+
+export interface ReportSettings {
+  companyName: string;
+  headerText: string; // Printed at the top of every page
+  logoPath: string | null; // PNG or JPEG on disk, read by the main process
+}
+
+export const DEFAULT_REPORT_SETTINGS: ReportSettings = {
+  companyName: "",
+  headerText: "Sewer inspection report",
+  logoPath: null,
+};
+
+export interface ReportRequest {
+  session: InspectionSession;
+  path: PathSample[];
+  defects: Defect[];
+  settings: ReportSettings;
+}
+
+export interface ReportResult {
+  success: boolean;
+  filePath?: string;
+  error?: string;
+}
+
+// Summary order, worst first; unknown severities are listed last
+export const SEVERITY_ORDER = ["critical", "high", "medium", "low"];
+
+export const severityRank = (severity: string): number => {
+  const rank = SEVERITY_ORDER.indexOf(severity.toLowerCase());
+  return rank === -1 ? SEVERITY_ORDER.length : rank;
+};
+
+export function validateReportSettings(raw: unknown): ReportSettings {
+  const settings = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : {};
+  return {
+    companyName:
+      typeof settings.companyName === "string" ? settings.companyName : DEFAULT_REPORT_SETTINGS.companyName,
+    headerText: typeof settings.headerText === "string" ? settings.headerText : DEFAULT_REPORT_SETTINGS.headerText,
+    logoPath: typeof settings.logoPath === "string" && settings.logoPath ? settings.logoPath : null,
+  };
+}
+
+export function validateReportRequest(raw: unknown): ReportRequest | string {
+  if (typeof raw !== "object" || raw === null) return "not a report request";
+  const request = raw as Record<string, unknown>;
+
+  const stored = validateStoredSession({ session: request.session, path: request.path });
+  if (typeof stored === "string") return `session: ${stored}`;
+  if (!Array.isArray(request.defects)) return "missing defects";
+
+  const defects: Defect[] = [];
+  for (const item of request.defects) {
+    const defect = validateDefect(item);
+    if (typeof defect === "string") return `defect: ${defect}`;
+    defects.push(defect);
+  }
+
+  return {
+    session: stored.session,
+    path: stored.path,
+    defects,
+    settings: validateReportSettings(request.settings),
+  };
+}
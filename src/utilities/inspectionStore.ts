@@ -0,0 +1,241 @@
+// Persistent inspection store schema, shared by the Electron main process
+// (which reads and writes the files) and the renderer. Every session and defect
+// is its own JSON file, so a corrupt file only costs that one record.
+
+import {
+  ClipFrame,
+  Defect,
+  EMPTY_SEGMENT,
+  InspectionSession,
+  PathSample,
+  Position,
+  SegmentMetadata,
+  SessionPeriod,
+  SessionStatus,
+} from "./inspection";
+import { CONTINUOUS_PATTERN, DEFAULT_PACP_CODE, PacpCoding } from "./pacp";
+import { ClockPosition, RobotPose } from "./pipePosition";
+
+export interface StoredSession {
+  session: InspectionSession;
+  path: PathSample[];
+}
+
+export interface SessionLoadResult {
+  sessions: StoredSession[];
+  errors: string[];
+}
+
+export interface DefectLoadResult {
+  defects: Defect[];
+  errors: string[];
+}
+
+export interface StoreWriteResult {
+  success: boolean;
+  error?: string;
+}
+
+// Record ids become file names, so they are limited to a safe character set
+export const RECORD_ID_PATTERN = /^[A-Za-z0-9_.-]{1,128}$/;
+
+export const IMAGE_DATA_URL_PATTERN = /^data:image\/(png|jpeg);base64,/;
+
+// Images kept with a defect: the camera frame the detector ran on, the box
+// drawn over it and the two composited, the frames around it and the map
+// snapshots rendered when it was detected
+export type DefectImageKind =
+  | "frame"
+  | "source"
+  | "overlay"
+  | "map-top"
+  | "map-perspective"
+  | `clip-${number}`;
+
+const DEFECT_IMAGE_KIND_PATTERN = /^(frame|source|overlay|map-top|map-perspective|clip-\d{1,2})$/;
+
+export const isDefectImageKind = (value: unknown): value is DefectImageKind =>
+  typeof value === "string" && DEFECT_IMAGE_KIND_PATTERN.test(value);
+
+export type DefectImages = Partial<Record<DefectImageKind, string>>; // Data URLs
+
+const SESSION_STATUSES: SessionStatus[] = ["active", "paused", "ended"];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const asString = (value: unknown, fallback: string): string =>
+  typeof value === "string" ? value : fallback;
+
+const isHour = (value: unknown): value is number =>
+  isNumber(value) && Number.isInteger(value) && value >= 1 && value <= 12;
+
+function validatePose(raw: unknown): RobotPose | null {
+  if (!isRecord(raw) || !isRecord(raw.position) || !isRecord(raw.orientation)) return null;
+  const { position, orientation } = raw;
+  if (![position.x, position.y, position.z].every(isNumber)) return null;
+  if (![orientation.x, orientation.y, orientation.z, orientation.w].every(isNumber)) return null;
+  return {
+    position: { x: position.x as number, y: position.y as number, z: position.z as number },
+    orientation: {
+      x: orientation.x as number,
+      y: orientation.y as number,
+      z: orientation.z as number,
+      w: orientation.w as number,
+    },
+    frameId: asString(raw.frameId, ""),
+    receivedAt: isNumber(raw.receivedAt) ? raw.receivedAt : 0,
+  };
+}
+
+function validatePosition(raw: unknown): Position | null {
+  if (!isRecord(raw) || !isNumber(raw.x) || !isNumber(raw.y) || !isNumber(raw.z)) return null;
+  return { x: raw.x, y: raw.y, z: raw.z };
+}
+
+function validateClock(raw: unknown): ClockPosition | null {
+  if (!isRecord(raw) || !isHour(raw.at)) return null;
+  return {
+    at: raw.at,
+    from: isHour(raw.from) ? raw.from : raw.at,
+    to: isHour(raw.to) ? raw.to : raw.at,
+  };
+}
+
+// Records from before PACP coding become uncoded general observations
+function validateCoding(raw: unknown): PacpCoding {
+  const coding = isRecord(raw) ? raw : {};
+  const grade = coding.grade;
+  return {
+    code: typeof coding.code === "string" && /^[A-Z]{1,6}$/.test(coding.code) ? coding.code : DEFAULT_PACP_CODE,
+    grade: isNumber(grade) && Number.isInteger(grade) && grade >= 1 && grade <= 5 ? grade : null,
+    continuous:
+      typeof coding.continuous === "string" && CONTINUOUS_PATTERN.test(coding.continuous) ? coding.continuous : null,
+    remarks: asString(coding.remarks, ""),
+    operatorCoded: coding.operatorCoded === true,
+  };
+}
+
+// Images sent with a defect; every one must be a known kind and a PNG or JPEG data URL
+export function validateDefectImages(raw: unknown): DefectImages | string {
+  if (raw === undefined || raw === null) return {};
+  if (!isRecord(raw)) return "images must be an object";
+  const images: DefectImages = {};
+  for (const [kind, image] of Object.entries(raw)) {
+    if (image === undefined) continue;
+    if (!isDefectImageKind(kind)) return `unknown image kind: ${kind}`;
+    if (typeof image !== "string" || !IMAGE_DATA_URL_PATTERN.test(image)) {
+      return `image ${kind} is not a PNG or JPEG data URL`;
+    }
+    images[kind] = image;
+  }
+  return images;
+}
+
+// Fields added after the first release are optional so older records still load
+export function validateDefect(raw: unknown): Defect | string {
+  if (!isRecord(raw)) return "not an object";
+  if (typeof raw.id !== "string" || !RECORD_ID_PATTERN.test(raw.id)) return "missing or invalid id";
+  if (!isNumber(raw.timestamp)) return "missing timestamp";
+
+  const position = raw.position;
+  if (!isRecord(position) || !isNumber(position.x) || !isNumber(position.y) || !isNumber(position.z)) {
+    return "invalid position";
+  }
+  if (!isNumber(raw.confidence)) return "missing confidence";
+
+  const box =
+    Array.isArray(raw.box) && raw.box.length >= 4 && raw.box.every(isNumber) ? (raw.box as number[]) : null;
+
+  return {
+    id: raw.id,
+    timestamp: raw.timestamp,
+    position: { x: position.x, y: position.y, z: position.z },
+    severity: asString(raw.severity, "low"),
+    type: asString(raw.type, "Sewer Defect"),
+    confidence: raw.confidence,
+    sessionId: typeof raw.sessionId === "string" ? raw.sessionId : null,
+    box,
+    pose: validatePose(raw.pose),
+    chainage: isNumber(raw.chainage) ? raw.chainage : null,
+    clock: validateClock(raw.clock),
+    worldPosition: validatePosition(raw.worldPosition),
+    clip: Array.isArray(raw.clip)
+      ? raw.clip.filter((f): f is ClipFrame => isRecord(f) && isNumber(f.offsetMs))
+      : [],
+    coding: validateCoding(raw.coding),
+  };
+}
+
+function validateMetadata(raw: unknown): SegmentMetadata {
+  const metadata = isRecord(raw) ? raw : {};
+  return {
+    project: asString(metadata.project, EMPTY_SEGMENT.project),
+    segmentId: asString(metadata.segmentId, EMPTY_SEGMENT.segmentId),
+    upstreamManhole: asString(metadata.upstreamManhole, EMPTY_SEGMENT.upstreamManhole),
+    downstreamManhole: asString(metadata.downstreamManhole, EMPTY_SEGMENT.downstreamManhole),
+    pipeMaterial: asString(metadata.pipeMaterial, EMPTY_SEGMENT.pipeMaterial),
+    diameterMm: isNumber(metadata.diameterMm) ? metadata.diameterMm : null,
+    direction: metadata.direction === "upstream" ? "upstream" : "downstream",
+    operator: asString(metadata.operator, EMPTY_SEGMENT.operator),
+    weather: asString(metadata.weather, EMPTY_SEGMENT.weather),
+  };
+}
+
+// Individual bad samples are dropped rather than losing the whole track
+export const validatePath = (raw: unknown): PathSample[] =>
+  Array.isArray(raw)
+    ? raw.filter(
+        (s): s is PathSample =>
+          isRecord(s) && isNumber(s.x) && isNumber(s.y) && isNumber(s.z) && isNumber(s.timestamp)
+      )
+    : [];
+
+export function validateStoredSession(raw: unknown): StoredSession | string {
+  if (!isRecord(raw) || !isRecord(raw.session)) return "not a session record";
+  const session = raw.session;
+  if (typeof session.id !== "string" || !RECORD_ID_PATTERN.test(session.id)) return "missing or invalid id";
+  if (!isNumber(session.startedAt)) return "missing start time";
+
+  const periods: SessionPeriod[] = Array.isArray(session.periods)
+    ? session.periods.filter(
+        (p): p is SessionPeriod => isRecord(p) && isNumber(p.start) && (p.end === null || isNumber(p.end))
+      )
+    : [];
+  const status = SESSION_STATUSES.includes(session.status as SessionStatus)
+    ? (session.status as SessionStatus)
+    : "ended";
+
+  const path = validatePath(raw.path);
+
+  return {
+    session: {
+      id: session.id,
+      metadata: validateMetadata(session.metadata),
+      status,
+      startedAt: session.startedAt,
+      endedAt: isNumber(session.endedAt) ? session.endedAt : null,
+      periods,
+    },
+    path,
+  };
+}
+
+// A session that was still open when the app closed comes back paused, so
+// nothing is recorded against it until the operator resumes
+export function restoreSession(stored: StoredSession, now = Date.now()): StoredSession {
+  if (stored.session.status !== "active") return stored;
+  const lastSample = stored.path[stored.path.length - 1]?.timestamp;
+  const closedAt = lastSample ?? now;
+  return {
+    ...stored,
+    session: {
+      ...stored.session,
+      status: "paused",
+      periods: stored.session.periods.map((p) => (p.end === null ? { ...p, end: closedAt } : p)),
+    },
+  };
+}
@@ -0,0 +1,219 @@
+// The IPC contract between the renderer and the Electron main process. Every
+// channel is listed here once: preload builds window.electronAPI from these
+// types, and main checks each payload with the validators before a handler
+// sees it.
+
+import { BulkExportProgress, BulkExportRequest, BulkExportResult, validateBulkExportRequest } from "./defectExport";
+import { EStopTarget, validateEStopTarget } from "./globalEStop";
+import { Defect } from "./inspection";
+import { ReportRequest, ReportResult, validateReportRequest } from "./inspectionReport";
+import {
+  DefectImageKind,
+  DefectImages,
+  DefectLoadResult,
+  RECORD_ID_PATTERN,
+  SessionLoadResult,
+  StoreWriteResult,
+  StoredSession,
+  isDefectImageKind,
+  validateDefect,
+  validateDefectImages,
+  validateStoredSession,
+} from "./inspectionStore";
+import { TopicProfileConfig, TopicProfileLoadResult, validateTopicProfileConfig } from "./topicProfile";
+
+// Single-defect CSV with its images, for the legacy export
+export interface SaveFileRequest {
+  content: string;
+  filename: string;
+  images?: { camera?: string; map?: string }; // Data URLs
+}
+
+// Single-defect PDF, for the legacy export
+export interface DefectPdfRequest {
+  defect: Pick<Defect, "id" | "timestamp" | "position" | "severity" | "type" | "confidence">;
+  cameraImage: string;
+  slamMapImage: string;
+  filename: string;
+}
+
+export interface SaveFileResult {
+  success: boolean;
+  filePath?: string;
+  error?: string;
+}
+
+export interface TopicProfileSaveResult {
+  success: boolean;
+  filePath?: string;
+  errors: string[];
+}
+
+// Renderer to main, answered with a result
+export interface IpcInvokeChannels {
+  "save-file": { args: [request: SaveFileRequest]; result: SaveFileResult };
+  "save-as-pdf": { args: [request: DefectPdfRequest]; result: SaveFileResult };
+  "load-topic-profiles": { args: []; result: TopicProfileLoadResult };
+  "save-topic-profiles": { args: [config: TopicProfileConfig]; result: TopicProfileSaveResult };
+  "load-inspection-sessions": { args: []; result: SessionLoadResult };
+  "save-inspection-session": { args: [record: StoredSession]; result: StoreWriteResult };
+  "load-defects": { args: []; result: DefectLoadResult };
+  "save-defect": { args: [defect: Defect, images: DefectImages]; result: StoreWriteResult };
+  "load-defect-image": { args: [id: string, kind: DefectImageKind]; result: string | null };
+  "save-inspection-report": { args: [request: ReportRequest]; result: ReportResult };
+  "select-report-logo": { args: []; result: string | null };
+  "export-defects": { args: [request: BulkExportRequest]; result: BulkExportResult };
+}
+
+// Renderer to main, no answer
+export interface IpcSendChannels {
+  "e-stop-target": [target: EStopTarget];
+  "global-e-stop-ack": [];
+}
+
+// Main to renderer
+export interface IpcEventChannels {
+  "global-e-stop": [];
+  "defect-export-progress": [progress: BulkExportProgress];
+}
+
+export type InvokeChannel = keyof IpcInvokeChannels;
+export type InvokeArgs<C extends InvokeChannel> = IpcInvokeChannels[C]["args"];
+export type InvokeResult<C extends InvokeChannel> = IpcInvokeChannels[C]["result"];
+export type SendChannel = keyof IpcSendChannels;
+export type EventChannel = keyof IpcEventChannels;
+
+type Invoker<C extends InvokeChannel> = (...args: InvokeArgs<C>) => Promise<InvokeResult<C>>;
+type Subscriber<C extends EventChannel> = (callback: (...args: IpcEventChannels[C]) => void) => () => void;
+
+// window.electronAPI, present only when running inside the desktop app
+export interface ElectronAPI {
+  saveFile: Invoker<"save-file">;
+  saveAsPDF: Invoker<"save-as-pdf">;
+
+  loadTopicProfiles: Invoker<"load-topic-profiles">;
+  saveTopicProfiles: Invoker<"save-topic-profiles">;
+
+  // Inspection store, one JSON file per session and defect in the user data directory
+  loadInspectionSessions: Invoker<"load-inspection-sessions">;
+  saveInspectionSession: Invoker<"save-inspection-session">;
+  loadDefects: Invoker<"load-defects">;
+  // Images are PNG or JPEG data URLs, written alongside the record
+  saveDefect: Invoker<"save-defect">;
+  // Stored image of a defect as a data URL, null if there is none
+  loadDefectImage: Invoker<"load-defect-image">;
+
+  // Asks where to save, then renders the session PDF with images from the store
+  saveInspectionReport: Invoker<"save-inspection-report">;
+  // File picker for the report logo, null if cancelled
+  selectReportLogo: Invoker<"select-report-logo">;
+
+  // Asks where to save, then writes the defect table (or a session's PACP
+  // tables) and copies their images from the store into a folder beside it
+  exportDefects: Invoker<"export-defects">;
+  // Progress of a running export, returns an unsubscribe function
+  onDefectExportProgress: Subscriber<"defect-export-progress">;
+
+  // Connection details main uses to stop the robot itself if the renderer hangs
+  setEStopTarget: (...args: IpcSendChannels["e-stop-target"]) => void;
+  // Global E-stop hotkey forwarded from main, returns an unsubscribe function
+  onGlobalEStop: Subscriber<"global-e-stop">;
+  ackGlobalEStop: () => void;
+}
+
+// Payload checks run by main. Each returns the typed arguments or why they
+// were rejected.
+type Validator<A> = (args: unknown[]) => A | string;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const noArgs: Validator<[]> = () => [];
+
+// Wraps a single-record validator that returns the record or an error
+const single =
+  <T,>(validate: (raw: unknown) => T | string): Validator<[T]> =>
+  ([raw]) => {
+    const result = validate(raw);
+    return typeof result === "string" ? result : [result];
+  };
+
+function validateSaveFileRequest(raw: unknown): SaveFileRequest | string {
+  if (!isRecord(raw)) return "not a save request";
+  if (typeof raw.content !== "string" || typeof raw.filename !== "string") return "missing content or filename";
+  const images = raw.images;
+  if (images !== undefined && !isRecord(images)) return "images must be an object";
+  const image = (value: unknown) => (typeof value === "string" ? value : undefined);
+  return {
+    content: raw.content,
+    filename: raw.filename,
+    images: images ? { camera: image(images.camera), map: image(images.map) } : undefined,
+  };
+}
+
+function validateDefectPdfRequest(raw: unknown): DefectPdfRequest | string {
+  if (!isRecord(raw)) return "not a PDF request";
+  const { defect } = raw;
+  if (!isRecord(defect) || typeof defect.id !== "string" || !isNumber(defect.timestamp)) return "invalid defect";
+  const position = defect.position;
+  if (!isRecord(position) || !isNumber(position.x) || !isNumber(position.y) || !isNumber(position.z)) {
+    return "invalid defect position";
+  }
+  if (typeof defect.severity !== "string" || typeof defect.type !== "string" || !isNumber(defect.confidence)) {
+    return "invalid defect details";
+  }
+  if (typeof raw.cameraImage !== "string" || typeof raw.slamMapImage !== "string" || typeof raw.filename !== "string") {
+    return "missing images or filename";
+  }
+  return {
+    defect: {
+      id: defect.id,
+      timestamp: defect.timestamp,
+      position: { x: position.x, y: position.y, z: position.z },
+      severity: defect.severity,
+      type: defect.type,
+      confidence: defect.confidence,
+    },
+    cameraImage: raw.cameraImage,
+    slamMapImage: raw.slamMapImage,
+    filename: raw.filename,
+  };
+}
+
+// Profiles with any problem are refused rather than saved partly
+function validateTopicProfileSave(raw: unknown): TopicProfileConfig | string {
+  const result = validateTopicProfileConfig(raw);
+  return result.errors.length > 0 ? result.errors.join("; ") : result.config;
+}
+
+export const INVOKE_VALIDATORS: { [C in InvokeChannel]: Validator<InvokeArgs<C>> } = {
+  "save-file": single(validateSaveFileRequest),
+  "save-as-pdf": single(validateDefectPdfRequest),
+  "load-topic-profiles": noArgs,
+  "save-topic-profiles": single(validateTopicProfileSave),
+  "load-inspection-sessions": noArgs,
+  "save-inspection-session": single(validateStoredSession),
+  "load-defects": noArgs,
+  "save-defect": ([defect, images]) => {
+    const validDefect = validateDefect(defect);
+    if (typeof validDefect === "string") return validDefect;
+    const validImages = validateDefectImages(images);
+    if (typeof validImages === "string") return validImages;
+    return [validDefect, validImages];
+  },
+  "load-defect-image": ([id, kind]) => {
+    if (typeof id !== "string" || !RECORD_ID_PATTERN.test(id)) return `invalid record id: ${String(id)}`;
+    if (!isDefectImageKind(kind)) return `invalid image kind: ${String(kind)}`;
+    return [id, kind];
+  },
+  "save-inspection-report": single(validateReportRequest),
+  "select-report-logo": noArgs,
+  "export-defects": single(validateBulkExportRequest),
+};
+
+export const SEND_VALIDATORS: { [C in SendChannel]: Validator<IpcSendChannels[C]> } = {
+  "e-stop-target": single(validateEStopTarget),
+  "global-e-stop-ack": noArgs,
+};
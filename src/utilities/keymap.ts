@@ -0,0 +1,194 @@
+// Rebindable keyboard shortcuts for teleop
+
+export type DriveAction =
+  | "forwardLeft"
+  | "forward"
+  | "forwardRight"
+  | "left"
+  | "stop"
+  | "right"
+  | "backwardLeft"
+  | "backward"
+  | "backwardRight";
+
+export type SpeedAction =
+  | "overallUp"
+  | "linearUp"
+  | "angularUp"
+  | "overallDown"
+  | "linearDown"
+  | "angularDown";
+
+export type KeyAction = DriveAction | SpeedAction | "eStop";
+
+export type Keymap = Record<KeyAction, string>;
+
+// Grid order, left to right and top to bottom
+export const DRIVE_ACTIONS: DriveAction[] = [
+  "forwardLeft",
+  "forward",
+  "forwardRight",
+  "left",
+  "stop",
+  "right",
+  "backwardLeft",
+  "backward",
+  "backwardRight",
+];
+
+export const SPEED_ACTIONS: SpeedAction[] = [
+  "overallUp",
+  "linearUp",
+  "angularUp",
+  "overallDown",
+  "linearDown",
+  "angularDown",
+];
+
+export const KEY_ACTIONS: KeyAction[] = [...DRIVE_ACTIONS, ...SPEED_ACTIONS, "eStop"];
+
+export const KEY_ACTION_LABELS: Record<KeyAction, string> = {
+  forwardLeft: "Forward left",
+  forward: "Forward",
+  forwardRight: "Forward right",
+  left: "Turn left",
+  stop: "Stop",
+  right: "Turn right",
+  backwardLeft: "Backward left",
+  backward: "Backward",
+  backwardRight: "Backward right",
+  overallUp: "Overall speed up",
+  linearUp: "Linear speed up",
+  angularUp: "Angular speed up",
+  overallDown: "Overall speed down",
+  linearDown: "Linear speed down",
+  angularDown: "Angular speed down",
+  eStop: "Emergency stop",
+};
+
+export const DEFAULT_KEYMAP: Keymap = {
+  forwardLeft: "u",
+  forward: "i",
+  forwardRight: "o",
+  left: "j",
+  stop: "k",
+  right: "l",
+  backwardLeft: "m",
+  backward: ",",
+  backwardRight: ".",
+  overallUp: "q",
+  linearUp: "w",
+  angularUp: "e",
+  overallDown: "z",
+  linearDown: "x",
+  angularDown: "c",
+  eStop: " ",
+};
+
+export const WASD_KEYMAP: Keymap = {
+  ...DEFAULT_KEYMAP,
+  forwardLeft: "q",
+  forward: "w",
+  forwardRight: "e",
+  left: "a",
+  stop: "s",
+  right: "d",
+  backwardLeft: "z",
+  backward: "x",
+  backwardRight: "c",
+  overallUp: "r",
+  linearUp: "t",
+  angularUp: "y",
+  overallDown: "f",
+  linearDown: "g",
+  angularDown: "h",
+};
+
+export const DEADMAN_KEY = "Shift"; // Must be held for keyboard commands to be sent
+export const HELP_KEY = "?";
+
+// Keys with a fixed meaning that can't be bound to an action
+export const RESERVED_KEYS = [DEADMAN_KEY, HELP_KEY, "Escape", "Tab"];
+
+// Physical key -> character it produces without Shift. The dead-man key is
+// Shift, so punctuation arrives shifted and has to be mapped back. US values
+// are used until the OS layout is read.
+const unshiftedByCode: Record<string, string> = {
+  Comma: ",",
+  Period: ".",
+  Slash: "/",
+  Semicolon: ";",
+  Quote: "'",
+  BracketLeft: "[",
+  BracketRight: "]",
+  Minus: "-",
+  Equal: "=",
+};
+
+interface KeyboardLayoutMap {
+  forEach: (callback: (value: string, code: string) => void) => void;
+}
+
+// Read the active keyboard layout where the browser exposes it (Chromium does)
+export async function loadKeyboardLayout(): Promise<void> {
+  const keyboard = (navigator as Navigator & {
+    keyboard?: { getLayoutMap?: () => Promise<KeyboardLayoutMap> };
+  }).keyboard;
+  if (!keyboard?.getLayoutMap) return;
+
+  try {
+    const layout = await keyboard.getLayoutMap();
+    // Letter positions carry punctuation on some layouts (KeyM is "," on
+    // AZERTY), so every code that doesn't produce a letter is recorded
+    layout.forEach((value, code) => {
+      if (value.toLowerCase() === value.toUpperCase()) unshiftedByCode[code] = value;
+    });
+  } catch (error) {
+    console.warn("Could not read keyboard layout, assuming US punctuation", error);
+  }
+}
+
+// Read keys without the shift modifier applied so bindings work with the dead-man held
+export const normalizeKey = (event: KeyboardEvent): string => {
+  if (event.key.length !== 1) return event.key;
+
+  const lower = event.key.toLowerCase();
+  const isLetter = lower !== event.key.toUpperCase();
+  if (event.shiftKey && !isLetter) {
+    return unshiftedByCode[event.code] ?? event.key;
+  }
+  return lower;
+};
+
+export const keyLabel = (key: string): string => {
+  if (key === " ") return "Space";
+  return key.length === 1 ? key.toUpperCase() : key;
+};
+
+export const findAction = (keymap: Keymap, key: string): KeyAction | undefined =>
+  KEY_ACTIONS.find((action) => keymap[action] === key);
+
+// Keys bound to more than one action
+export function findConflicts(keymap: Keymap): Record<string, KeyAction[]> {
+  const byKey: Record<string, KeyAction[]> = {};
+  for (const action of KEY_ACTIONS) {
+    const key = keymap[action];
+    byKey[key] = [...(byKey[key] ?? []), action];
+  }
+
+  return Object.fromEntries(Object.entries(byKey).filter(([, actions]) => actions.length > 1));
+}
+
+// Fill gaps in a stored keymap from the defaults, e.g. after new actions are added
+export function mergeKeymap(stored: Partial<Keymap> | null): Keymap {
+  const keymap = { ...DEFAULT_KEYMAP };
+  if (!stored || typeof stored !== "object") return keymap;
+
+  for (const action of KEY_ACTIONS) {
+    const key = stored[action];
+    if (typeof key === "string" && key.length > 0 && !RESERVED_KEYS.includes(key)) {
+      keymap[action] = key;
+    }
+  }
+  return keymap;
+}
@@ -0,0 +1,78 @@
+// localizationWorker.ts
+// Casts a camera pixel into the lidar cloud, off the main thread
+
+import { LocalizationRequest, LocalizationResult, MIN_DEPTH, MIN_SUPPORT } from "./defectLocalization";
+
+self.onmessage = (e: MessageEvent<LocalizationRequest>) => {
+  self.postMessage(castIntoCloud(e.data));
+};
+
+// rosbridge sends uint8[] as base64 over JSON, or as a byte array with CBOR
+const toBytes = (data: string | ArrayLike<number>): Uint8Array => {
+  if (typeof data !== "string") return Uint8Array.from(data);
+
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+function castIntoCloud(request: LocalizationRequest): LocalizationResult {
+  const { id, message, cameraFromCloud: m, intrinsics, pixel, windowPx } = request;
+  const { height, width, point_step, fields, is_bigendian } = message;
+  const bytes = toBytes(message.data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = !is_bigendian;
+
+  const offsetOf = (name: string, fallback: number) =>
+    fields?.find((field) => field.name === name)?.offset ?? fallback;
+  const xOffset = offsetOf("x", 0);
+  const yOffset = offsetOf("y", 4);
+  const zOffset = offsetOf("z", 8);
+
+  // Points that project into the window around the pixel, in the camera frame
+  const hits: { x: number; y: number; z: number }[] = [];
+  const totalPoints = height * width;
+
+  for (let i = 0; i < totalPoints; i++) {
+    const base = i * point_step;
+    if (base + Math.max(xOffset, yOffset, zOffset) + 4 > bytes.byteLength) break;
+
+    const px = view.getFloat32(base + xOffset, littleEndian);
+    const py = view.getFloat32(base + yOffset, littleEndian);
+    const pz = view.getFloat32(base + zOffset, littleEndian);
+    if (!isFinite(px) || !isFinite(py) || !isFinite(pz)) continue;
+
+    // Optical frame: z forward, x right, y down
+    const z = m[2] * px + m[6] * py + m[10] * pz + m[14];
+    if (z < MIN_DEPTH) continue;
+    const x = m[0] * px + m[4] * py + m[8] * pz + m[12];
+    const y = m[1] * px + m[5] * py + m[9] * pz + m[13];
+
+    const u = (intrinsics.fx * x) / z + intrinsics.cx;
+    const v = (intrinsics.fy * y) / z + intrinsics.cy;
+    if (Math.abs(u - pixel.u) > windowPx || Math.abs(v - pixel.v) > windowPx) continue;
+
+    hits.push({ x, y, z });
+  }
+
+  if (hits.length < MIN_SUPPORT) {
+    return { id, point: null, support: hits.length };
+  }
+
+  // The window can catch the far wall through gaps, so take the near side of
+  // the depth distribution rather than the mean
+  hits.sort((a, b) => a.z - b.z);
+  const hit = hits[Math.floor(hits.length * 0.25)];
+
+  // Put the point on the exact ray through the pixel at that depth
+  const depth = hit.z;
+  const point: [number, number, number] = [
+    ((pixel.u - intrinsics.cx) / intrinsics.fx) * depth,
+    ((pixel.v - intrinsics.cy) / intrinsics.fy) * depth,
+    depth,
+  ];
+  return { id, point, support: hits.length };
+}
@@ -0,0 +1,27 @@
+// Offscreen SLAM map snapshots taken when a defect is detected
+
+import { Defect, Position } from "./inspection";
+
+export type MapView = "top" | "perspective";
+
+export const MAP_VIEWS: MapView[] = ["top", "perspective"];
+
+export const MAP_SNAPSHOT_WIDTH = 800;
+export const MAP_SNAPSHOT_HEIGHT = 600;
+
+export interface MapSnapshotTarget {
+  position: Position; // Map frame
+  severity: string;
+  label: string;
+}
+
+export type MapSnapshots = Record<MapView, string>; // PNG data URLs
+
+// Localized position if known, otherwise where the robot was at detection
+export const defectMapPosition = (defect: Defect): Position | null =>
+  defect.worldPosition ?? (defect.pose ? defect.position : null);
+
+// Implemented by the lidar visualizer while it is mounted
+export interface MapSnapshotRenderer {
+  capture: (target: MapSnapshotTarget) => MapSnapshots | null;
+}
@@ -0,0 +1,133 @@
+// Nav2 goal and waypoint helpers
+
+export interface NavPose2D {
+  x: number; // m in the map frame
+  y: number;
+  yaw: number; // rad, counter-clockwise from +x
+}
+
+export type MissionKind = "goal" | "waypoints";
+
+export type MissionState =
+  | "idle"
+  | "pending"
+  | "active"
+  | "succeeded"
+  | "aborted"
+  | "rejected"
+  | "cancelled";
+
+export type WaypointStatus = "pending" | "active" | "reached" | "missed" | "cancelled";
+
+export interface NavFeedback {
+  distanceRemaining?: number; // m, NavigateToPose only
+  etaSeconds?: number; // NavigateToPose only
+  recoveries?: number; // NavigateToPose only
+  currentWaypoint?: number; // FollowWaypoints only
+}
+
+export const MAP_FRAME = "map";
+
+// Action servers, resolved against the robot namespace like topics
+export const NAVIGATE_TO_POSE_SERVER = "navigate_to_pose";
+export const NAVIGATE_TO_POSE_ACTION = "nav2_msgs/action/NavigateToPose";
+export const FOLLOW_WAYPOINTS_SERVER = "follow_waypoints";
+export const FOLLOW_WAYPOINTS_ACTION = "nav2_msgs/action/FollowWaypoints";
+
+// "pkg/action/Type" on ROS 2, the actionlib "pkg/TypeAction" on ROS 1
+export const actionTypeForRos = (actionType: string, rosVersion: 1 | 2): string =>
+  rosVersion === 1 ? `${actionType.replace("/action/", "/")}Action` : actionType;
+
+export const yawToQuaternion = (yaw: number) => ({
+  x: 0,
+  y: 0,
+  z: Math.sin(yaw / 2),
+  w: Math.cos(yaw / 2),
+});
+
+export const toPoseStamped = (pose: NavPose2D) => ({
+  header: { frame_id: MAP_FRAME }, // Stamp left for rosbridge to fill in
+  pose: {
+    position: { x: pose.x, y: pose.y, z: 0 },
+    orientation: yawToQuaternion(pose.yaw),
+  },
+});
+
+// Goal messages are the same on both ROS versions, only the envelope differs
+export const navigateToPoseGoal = (pose: NavPose2D) => ({ pose: toPoseStamped(pose), behavior_tree: "" });
+
+export const followWaypointsGoal = (poses: NavPose2D[]) => ({ poses: poses.map(toPoseStamped) });
+
+// rosbridge operations for ROS 2 actions, which roslib's ActionClient doesn't speak
+export const sendActionGoalOp = (id: string, action: string, actionType: string, goal: unknown) => ({
+  op: "send_action_goal",
+  id,
+  action,
+  action_type: actionType,
+  args: goal,
+  feedback: true,
+});
+
+export const cancelActionGoalOp = (id: string, action: string) => ({
+  op: "cancel_action_goal",
+  id,
+  action,
+});
+
+// actionlib_msgs/GoalStatus codes
+export function missionStateFromStatus(status: number): MissionState {
+  switch (status) {
+    case 0: // PENDING
+      return "pending";
+    case 1: // ACTIVE
+    case 6: // PREEMPTING
+    case 7: // RECALLING
+      return "active";
+    case 3: // SUCCEEDED
+      return "succeeded";
+    case 4: // ABORTED
+    case 9: // LOST
+      return "aborted";
+    case 5: // REJECTED
+      return "rejected";
+    case 2: // PREEMPTED
+    case 8: // RECALLED
+      return "cancelled";
+    default:
+      return "pending";
+  }
+}
+
+// action_msgs/GoalStatus codes, reported with ROS 2 action results
+export function missionStateFromGoalStatus(status: number): MissionState {
+  switch (status) {
+    case 1: // ACCEPTED
+    case 2: // EXECUTING
+    case 3: // CANCELING
+      return "active";
+    case 4: // SUCCEEDED
+      return "succeeded";
+    case 5: // CANCELED
+      return "cancelled";
+    case 6: // ABORTED
+      return "aborted";
+    default: // UNKNOWN
+      return "pending";
+  }
+}
+
+export const isMissionFinished = (state: MissionState): boolean =>
+  state === "succeeded" || state === "aborted" || state === "rejected" || state === "cancelled";
+
+// Nav2 durations arrive as {sec, nanosec} (ROS 2) or {secs, nsecs} (ROS 1)
+export const durationToSeconds = (duration?: {
+  sec?: number;
+  nanosec?: number;
+  secs?: number;
+  nsecs?: number;
+}): number | undefined => {
+  if (!duration) return undefined;
+  const sec = duration.sec ?? duration.secs ?? 0;
+  const nanosec = duration.nanosec ?? duration.nsecs ?? 0;
+  return sec + nanosec / 1e9;
+};
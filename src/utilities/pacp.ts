@@ -0,0 +1,249 @@
+// NASSCO PACP observation coding: the code catalogue, the mapping from the
+// detector's classes to codes, grades and the PACP exchange tables
+
+import { csvRow } from "./csv";
+import { Defect, InspectionSession, PathSample } from "./inspection";
+import { pathLength } from "./pipePosition";
+
+export type PacpFamily = "structural" | "om" | "miscellaneous";
+
+export interface PacpCodeEntry {
+  code: string;
+  description: string;
+  family: PacpFamily;
+  grade: number | null; // Suggested grade, operators refine it from the extent; null if not graded
+  continuous: boolean; // Usually recorded with start/finish markers when it runs along the pipe
+}
+
+export const PACP_CODES: PacpCodeEntry[] = [
+  // Structural
+  { code: "CL", description: "Crack longitudinal", family: "structural", grade: 2, continuous: true },
+  { code: "CC", description: "Crack circumferential", family: "structural", grade: 1, continuous: false },
+  { code: "CM", description: "Crack multiple", family: "structural", grade: 3, continuous: true },
+  { code: "CS", description: "Crack spiral", family: "structural", grade: 2, continuous: true },
+  { code: "FL", description: "Fracture longitudinal", family: "structural", grade: 3, continuous: true },
+  { code: "FC", description: "Fracture circumferential", family: "structural", grade: 2, continuous: false },
+  { code: "FM", description: "Fracture multiple", family: "structural", grade: 4, continuous: true },
+  { code: "FS", description: "Fracture spiral", family: "structural", grade: 3, continuous: true },
+  { code: "B", description: "Broken", family: "structural", grade: 4, continuous: false },
+  { code: "H", description: "Hole", family: "structural", grade: 4, continuous: false },
+  { code: "D", description: "Deformed", family: "structural", grade: 4, continuous: true },
+  { code: "X", description: "Collapse", family: "structural", grade: 5, continuous: false },
+  { code: "JOM", description: "Joint offset medium", family: "structural", grade: 1, continuous: false },
+  { code: "JOL", description: "Joint offset large", family: "structural", grade: 2, continuous: false },
+  { code: "JSM", description: "Joint separated medium", family: "structural", grade: 1, continuous: false },
+  { code: "JSL", description: "Joint separated large", family: "structural", grade: 2, continuous: false },
+  { code: "SRI", description: "Surface damage, roughness increased", family: "structural", grade: 2, continuous: true },
+  { code: "SAV", description: "Surface damage, aggregate visible", family: "structural", grade: 3, continuous: true },
+  { code: "SRV", description: "Surface damage, reinforcement visible", family: "structural", grade: 4, continuous: true },
+  // Operation and maintenance
+  { code: "RFB", description: "Roots fine, barrel", family: "om", grade: 2, continuous: true },
+  { code: "RFJ", description: "Roots fine, joint", family: "om", grade: 1, continuous: false },
+  { code: "RTJ", description: "Roots tap, joint", family: "om", grade: 2, continuous: false },
+  { code: "RMB", description: "Roots medium, barrel", family: "om", grade: 3, continuous: true },
+  { code: "RBB", description: "Roots ball, barrel", family: "om", grade: 4, continuous: false },
+  { code: "DAE", description: "Deposits attached, encrustation", family: "om", grade: 2, continuous: true },
+  { code: "DAGS", description: "Deposits attached, grease", family: "om", grade: 2, continuous: true },
+  { code: "DSF", description: "Deposits settled, fine", family: "om", grade: 2, continuous: true },
+  { code: "DSGV", description: "Deposits settled, gravel", family: "om", grade: 3, continuous: true },
+  { code: "IS", description: "Infiltration stain", family: "om", grade: 1, continuous: false },
+  { code: "IW", description: "Infiltration weeper", family: "om", grade: 2, continuous: false },
+  { code: "ID", description: "Infiltration dripper", family: "om", grade: 3, continuous: false },
+  { code: "IR", description: "Infiltration runner", family: "om", grade: 4, continuous: false },
+  { code: "IG", description: "Infiltration gusher", family: "om", grade: 5, continuous: false },
+  { code: "OBZ", description: "Obstacle, other", family: "om", grade: 3, continuous: false },
+  // Miscellaneous
+  { code: "MWL", description: "Water level", family: "miscellaneous", grade: null, continuous: true },
+  { code: "MGO", description: "General observation", family: "miscellaneous", grade: null, continuous: false },
+  { code: "MSA", description: "Survey abandoned", family: "miscellaneous", grade: null, continuous: false },
+];
+
+// Code for unmapped classes and records from before coding existed
+export const DEFAULT_PACP_CODE = "MGO";
+
+// Detector class index to PACP code, in the class order the sewer model was
+// trained with. Update this alongside the model.
+export const MODEL_CLASS_CODES: Record<number, string> = {
+  0: "CL", // Crack
+  1: "FL", // Fracture
+  2: "JOM", // Joint offset
+  3: "RFJ", // Roots
+  4: "DAE", // Deposits
+  5: "IW", // Infiltration
+  6: "D", // Deformation
+  7: "H", // Hole
+};
+
+export const PACP_FAMILY_LABELS: Record<PacpFamily, string> = {
+  structural: "Structural",
+  om: "Operation & maintenance",
+  miscellaneous: "Miscellaneous",
+};
+
+export interface PacpCoding {
+  code: string;
+  grade: number | null; // 1 (minor) to 5 (immediate attention); null for ungraded codes
+  continuous: string | null; // "S01" starts continuous defect 1, "F01" finishes it
+  remarks: string;
+  operatorCoded: boolean; // Set or confirmed by an operator rather than taken from the model
+}
+
+export const CONTINUOUS_PATTERN = /^[SF]\d{2}$/;
+
+export const pacpEntry = (code: string): PacpCodeEntry | undefined => PACP_CODES.find((entry) => entry.code === code);
+
+export function codingFromClass(classId: number | undefined): PacpCoding {
+  const code = (classId !== undefined && MODEL_CLASS_CODES[classId]) || DEFAULT_PACP_CODE;
+  return {
+    code,
+    grade: pacpEntry(code)?.grade ?? null,
+    continuous: null,
+    remarks: "",
+    operatorCoded: false,
+  };
+}
+
+export const codeDescription = (code: string): string => pacpEntry(code)?.description ?? code;
+
+// Severity shown in the queue, following the PACP grade
+export function severityFromGrade(grade: number | null): string {
+  if (grade === null) return "low";
+  if (grade >= 5) return "critical";
+  if (grade >= 4) return "high";
+  if (grade >= 3) return "medium";
+  return "low";
+}
+
+// PACP quick rating: the highest grade and how many times it occurs, then the
+// next highest and its count, e.g. "5132". Counts above 9 use letters.
+export function quickRating(grades: number[]): string {
+  const counts = [5, 4, 3, 2, 1]
+    .map((grade) => ({ grade, count: grades.filter((g) => g === grade).length }))
+    .filter(({ count }) => count > 0)
+    .slice(0, 2);
+  const countChar = (count: number) => (count <= 9 ? String(count) : String.fromCharCode(55 + Math.min(count, 35)));
+  return counts.map(({ grade, count }) => `${grade}${countChar(count)}`).join("").padEnd(4, "0");
+}
+
+// Grades of the defects in one family, for its quick rating
+export const familyGrades = (defects: Defect[], family: PacpFamily): number[] =>
+  defects
+    .filter((d) => pacpEntry(d.coding.code)?.family === family && d.coding.grade !== null)
+    .map((d) => d.coding.grade as number);
+
+// Finish markers without a matching earlier start, and starts never finished
+export function continuousIssues(codings: { id: string; chainage: number | null; coding: PacpCoding }[]): string[] {
+  const issues: string[] = [];
+  const open = new Map<string, string>();
+  [...codings]
+    .sort((a, b) => (a.chainage ?? Infinity) - (b.chainage ?? Infinity))
+    .forEach(({ id, coding }) => {
+      const marker = coding.continuous;
+      if (!marker) return;
+      const number = marker.slice(1);
+      if (marker.startsWith("S")) {
+        if (open.has(number)) issues.push(`${id}: S${number} is already open at ${open.get(number)}`);
+        open.set(number, id);
+      } else if (!open.delete(number)) {
+        issues.push(`${id}: F${number} has no earlier S${number}`);
+      }
+    });
+  open.forEach((id, number) => issues.push(`${id}: S${number} is never finished`));
+  return issues;
+}
+
+// PACP material codes for the materials offered in the session dialog
+const MATERIAL_CODES: Record<string, string> = {
+  "Vitrified clay": "VCP",
+  Concrete: "CP",
+  "Reinforced concrete": "RCP",
+  PVC: "PVC",
+  HDPE: "PE",
+  "Ductile iron": "DIP",
+  "Cast iron": "CIP",
+  Brick: "BR",
+  "Asbestos cement": "AC",
+  Other: "XXX",
+};
+
+// PACP weather codes; freezing has no equivalent and is left blank
+const WEATHER_CODES: Record<string, string> = {
+  Dry: "1",
+  "Heavy rain": "2",
+  "Light rain": "3",
+  Snow: "4",
+};
+
+const INSPECTION_FIELDS = [
+  "InspectionID", "Surveyed_By", "Project", "Pipe_Segment_Reference", "Upstream_MH", "Downstream_MH",
+  "Direction", "Inspection_Date", "Inspection_Time", "Weather", "Material", "Height", "Width",
+  "Length_Surveyed", "Structural_Quick_Rating", "OM_Quick_Rating", "Additional_Info",
+];
+
+const CONDITION_FIELDS = [
+  "InspectionID", "Distance", "PACP_Code", "Continuous", "Clock_At_From", "Clock_To", "Grade",
+  "Remarks", "Image_Reference", "Defect_ID",
+];
+
+export interface PacpTables {
+  inspections: string;
+  conditions: string;
+}
+
+// Inspection and condition tables of one session in the PACP exchange layout,
+// as CSV. Lengths are in metres and sizes in millimetres. imageReference names
+// each defect's camera image as exported.
+export function pacpTables(
+  session: InspectionSession,
+  path: PathSample[],
+  defects: Defect[],
+  imageReference: (defect: Defect) => string
+): PacpTables {
+  const { metadata } = session;
+  const started = new Date(session.startedAt);
+  const pad = (n: number) => String(n).padStart(2, "0");
+
+  const inspection = [
+    session.id,
+    metadata.operator,
+    metadata.project,
+    metadata.segmentId,
+    metadata.upstreamManhole,
+    metadata.downstreamManhole,
+    metadata.direction === "upstream" ? "U" : "D",
+    `${started.getFullYear()}-${pad(started.getMonth() + 1)}-${pad(started.getDate())}`,
+    `${pad(started.getHours())}:${pad(started.getMinutes())}`,
+    WEATHER_CODES[metadata.weather] ?? "",
+    MATERIAL_CODES[metadata.pipeMaterial] ?? "XXX",
+    metadata.diameterMm ?? "",
+    metadata.diameterMm ?? "",
+    pathLength(path).toFixed(2),
+    quickRating(familyGrades(defects, "structural")),
+    quickRating(familyGrades(defects, "om")),
+    "Metric units",
+  ];
+
+  const conditions = [...defects]
+    .sort((a, b) => (a.chainage ?? Infinity) - (b.chainage ?? Infinity) || a.timestamp - b.timestamp)
+    .map((defect) => {
+      const { coding, clock } = defect;
+      const span = clock !== null && clock.from !== clock.to;
+      return csvRow([
+        session.id,
+        defect.chainage !== null ? defect.chainage.toFixed(2) : "",
+        coding.code,
+        coding.continuous ?? "",
+        clock ? (span ? clock.from : clock.at) : "",
+        span ? clock.to : "",
+        coding.grade ?? "",
+        coding.remarks,
+        imageReference(defect),
+        defect.id,
+      ]);
+    });
+
+  return {
+    inspections: [csvRow(INSPECTION_FIELDS), csvRow(inspection)].join("\n"),
+    conditions: [csvRow(CONDITION_FIELDS), ...conditions].join("\n"),
+  };
+}
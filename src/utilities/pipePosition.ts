@@ -0,0 +1,97 @@
+// Locating defects along and around the pipe: chainage from the recorded
+// robot path and clock position from the detector box
+
+// Side of the square image the detector runs on; boxes are in these pixels
+export const DETECTOR_INPUT_SIZE = 320;
+
+// Poses older than this are not trusted for stamping a defect
+export const POSE_STALE_MS = 2000;
+
+// Boxes whose centre is this close to the image centre (as a fraction of the
+// half-width) look straight down the pipe, so no clock position can be given
+const AXIAL_RADIUS = 0.1;
+
+export interface Quaternion {
+  x: number;
+  y: number;
+  z: number;
+  w: number;
+}
+
+export interface RobotPose {
+  position: { x: number; y: number; z: number };
+  orientation: Quaternion;
+  frameId: string;
+  receivedAt: number;
+}
+
+// Clock positions are hours 1-12 looking in the direction of survey, with 12
+// at the crown and 6 at the invert
+export interface ClockPosition {
+  at: number;
+  from: number;
+  to: number;
+}
+
+export const yawFromQuaternion = (q: Quaternion): number =>
+  Math.atan2(2 * (q.w * q.z + q.x * q.y), 1 - 2 * (q.y * q.y + q.z * q.z));
+
+export const distance3D = (a: { x: number; y: number; z: number }, b: { x: number; y: number; z: number }) =>
+  Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+
+export function pathLength(path: { x: number; y: number; z: number }[]): number {
+  let length = 0;
+  for (let i = 1; i < path.length; i++) {
+    length += distance3D(path[i - 1], path[i]);
+  }
+  return length;
+}
+
+// Angle of an image point around the image centre, clockwise from 12 o'clock
+const clockAngle = (x: number, y: number, size: number): number => {
+  const angle = Math.atan2(x - size / 2, size / 2 - y);
+  return angle < 0 ? angle + 2 * Math.PI : angle;
+};
+
+const angleToHour = (angle: number): number => {
+  const hour = Math.round(angle / (Math.PI / 6)) % 12;
+  return hour === 0 ? 12 : hour;
+};
+
+// Assumes a forward-looking camera roughly centred on the pipe axis
+export function clockPositionFromBox(box: number[], size = DETECTOR_INPUT_SIZE): ClockPosition | null {
+  const [x1, y1, x2, y2] = box;
+  const cx = (x1 + x2) / 2;
+  const cy = (y1 + y2) / 2;
+  if (Math.hypot(cx - size / 2, cy - size / 2) < AXIAL_RADIUS * (size / 2)) return null;
+
+  const centre = clockAngle(cx, cy, size);
+
+  // Extent from the corners, measured relative to the centre angle so the
+  // span works across 12 o'clock
+  const offsets = [
+    [x1, y1],
+    [x2, y1],
+    [x1, y2],
+    [x2, y2],
+  ].map(([x, y]) => {
+    let offset = clockAngle(x, y, size) - centre;
+    if (offset > Math.PI) offset -= 2 * Math.PI;
+    if (offset < -Math.PI) offset += 2 * Math.PI;
+    return offset;
+  });
+
+  return {
+    at: angleToHour(centre),
+    from: angleToHour(centre + Math.min(...offsets)),
+    to: angleToHour(centre + Math.max(...offsets)),
+  };
+}
+
+export const formatClock = (clock: ClockPosition | null | undefined): string => {
+  if (!clock) return "—";
+  return clock.from === clock.to ? `${clock.at} o'clock` : `${clock.at} o'clock (${clock.from}–${clock.to})`;
+};
+
+export const formatChainage = (chainage: number | null | undefined): string =>
+  chainage === null || chainage === undefined ? "—" : `${chainage.toFixed(2)} m`;
@@ -0,0 +1,104 @@
+// Lidar proximity guard: slows and then blocks forward motion near obstacles
+
+export interface ProximityConfig {
+  enabled: boolean;
+  slowDistance: number; // m from the bumper, forward speed is scaled down inside this
+  stopDistance: number; // m from the bumper, forward motion is blocked inside this
+  corridorHalfWidth: number; // m either side of the sensor's x axis
+  minHeight: number; // m relative to the sensor, ignores the floor
+  maxHeight: number; // m relative to the sensor, ignores overhangs above the robot
+  bumperOffset: number; // m from the sensor to the front bumper
+  decimation: number; // Use every nth point
+}
+
+export type ProximityZone = "disabled" | "clear" | "slow" | "stop" | "stale";
+
+export interface ProximityState {
+  zone: ProximityZone;
+  distance: number | null; // Nearest obstacle ahead, null when none in range
+  scale: number; // Multiplier for forward linear.x, 0..1
+}
+
+// Sent to and from proximityWorker
+export interface ProximityRequest {
+  message: {
+    height: number;
+    width: number;
+    point_step: number;
+    is_bigendian: boolean;
+    fields?: { name: string; offset: number }[];
+    data: string | ArrayLike<number>;
+  };
+  config: ProximityConfig;
+  receivedAt: number;
+}
+
+export interface ProximityResult {
+  forwardDistance: number | null;
+  receivedAt: number;
+}
+
+export const DEFAULT_PROXIMITY_CONFIG: ProximityConfig = {
+  enabled: true,
+  slowDistance: 1.5,
+  stopDistance: 0.4,
+  corridorHalfWidth: 0.45,
+  minHeight: -0.3,
+  maxHeight: 0.6,
+  bumperOffset: 0.3,
+  decimation: 2,
+};
+
+// Stored settings are checked field by field, falling back to the default for
+// anything that would stall the worker or make the zones meaningless
+export function validateProximityConfig(raw: unknown): ProximityConfig {
+  const stored = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : {};
+  const defaults = DEFAULT_PROXIMITY_CONFIG;
+  const finite = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+  const positive = (value: unknown, fallback: number) => (finite(value) && value > 0 ? value : fallback);
+
+  const config: ProximityConfig = {
+    enabled: typeof stored.enabled === "boolean" ? stored.enabled : defaults.enabled,
+    slowDistance: positive(stored.slowDistance, defaults.slowDistance),
+    stopDistance: positive(stored.stopDistance, defaults.stopDistance),
+    corridorHalfWidth: positive(stored.corridorHalfWidth, defaults.corridorHalfWidth),
+    minHeight: finite(stored.minHeight) ? stored.minHeight : defaults.minHeight,
+    maxHeight: finite(stored.maxHeight) ? stored.maxHeight : defaults.maxHeight,
+    bumperOffset: finite(stored.bumperOffset) && stored.bumperOffset >= 0 ? stored.bumperOffset : defaults.bumperOffset,
+    decimation: finite(stored.decimation) ? Math.max(1, Math.round(stored.decimation)) : defaults.decimation,
+  };
+  if (config.stopDistance >= config.slowDistance) {
+    config.slowDistance = defaults.slowDistance;
+    config.stopDistance = defaults.stopDistance;
+  }
+  if (config.minHeight >= config.maxHeight) {
+    config.minHeight = defaults.minHeight;
+    config.maxHeight = defaults.maxHeight;
+  }
+  return config;
+}
+
+// Lidar data older than this no longer says anything about what's ahead
+export const PROXIMITY_STALE_MS = 1000;
+
+// Speed falls off linearly from the slow boundary to zero at the stop boundary
+export function evaluateProximity(
+  config: ProximityConfig,
+  distance: number | null,
+  ageMs: number
+): ProximityState {
+  if (!config.enabled) return { zone: "disabled", distance, scale: 1 };
+
+  // Without fresh data the guard can't see, so don't let the robot drive blind
+  if (ageMs > PROXIMITY_STALE_MS) return { zone: "stale", distance: null, scale: 0 };
+
+  if (distance === null || distance >= config.slowDistance) {
+    return { zone: "clear", distance, scale: 1 };
+  }
+  if (distance <= config.stopDistance) {
+    return { zone: "stop", distance, scale: 0 };
+  }
+
+  const scale = (distance - config.stopDistance) / (config.slowDistance - config.stopDistance);
+  return { zone: "slow", distance, scale };
+}
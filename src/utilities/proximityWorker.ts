@@ -0,0 +1,67 @@
+// proximityWorker.ts
+// Finds the nearest lidar return in the corridor ahead of the robot, off the main thread
+
+import type { ProximityRequest, ProximityResult } from "./proximity";
+
+self.onmessage = (e: MessageEvent<ProximityRequest>) => {
+  const { message, config } = e.data;
+  const result: ProximityResult = {
+    forwardDistance: nearestForward(message, config),
+    receivedAt: e.data.receivedAt,
+  };
+  self.postMessage(result);
+};
+
+// rosbridge sends uint8[] as base64 over JSON, or as a byte array with CBOR
+const toBytes = (data: string | ArrayLike<number>): Uint8Array => {
+  if (typeof data !== "string") return Uint8Array.from(data);
+
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+function nearestForward(
+  message: ProximityRequest["message"],
+  config: ProximityRequest["config"]
+): number | null {
+  const { height, width, point_step, fields, is_bigendian } = message;
+  const bytes = toBytes(message.data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = !is_bigendian;
+
+  const offsetOf = (name: string, fallback: number) =>
+    fields?.find((field) => field.name === name)?.offset ?? fallback;
+  const xOffset = offsetOf("x", 0);
+  const yOffset = offsetOf("y", 4);
+  const zOffset = offsetOf("z", 8);
+
+  const totalPoints = height * width;
+  let nearest = Infinity;
+
+  // A step below one would never finish
+  const step = Math.max(1, Math.round(config.decimation) || 1);
+  for (let i = 0; i < totalPoints; i += step) {
+    const base = i * point_step;
+    if (base + Math.max(xOffset, yOffset, zOffset) + 4 > bytes.byteLength) break;
+
+    // Sensor frame: x forward, y left, z up
+    const x = view.getFloat32(base + xOffset, littleEndian);
+    const y = view.getFloat32(base + yOffset, littleEndian);
+    const z = view.getFloat32(base + zOffset, littleEndian);
+    if (!isFinite(x) || !isFinite(y) || !isFinite(z)) continue;
+
+    // Only returns in front of the bumper, inside the robot's swept width and height
+    const ahead = x - config.bumperOffset;
+    if (ahead < 0 || ahead > config.slowDistance * 2) continue;
+    if (Math.abs(y) > config.corridorHalfWidth) continue;
+    if (z < config.minHeight || z > config.maxHeight) continue;
+
+    if (ahead < nearest) nearest = ahead;
+  }
+
+  return nearest === Infinity ? null : nearest;
+}
@@ -0,0 +1,21 @@
+// Persisted user settings, stored in the renderer's localStorage
+const SETTINGS_PREFIX = "robonav.";
+
+export function loadSetting<T>(key: string, fallback: T): T {
+  try {
+    const raw = window.localStorage.getItem(SETTINGS_PREFIX + key);
+    if (raw === null) return fallback;
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.warn(`Could not read setting "${key}", using default`, error);
+    return fallback;
+  }
+}
+
+export function saveSetting<T>(key: string, value: T): void {
+  try {
+    window.localStorage.setItem(SETTINGS_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Could not save setting "${key}":`, error);
+  }
+}
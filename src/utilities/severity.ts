@@ -0,0 +1,16 @@
+// Severity colours for markers drawn outside the DOM, matching the queue badges
+
+const SEVERITY_HEX: Record<string, number> = {
+  critical: 0xdc2626,
+  high: 0xea580c,
+  medium: 0xeab308,
+  low: 0x16a34a,
+};
+
+const UNKNOWN_SEVERITY_HEX = 0x6b7280;
+
+export const severityColor = (severity: string): number =>
+  SEVERITY_HEX[severity.toLowerCase()] ?? UNKNOWN_SEVERITY_HEX;
+
+export const severityCss = (severity: string): string =>
+  `#${severityColor(severity).toString(16).padStart(6, "0")}`;
@@ -0,0 +1,86 @@
+// Minimal TF buffer built from /tf and /tf_static, enough to chain the latest
+// transforms between two frames. No time interpolation: lookups use whatever
+// was received last, which is fine for a slowly moving inspection robot.
+
+import * as THREE from "three";
+
+export interface TransformEntry {
+  parent: string;
+  matrix: THREE.Matrix4; // Maps points in the child frame into the parent frame
+  receivedAt: number;
+}
+
+// Keyed by child frame; TF is a tree so each child has exactly one parent
+export type TfBuffer = Map<string, TransformEntry>;
+
+interface TransformStampedMessage {
+  header?: { frame_id?: string };
+  child_frame_id?: string;
+  transform?: {
+    translation?: { x: number; y: number; z: number };
+    rotation?: { x: number; y: number; z: number; w: number };
+  };
+}
+
+export interface TfMessage {
+  transforms?: TransformStampedMessage[];
+}
+
+// Chains longer than this mean a loop in a corrupt tree
+const MAX_CHAIN_LENGTH = 64;
+
+export const normalizeFrame = (frame: string): string => frame.replace(/^\/+/, "");
+
+export function updateTfBuffer(buffer: TfBuffer, message: TfMessage, receivedAt = Date.now()): void {
+  for (const transform of message.transforms ?? []) {
+    const parent = normalizeFrame(transform.header?.frame_id ?? "");
+    const child = normalizeFrame(transform.child_frame_id ?? "");
+    const translation = transform.transform?.translation;
+    const rotation = transform.transform?.rotation;
+    if (!parent || !child || !translation || !rotation) continue;
+
+    const matrix = new THREE.Matrix4().compose(
+      new THREE.Vector3(translation.x, translation.y, translation.z),
+      new THREE.Quaternion(rotation.x, rotation.y, rotation.z, rotation.w),
+      new THREE.Vector3(1, 1, 1)
+    );
+    buffer.set(child, { parent, matrix, receivedAt });
+  }
+}
+
+// Frames from `frame` up to the root, with the transform into each ancestor
+function chainToRoot(buffer: TfBuffer, frame: string): Map<string, THREE.Matrix4> {
+  const chain = new Map<string, THREE.Matrix4>();
+  let current = frame;
+  let toCurrent = new THREE.Matrix4();
+  chain.set(current, toCurrent.clone());
+
+  for (let i = 0; i < MAX_CHAIN_LENGTH; i++) {
+    const entry = buffer.get(current);
+    if (!entry) break;
+    toCurrent = entry.matrix.clone().multiply(toCurrent);
+    current = entry.parent;
+    chain.set(current, toCurrent.clone());
+  }
+  return chain;
+}
+
+// Transform taking points in `source` into `target`, or null if the frames
+// aren't connected
+export function lookupTransform(buffer: TfBuffer, target: string, source: string): THREE.Matrix4 | null {
+  target = normalizeFrame(target);
+  source = normalizeFrame(source);
+  if (target === source) return new THREE.Matrix4();
+
+  const sourceChain = chainToRoot(buffer, source);
+  const targetChain = chainToRoot(buffer, target);
+
+  // Walk up from the target until reaching a frame the source also leads to
+  for (const [ancestor, targetToAncestor] of targetChain) {
+    const sourceToAncestor = sourceChain.get(ancestor);
+    if (sourceToAncestor) {
+      return targetToAncestor.clone().invert().multiply(sourceToAncestor);
+    }
+  }
+  return null;
+}
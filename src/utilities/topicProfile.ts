@@ -0,0 +1,208 @@
+// Topic profile schema, shared by the Electron main process (which loads and
+// validates the JSON file) and the renderer (which resolves topics from it)
+
+export type TopicKey =
+  | "camera"
+  | "cameraInfo"
+  | "cmdVel"
+  | "lidarPoints"
+  | "map"
+  | "path"
+  | "currentPose"
+  | "defects"
+  | "eStop"
+  | "eStopState"
+  | "tf"
+  | "tfStatic";
+
+export interface TopicConfig {
+  name: string; // Relative names are resolved against the active robot namespace
+  messageType: string; // Canonical "pkg/msg/Type" form
+}
+
+export interface TopicProfile {
+  id: string;
+  name: string;
+  rosVersion: 1 | 2;
+  topics: Record<TopicKey, TopicConfig>;
+}
+
+export interface TopicProfileConfig {
+  activeProfile: string;
+  profiles: TopicProfile[];
+}
+
+export interface TopicProfileLoadResult {
+  config: TopicProfileConfig;
+  errors: string[];
+}
+
+export const TOPIC_KEYS: TopicKey[] = [
+  "camera",
+  "cameraInfo",
+  "cmdVel",
+  "lidarPoints",
+  "map",
+  "path",
+  "currentPose",
+  "defects",
+  "eStop",
+  "eStopState",
+  "tf",
+  "tfStatic",
+];
+
+export const TOPIC_LABELS: Record<TopicKey, string> = {
+  camera: "Camera (compressed)",
+  cameraInfo: "Camera calibration",
+  cmdVel: "Velocity command",
+  lidarPoints: "Lidar points",
+  map: "SLAM map",
+  path: "Robot path",
+  currentPose: "Current pose",
+  defects: "Defect results",
+  eStop: "E-stop command (latched)",
+  eStopState: "E-stop state (robot)",
+  tf: "Transforms",
+  tfStatic: "Static transforms",
+};
+
+const DEFAULT_TOPICS: Record<TopicKey, TopicConfig> = {
+  camera: { name: "camera_0/color/image_raw/compressed", messageType: "sensor_msgs/msg/CompressedImage" },
+  cameraInfo: { name: "camera_0/color/camera_info", messageType: "sensor_msgs/msg/CameraInfo" },
+  cmdVel: { name: "cmd_vel", messageType: "geometry_msgs/msg/Twist" },
+  lidarPoints: { name: "sensors/lidar3d_0/points", messageType: "sensor_msgs/msg/PointCloud2" },
+  map: { name: "/map", messageType: "sensor_msgs/msg/PointCloud2" },
+  path: { name: "/path", messageType: "nav_msgs/msg/Path" },
+  currentPose: { name: "/current_pose", messageType: "geometry_msgs/msg/PoseStamped" },
+  defects: { name: "/defect_detection/results", messageType: "defect_msgs/msg/DefectArray" },
+  eStop: { name: "safety/e_stop", messageType: "std_msgs/msg/Bool" },
+  eStopState: { name: "safety/e_stop_state", messageType: "std_msgs/msg/Bool" },
+  tf: { name: "/tf", messageType: "tf2_msgs/msg/TFMessage" },
+  tfStatic: { name: "/tf_static", messageType: "tf2_msgs/msg/TFMessage" },
+};
+
+export const DEFAULT_TOPIC_PROFILE_CONFIG: TopicProfileConfig = {
+  activeProfile: "lab",
+  profiles: [
+    { id: "sim", name: "Simulation", rosVersion: 2, topics: { ...DEFAULT_TOPICS } },
+    { id: "lab", name: "Lab", rosVersion: 2, topics: { ...DEFAULT_TOPICS } },
+    { id: "field", name: "Field", rosVersion: 2, topics: { ...DEFAULT_TOPICS } },
+  ],
+};
+
+const TOPIC_NAME_PATTERN = /^[~/]?[A-Za-z][\w/]*$/;
+const MESSAGE_TYPE_PATTERN = /^[A-Za-z]\w*\/(msg\/)?[A-Za-z]\w*$/;
+
+// Store types as "pkg/msg/Type" regardless of how they were written
+export const canonicalMessageType = (messageType: string): string => {
+  const parts = messageType.split("/");
+  return parts.length === 2 ? `${parts[0]}/msg/${parts[1]}` : messageType;
+};
+
+// ROS 1 bridges expect "pkg/Type", ROS 2 bridges "pkg/msg/Type"
+export const messageTypeForRos = (messageType: string, rosVersion: 1 | 2): string => {
+  const canonical = canonicalMessageType(messageType);
+  return rosVersion === 1 ? canonical.replace("/msg/", "/") : canonical;
+};
+
+// Same convention for services: "pkg/Type" on ROS 1, "pkg/srv/Type" on ROS 2
+export const serviceTypeForRos = (serviceType: string, rosVersion: 1 | 2): string => {
+  const parts = serviceType.split("/");
+  const canonical = parts.length === 2 ? `${parts[0]}/srv/${parts[1]}` : serviceType;
+  return rosVersion === 1 ? canonical.replace("/srv/", "/") : canonical;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function validateProfile(raw: unknown, index: number, errors: string[]): TopicProfile | null {
+  if (!isRecord(raw)) {
+    errors.push(`Profile #${index + 1} is not an object, skipped`);
+    return null;
+  }
+
+  if (typeof raw.id !== "string" || !raw.id.trim()) {
+    errors.push(`Profile #${index + 1} has no id, skipped`);
+    return null;
+  }
+
+  const id = raw.id.trim();
+  const name = typeof raw.name === "string" && raw.name.trim() ? raw.name.trim() : id;
+
+  let rosVersion: 1 | 2 = 2;
+  if (raw.rosVersion === 1 || raw.rosVersion === 2) {
+    rosVersion = raw.rosVersion;
+  } else if (raw.rosVersion !== undefined) {
+    errors.push(`Profile "${id}": rosVersion must be 1 or 2, using 2`);
+  }
+
+  const rawTopics = isRecord(raw.topics) ? raw.topics : {};
+  const topics = {} as Record<TopicKey, TopicConfig>;
+
+  for (const key of TOPIC_KEYS) {
+    const topic = rawTopics[key];
+
+    if (!isRecord(topic)) {
+      errors.push(`Profile "${id}": missing topic "${key}", using default`);
+      topics[key] = { ...DEFAULT_TOPICS[key] };
+      continue;
+    }
+
+    const topicName = typeof topic.name === "string" ? topic.name.trim() : "";
+    const messageType = typeof topic.messageType === "string" ? topic.messageType.trim() : "";
+
+    if (!TOPIC_NAME_PATTERN.test(topicName)) {
+      errors.push(`Profile "${id}": invalid name for "${key}" (${JSON.stringify(topic.name)}), using default`);
+      topics[key] = { ...DEFAULT_TOPICS[key] };
+      continue;
+    }
+
+    if (!MESSAGE_TYPE_PATTERN.test(messageType)) {
+      errors.push(`Profile "${id}": invalid message type for "${key}" (${JSON.stringify(topic.messageType)}), using default`);
+      topics[key] = { ...DEFAULT_TOPICS[key] };
+      continue;
+    }
+
+    topics[key] = { name: topicName, messageType: canonicalMessageType(messageType) };
+  }
+
+  return { id, name, rosVersion, topics };
+}
+
+// Validate a parsed profile file, falling back to defaults for anything broken
+export function validateTopicProfileConfig(raw: unknown): TopicProfileLoadResult {
+  const errors: string[] = [];
+
+  if (!isRecord(raw) || !Array.isArray(raw.profiles)) {
+    errors.push("Topic profile file has no profiles list, using defaults");
+    return { config: DEFAULT_TOPIC_PROFILE_CONFIG, errors };
+  }
+
+  const profiles: TopicProfile[] = [];
+  raw.profiles.forEach((rawProfile, index) => {
+    const profile = validateProfile(rawProfile, index, errors);
+    if (!profile) return;
+
+    if (profiles.some((p) => p.id === profile.id)) {
+      errors.push(`Duplicate profile id "${profile.id}", skipped`);
+      return;
+    }
+    profiles.push(profile);
+  });
+
+  if (profiles.length === 0) {
+    errors.push("No valid topic profiles, using defaults");
+    return { config: DEFAULT_TOPIC_PROFILE_CONFIG, errors };
+  }
+
+  let activeProfile = typeof raw.activeProfile === "string" ? raw.activeProfile : "";
+  if (!profiles.some((p) => p.id === activeProfile)) {
+    if (activeProfile) {
+      errors.push(`Active profile "${activeProfile}" not found, using "${profiles[0].id}"`);
+    }
+    activeProfile = profiles[0].id;
+  }
+
+  return { config: { activeProfile, profiles }, errors };
+}
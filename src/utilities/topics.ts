@@ -0,0 +1,8 @@
+// Resolve a topic name the way ROS does: absolute names are left alone,
+// relative names are prefixed with the robot namespace
+export const resolveTopicName = (namespace: string, name: string): string => {
+  if (name.startsWith("/")) return name;
+  const ns = namespace.replace(/\/+$/, "");
+  if (!ns) return `/${name}`;
+  return `${ns.startsWith("/") ? ns : `/${ns}`}/${name}`;
+};
@@ -0,0 +1,102 @@
+// Acceleration and jerk limited velocity ramping for teleop commands
+
+export interface Velocity2D {
+  linear: number; // m/s
+  angular: number; // rad/s
+}
+
+export interface AxisLimits {
+  accel: number; // Max rate of speeding up, units/s²
+  decel: number; // Max rate of slowing down, units/s²
+  jerk: number; // Max change of acceleration, units/s³
+}
+
+export interface RampLimits {
+  linear: AxisLimits;
+  angular: AxisLimits;
+  releaseLinearDecel: number; // Faster decel used once the operator lets go
+  releaseAngularDecel: number;
+}
+
+export interface AxisState {
+  velocity: number;
+  acceleration: number;
+}
+
+export interface RampState {
+  linear: AxisState;
+  angular: AxisState;
+}
+
+export const DEFAULT_RAMP_LIMITS: RampLimits = {
+  linear: { accel: 0.5, decel: 1.0, jerk: 2.0 },
+  angular: { accel: 1.5, decel: 3.0, jerk: 6.0 },
+  releaseLinearDecel: 2.0,
+  releaseAngularDecel: 6.0,
+};
+
+export const ZERO_VELOCITY: Velocity2D = { linear: 0, angular: 0 };
+
+export const createRampState = (): RampState => ({
+  linear: { velocity: 0, acceleration: 0 },
+  angular: { velocity: 0, acceleration: 0 },
+});
+
+// Below this the ramp is considered stopped
+const STOP_EPSILON = 1e-3;
+
+// Advance one axis towards its target. Slowing down (towards zero or through
+// it) uses the decel limit, speeding up the accel limit.
+function stepAxis(state: AxisState, target: number, dt: number, limits: AxisLimits): AxisState {
+  const error = target - state.velocity;
+  if (Math.abs(error) < STOP_EPSILON) {
+    return { velocity: target, acceleration: 0 };
+  }
+
+  const slowingDown =
+    Math.sign(target) !== Math.sign(state.velocity) || Math.abs(target) < Math.abs(state.velocity);
+  const maxAccel = slowingDown ? limits.decel : limits.accel;
+
+  // Acceleration needed to reach the target this step, clamped to the limit
+  let desired = Math.max(-maxAccel, Math.min(maxAccel, error / dt));
+
+  // Limit how quickly acceleration itself can change
+  const maxChange = limits.jerk * dt;
+  desired = Math.max(
+    state.acceleration - maxChange,
+    Math.min(state.acceleration + maxChange, desired)
+  );
+
+  const velocity = state.velocity + desired * dt;
+
+  // Never overshoot the target
+  if ((target - velocity) * error <= 0) {
+    return { velocity: target, acceleration: 0 };
+  }
+  return { velocity, acceleration: desired };
+}
+
+// Advance both axes by dt seconds. When `released` is set the jerk limit is
+// skipped and the faster release decel is used so the robot stops promptly.
+export function stepRamp(
+  state: RampState,
+  target: Velocity2D,
+  dt: number,
+  limits: RampLimits,
+  released: boolean
+): RampState {
+  const linearLimits = released
+    ? { accel: limits.linear.accel, decel: limits.releaseLinearDecel, jerk: Infinity }
+    : limits.linear;
+  const angularLimits = released
+    ? { accel: limits.angular.accel, decel: limits.releaseAngularDecel, jerk: Infinity }
+    : limits.angular;
+
+  return {
+    linear: stepAxis(state.linear, target.linear, dt, linearLimits),
+    angular: stepAxis(state.angular, target.angular, dt, angularLimits),
+  };
+}
+
+export const isRampStopped = (state: RampState): boolean =>
+  Math.abs(state.linear.velocity) < STOP_EPSILON && Math.abs(state.angular.velocity) < STOP_EPSILON;
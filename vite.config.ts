@@ -15,6 +15,16 @@ export default defineConfig({
       main: {
         // Shortcut of `build.lib.entry`.
         entry: 'electron/main.ts',
+        vite: {
+          build: {
+            rollupOptions: {
+              // Loaded from node_modules at runtime: these find their data
+              // files (pdfkit's font metrics, the key listener's native key
+              // servers) relative to __dirname, which a bundled ES module lacks
+              external: ['pdfkit', 'node-global-key-listener'],
+            },
+          },
+        },
       },
       preload: {
         // Shortcut of `build.rollupOptions.input`.